@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { auditEventQuerySchema } from '@/lib/translation/audit';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (request: NextRequest, { workspace }) => {
+    try {
+      const filters = auditEventQuerySchema.parse(
+        Object.fromEntries(request.nextUrl.searchParams)
+      );
+      const events = await dbService.auditEvents.list(workspace.id, filters);
+
+      // A full page means older events may remain
+      const nextCursor =
+        events.length === filters.limit ? events[events.length - 1].id : null;
+
+      return NextResponse.json(
+        { success: true, data: { events, nextCursor } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch audit events:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to fetch audit events' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import {
+  compactTranslations,
+  glossaryTermInputSchema,
+} from '@/lib/translation/glossary';
+
+interface RouteParams {
+  params: Promise<{
+    termId: string;
+  }>;
+}
+
+export const PATCH = withRouteGuard<RouteParams>(
+  { permission: 'translations:edit' },
+  async (request: NextRequest, { params, workspace }) => {
+    try {
+      const { termId } = await params;
+      const body = await request.json();
+      const data = glossaryTermInputSchema.parse(body);
+
+      // The editor always submits the full entry, so PATCH replaces every field
+      const term = await dbService.glossaryTerms.update(workspace.id, termId, {
+        ...data,
+        translations: compactTranslations(data.translations),
+        notes: data.notes || null,
+      });
+
+      if (!term) {
+        return NextResponse.json(
+          { error: 'Glossary term not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: { term } });
+    } catch (error) {
+      console.error('Failed to update glossary term:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update glossary term' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const DELETE = withRouteGuard<RouteParams>(
+  { permission: 'translations:edit' },
+  async (_request: NextRequest, { params, workspace }) => {
+    try {
+      const { termId } = await params;
+      const term = await dbService.glossaryTerms.findById(workspace.id, termId);
+
+      if (!term) {
+        return NextResponse.json(
+          { error: 'Glossary term not found' },
+          { status: 404 }
+        );
+      }
+
+      await dbService.glossaryTerms.delete(workspace.id, termId);
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete glossary term:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete glossary term' },
+        { status: 500 }
+      );
+    }
+  }
+);
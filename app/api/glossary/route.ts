@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import {
+  compactTranslations,
+  glossaryTermInputSchema,
+} from '@/lib/translation/glossary';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (_request: NextRequest, { workspace }) => {
+    try {
+      const terms = await dbService.glossaryTerms.list(workspace.id);
+
+      return NextResponse.json(
+        { success: true, data: { terms } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch glossary terms:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch glossary terms' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withRouteGuard(
+  { permission: 'translations:edit' },
+  async (request: NextRequest, { workspace }) => {
+    try {
+      const body = await request.json();
+      const data = glossaryTermInputSchema.parse(body);
+
+      const term = await dbService.glossaryTerms.create({
+        ...data,
+        workspaceId: workspace.id,
+        translations: compactTranslations(data.translations),
+        notes: data.notes || null,
+      });
+
+      return NextResponse.json({ success: true, data: { term } });
+    } catch (error) {
+      console.error('Failed to create glossary term:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to create glossary term' },
+        { status: 500 }
+      );
+    }
+  }
+);
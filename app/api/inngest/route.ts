@@ -4,8 +4,9 @@ import {
   translateLanguage,
   retranslateLanguage,
 } from '@/inngest/translation-worker';
+import { syncTemplates } from '@/inngest/template-sync';
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [translateLanguage, retranslateLanguage],
+  functions: [translateLanguage, retranslateLanguage, syncTemplates],
 });
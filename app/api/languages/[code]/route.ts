@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { languageUpdateSchema } from '@/lib/translation/languages';
+
+interface RouteParams {
+  params: Promise<{
+    code: string;
+  }>;
+}
+
+export const PATCH = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { params }) => {
+    try {
+      const { code } = await params;
+      const body = await request.json();
+      const data = languageUpdateSchema.parse(body);
+
+      // Codes are referenced by existing translations, so only the details change
+      const language = await dbService.languages.update(code, data);
+
+      if (!language) {
+        return NextResponse.json(
+          { error: 'Language not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: { language } });
+    } catch (error) {
+      console.error('Failed to update language:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update language' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { languageInputSchema } from '@/lib/translation/languages';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withUserRouteGuard(
+  { permission: 'translations:view' },
+  async () => {
+    try {
+      // Disabled languages are included so existing translations keep their names
+      const languages = await dbService.languages.list();
+
+      return NextResponse.json(
+        { success: true, data: { languages } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch languages:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch languages' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withUserRouteGuard(
+  { permission: 'settings:manage' },
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const data = languageInputSchema.parse(body);
+
+      const existing = await dbService.languages.findByCode(data.code);
+      if (existing) {
+        return NextResponse.json(
+          { error: `Language ${data.code} already exists` },
+          { status: 409 }
+        );
+      }
+
+      const language = await dbService.languages.create(data);
+
+      return NextResponse.json({ success: true, data: { language } });
+    } catch (error) {
+      console.error('Failed to create language:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to create language' },
+        { status: 500 }
+      );
+    }
+  }
+);
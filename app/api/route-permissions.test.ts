@@ -0,0 +1,383 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { dbService } from '@/lib/services/db-service';
+import {
+  hasPermission,
+  type Permission,
+  type UserRole,
+} from '@/lib/constants/roles';
+import type { UserRoleRecord } from '@/lib/db/schema';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+// Handlers never run in these tests, so only the guard's lookups are stubbed
+vi.mock('@/lib/services/db-service', () => ({
+  dbService: {
+    userRoles: { findByUserId: vi.fn() },
+    workspaces: { list: vi.fn(), listForUser: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/constants/roles', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/constants/roles')>();
+  return { ...actual, hasPermission: vi.fn(actual.hasPermission) };
+});
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+type RouteHandler = (
+  request: NextRequest,
+  context: { params: Promise<Record<string, string>> }
+) => Promise<Response>;
+
+interface GuardedHandler {
+  route: string;
+  method: Method;
+  // Null for handlers open to every signed-in user
+  permission: Permission | null;
+  // Route modules type their params per segment, so they are narrowed on call
+  load: () => Promise<unknown>;
+}
+
+// Every exported handler except the Inngest endpoint, which Inngest signs
+const HANDLERS: GuardedHandler[] = [
+  {
+    route: 'audit-events',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/audit-events/route'),
+  },
+  {
+    route: 'glossary',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/glossary/route'),
+  },
+  {
+    route: 'glossary',
+    method: 'POST',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/glossary/route'),
+  },
+  {
+    route: 'glossary/[termId]',
+    method: 'PATCH',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/glossary/[termId]/route'),
+  },
+  {
+    route: 'glossary/[termId]',
+    method: 'DELETE',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/glossary/[termId]/route'),
+  },
+  {
+    route: 'languages',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/languages/route'),
+  },
+  {
+    route: 'languages',
+    method: 'POST',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/languages/route'),
+  },
+  {
+    route: 'languages/[code]',
+    method: 'PATCH',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/languages/[code]/route'),
+  },
+  {
+    route: 'sendgrid/env',
+    method: 'POST',
+    permission: 'translations:view',
+    load: () => import('@/app/api/sendgrid/env/route'),
+  },
+  {
+    route: 'sendgrid/templates',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/sendgrid/templates/route'),
+  },
+  {
+    route: 'style-guides',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/style-guides/route'),
+  },
+  {
+    route: 'style-guides',
+    method: 'POST',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/style-guides/route'),
+  },
+  {
+    route: 'style-guides/[guideId]',
+    method: 'PATCH',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/style-guides/[guideId]/route'),
+  },
+  {
+    route: 'style-guides/[guideId]',
+    method: 'DELETE',
+    permission: 'translations:edit',
+    load: () => import('@/app/api/style-guides/[guideId]/route'),
+  },
+  {
+    route: 'template-settings/[templateId]',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/template-settings/[templateId]/route'),
+  },
+  {
+    route: 'template-settings/[templateId]',
+    method: 'PUT',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/template-settings/[templateId]/route'),
+  },
+  {
+    route: 'translations/[templateId]',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/translations/[templateId]/route'),
+  },
+  {
+    route: 'translations/batch',
+    method: 'POST',
+    permission: 'translations:create',
+    load: () => import('@/app/api/translations/batch/route'),
+  },
+  {
+    route: 'translations/providers',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/translations/providers/route'),
+  },
+  {
+    route: 'translations/publish',
+    method: 'POST',
+    permission: 'translations:publish',
+    load: () => import('@/app/api/translations/publish/route'),
+  },
+  {
+    route: 'translations/retranslate',
+    method: 'POST',
+    permission: 'translations:create',
+    load: () => import('@/app/api/translations/retranslate/route'),
+  },
+  {
+    route: 'translations/source-hashes',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/translations/source-hashes/route'),
+  },
+  {
+    route: 'translations/start',
+    method: 'POST',
+    permission: 'translations:create',
+    load: () => import('@/app/api/translations/start/route'),
+  },
+  {
+    route: 'translations/tasks',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/translations/tasks/route'),
+  },
+  {
+    route: 'translations/translation/[translationId]',
+    method: 'PATCH',
+    permission: 'translations:review',
+    load: () =>
+      import('@/app/api/translations/translation/[translationId]/route'),
+  },
+  {
+    route: 'translations/translation/[translationId]',
+    method: 'DELETE',
+    permission: 'translations:delete',
+    load: () =>
+      import('@/app/api/translations/translation/[translationId]/route'),
+  },
+  {
+    route: 'translations/translation/[translationId]/diff',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () =>
+      import('@/app/api/translations/translation/[translationId]/diff/route'),
+  },
+  {
+    route: 'translations/translation/[translationId]/segments',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () =>
+      import('@/app/api/translations/translation/[translationId]/segments/route'),
+  },
+  {
+    route: 'translations/translation/[translationId]/segments',
+    method: 'POST',
+    permission: 'translations:edit',
+    load: () =>
+      import('@/app/api/translations/translation/[translationId]/segments/route'),
+  },
+  {
+    route: 'translations/update-source',
+    method: 'POST',
+    permission: 'translations:create',
+    load: () => import('@/app/api/translations/update-source/route'),
+  },
+  {
+    route: 'usage',
+    method: 'GET',
+    permission: 'translations:view',
+    load: () => import('@/app/api/usage/route'),
+  },
+  {
+    route: 'usage/budget',
+    method: 'PUT',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/usage/budget/route'),
+  },
+  {
+    route: 'users',
+    method: 'GET',
+    permission: 'users:manage',
+    load: () => import('@/app/api/users/route'),
+  },
+  {
+    route: 'users/[userId]',
+    method: 'PATCH',
+    permission: 'users:manage',
+    load: () => import('@/app/api/users/[userId]/route'),
+  },
+  {
+    route: 'users/me',
+    method: 'GET',
+    permission: null,
+    load: () => import('@/app/api/users/me/route'),
+  },
+  {
+    route: 'workspaces',
+    method: 'GET',
+    permission: null,
+    load: () => import('@/app/api/workspaces/route'),
+  },
+  {
+    route: 'workspaces',
+    method: 'POST',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/workspaces/route'),
+  },
+  {
+    route: 'workspaces/active',
+    method: 'POST',
+    permission: null,
+    load: () => import('@/app/api/workspaces/active/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]',
+    method: 'PATCH',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/workspaces/[workspaceId]/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/members',
+    method: 'GET',
+    permission: 'users:manage',
+    load: () => import('@/app/api/workspaces/[workspaceId]/members/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/members',
+    method: 'PUT',
+    permission: 'users:manage',
+    load: () => import('@/app/api/workspaces/[workspaceId]/members/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/secrets',
+    method: 'GET',
+    permission: 'settings:manage',
+    load: () => import('@/app/api/workspaces/[workspaceId]/secrets/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/secrets/[kind]',
+    method: 'PUT',
+    permission: 'settings:manage',
+    load: () =>
+      import('@/app/api/workspaces/[workspaceId]/secrets/[kind]/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/secrets/[kind]',
+    method: 'DELETE',
+    permission: 'settings:manage',
+    load: () =>
+      import('@/app/api/workspaces/[workspaceId]/secrets/[kind]/route'),
+  },
+  {
+    route: 'workspaces/[workspaceId]/secrets/[kind]/test',
+    method: 'POST',
+    permission: 'settings:manage',
+    load: () =>
+      import('@/app/api/workspaces/[workspaceId]/secrets/[kind]/test/route'),
+  },
+];
+
+function signIn(role: UserRole) {
+  vi.mocked(auth).mockResolvedValue({ userId: 'user-1' } as never);
+  vi.mocked(dbService.userRoles.findByUserId).mockResolvedValue({
+    userId: 'user-1',
+    email: 'user@example.com',
+    role,
+    reviewLanguages: [],
+  } as unknown as UserRoleRecord);
+}
+
+async function callHandler({ route, method, load }: GuardedHandler) {
+  const handlers = (await load()) as Partial<Record<Method, RouteHandler>>;
+  const handler = handlers[method];
+  if (!handler) {
+    throw new Error(`${route} does not export ${method}`);
+  }
+
+  return handler(new NextRequest(`http://localhost/api/${route}`, { method }), {
+    params: Promise.resolve({}),
+  });
+}
+
+describe('route permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each(HANDLERS.filter((entry) => entry.permission !== null))(
+    '$method /api/$route requires $permission',
+    async (entry) => {
+      signIn('admin');
+      // Admins hold every permission, so revoke only the one under test
+      vi.mocked(hasPermission).mockImplementation(
+        (_role, permission) => permission !== entry.permission
+      );
+
+      const response = await callHandler(entry);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'forbidden' });
+      expect(hasPermission).toHaveBeenCalledWith('admin', entry.permission);
+      expect(dbService.workspaces.list).not.toHaveBeenCalled();
+    }
+  );
+
+  it.each(HANDLERS.filter((entry) => entry.permission === null))(
+    '$method /api/$route requires a signed-in user',
+    async (entry) => {
+      vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+
+      const response = await callHandler(entry);
+
+      expect(response.status).toBe(401);
+      expect(dbService.userRoles.findByUserId).not.toHaveBeenCalled();
+    }
+  );
+});
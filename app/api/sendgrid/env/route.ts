@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server"
+import { withUserRouteGuard } from "@/lib/auth/guard"
 
 const DEFAULT_ALLOWED_PREFIX = "NEXT_PUBLIC_"
 
@@ -18,41 +19,44 @@ const isAllowedKey = (key: string) => {
   return configuredAllowlist.has(key)
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { keys } = await request.json()
+export const POST = withUserRouteGuard(
+  { permission: "translations:view" },
+  async (request: NextRequest) => {
+    try {
+      const { keys } = await request.json()
 
-    if (!Array.isArray(keys)) {
-      return NextResponse.json({ error: "Request body must include a keys array" }, { status: 400 })
-    }
-
-    const result: Record<string, string> = {}
-    const rejected: string[] = []
-
-    keys.forEach((incoming) => {
-      if (typeof incoming !== "string") {
-        return
-      }
-
-      const key = incoming.trim()
-      if (!key) {
-        return
-      }
-
-      if (!isAllowedKey(key)) {
-        rejected.push(key)
-        return
+      if (!Array.isArray(keys)) {
+        return NextResponse.json({ error: "Request body must include a keys array" }, { status: 400 })
       }
 
-      const value = process.env[key]
-      if (value !== undefined) {
-        result[key] = value
-      }
-    })
-
-    return NextResponse.json({ result, rejected })
-  } catch (error) {
-    console.error("[Env API] Failed to resolve template env keys", error)
-    return NextResponse.json({ error: "Failed to resolve environment variables" }, { status: 500 })
-  }
-}
+      const result: Record<string, string> = {}
+      const rejected: string[] = []
+
+      keys.forEach((incoming) => {
+        if (typeof incoming !== "string") {
+          return
+        }
+
+        const key = incoming.trim()
+        if (!key) {
+          return
+        }
+
+        if (!isAllowedKey(key)) {
+          rejected.push(key)
+          return
+        }
+
+        const value = process.env[key]
+        if (value !== undefined) {
+          result[key] = value
+        }
+      })
+
+      return NextResponse.json({ result, rejected })
+    } catch (error) {
+      console.error("[Env API] Failed to resolve template env keys", error)
+      return NextResponse.json({ error: "Failed to resolve environment variables" }, { status: 500 })
+    }
+  },
+)
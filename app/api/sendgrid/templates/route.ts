@@ -1,139 +1,150 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-
-export async function GET(request: NextRequest) {
-  try {
-    const { userId } = await auth();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const resolvedApiKey = process.env.SENDGRID_API_KEY;
-
-    if (!resolvedApiKey) {
-      return NextResponse.json(
-        { error: 'API key is required' },
-        { status: 400 }
-      );
-    }
-
-    console.log('Making request to SendGrid API...');
-
-    // Fetch templates from SendGrid
-    const response = await fetch(
-      'https://api.sendgrid.com/v3/templates?generations=dynamic',
-      {
-        headers: {
-          Authorization: `Bearer ${resolvedApiKey}`,
-          'Content-Type': 'application/json',
-        },
+import { withRouteGuard } from '@/lib/auth/guard';
+import { SENDGRID_API_BASE_URL } from '@/lib/services/sendgrid-service';
+import { resolveSecret } from '@/lib/services/secrets';
+import { hashSendGridVersion } from '@/lib/translation/source-hash';
+import type {
+  SendGridTemplate,
+  SendGridTemplateVersion,
+} from '@/lib/types/sendgrid';
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (_request: NextRequest, { workspace }) => {
+    try {
+      const resolvedApiKey = await resolveSecret(workspace, 'sendgrid');
+
+      if (!resolvedApiKey) {
+        return NextResponse.json(
+          { error: 'This workspace has no SendGrid API key' },
+          { status: 400 }
+        );
       }
-    );
 
-    console.log('SendGrid API response status:', response.status);
+      console.log('Making request to SendGrid API...');
 
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: 'Unknown error' }));
-      console.error('SendGrid API error response:', errorData);
-      return NextResponse.json(
+      // Fetch templates from SendGrid
+      const response = await fetch(
+        `${SENDGRID_API_BASE_URL}/v3/templates?generations=dynamic`,
         {
-          error:
-            errorData.errors?.[0]?.message ||
-            `SendGrid API error: ${response.status}`,
-        },
-        { status: response.status }
+          headers: {
+            Authorization: `Bearer ${resolvedApiKey}`,
+            'Content-Type': 'application/json',
+          },
+        }
       );
-    }
 
-    const data = await response.json();
-    console.log(
-      'SendGrid API response:',
-      JSON.stringify(data).substring(0, 200) + '...'
-    );
-
-    let templates = [];
+      console.log('SendGrid API response status:', response.status);
+
+      if (!response.ok) {
+        const errorData = await response
+          .json()
+          .catch(() => ({ error: 'Unknown error' }));
+        console.error('SendGrid API error response:', errorData);
+        return NextResponse.json(
+          {
+            error:
+              errorData.errors?.[0]?.message ||
+              `SendGrid API error: ${response.status}`,
+          },
+          { status: response.status }
+        );
+      }
 
-    if (data && Array.isArray(data.templates)) {
-      templates = data.templates;
-      console.log('Using data.templates array');
-    } else if (data && Array.isArray(data.result)) {
-      templates = data.result;
-      console.log('Using data.result array');
-    } else if (Array.isArray(data)) {
-      templates = data;
-      console.log('Using direct array');
-    } else {
-      console.error(
-        'Unexpected API response structure:',
-        JSON.stringify(data).substring(0, 200)
+      const data = await response.json();
+      console.log(
+        'SendGrid API response:',
+        JSON.stringify(data).substring(0, 200) + '...'
       );
-      return NextResponse.json(
-        {
-          error: 'Unexpected response format from SendGrid API',
-          debug: { receivedData: data },
-        },
-        { status: 500 }
-      );
-    }
 
-    console.log('Found templates:', templates.length);
+      let templates: SendGridTemplate[] = [];
+
+      if (data && Array.isArray(data.templates)) {
+        templates = data.templates;
+        console.log('Using data.templates array');
+      } else if (data && Array.isArray(data.result)) {
+        templates = data.result;
+        console.log('Using data.result array');
+      } else if (Array.isArray(data)) {
+        templates = data;
+        console.log('Using direct array');
+      } else {
+        console.error(
+          'Unexpected API response structure:',
+          JSON.stringify(data).substring(0, 200)
+        );
+        return NextResponse.json(
+          {
+            error: 'Unexpected response format from SendGrid API',
+            debug: { receivedData: data },
+          },
+          { status: 500 }
+        );
+      }
 
-    if (templates.length === 0) {
-      return NextResponse.json({ result: [] });
-    }
+      console.log('Found templates:', templates.length);
 
-    // Fetch detailed information for each template including versions
-    const templatesWithVersions = await Promise.all(
-      templates.map(async (template: any) => {
-        try {
-          const versionResponse = await fetch(
-            `https://api.sendgrid.com/v3/templates/${template.id}`,
-            {
-              headers: {
-                Authorization: `Bearer ${resolvedApiKey}`,
-                'Content-Type': 'application/json',
-              },
+      if (templates.length === 0) {
+        return NextResponse.json({ result: [] });
+      }
+
+      // Fetch detailed information for each template including versions
+      const templatesWithVersions = await Promise.all(
+        templates.map(async (template) => {
+          try {
+            const versionResponse = await fetch(
+              `${SENDGRID_API_BASE_URL}/v3/templates/${template.id}`,
+              {
+                headers: {
+                  Authorization: `Bearer ${resolvedApiKey}`,
+                  'Content-Type': 'application/json',
+                },
+              }
+            );
+
+            if (versionResponse.ok) {
+              const versionData = await versionResponse.json();
+              // Lets the UI spot translations made from copy that has since changed
+              const versions = (versionData.versions || []).map(
+                (version: SendGridTemplateVersion) => ({
+                  ...version,
+                  content_hash: hashSendGridVersion(version),
+                })
+              );
+              return {
+                ...template,
+                versions,
+              };
             }
-          );
 
-          if (versionResponse.ok) {
-            const versionData = await versionResponse.json();
             return {
               ...template,
-              versions: versionData.versions || [],
+              versions: [],
+            };
+          } catch (error) {
+            console.error(
+              `Error fetching versions for template ${template.id}:`,
+              error
+            );
+            return {
+              ...template,
+              versions: [],
             };
           }
+        })
+      );
 
-          return {
-            ...template,
-            versions: [],
-          };
-        } catch (error) {
-          console.error(
-            `Error fetching versions for template ${template.id}:`,
-            error
-          );
-          return {
-            ...template,
-            versions: [],
-          };
-        }
-      })
-    );
-
-    console.log('Successfully processed templates with versions');
-    return NextResponse.json({ result: templatesWithVersions });
-  } catch (error) {
-    console.error('SendGrid API error:', error);
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        debug: error instanceof Error ? error.message : String(error),
-      },
-      { status: 500 }
-    );
+      console.log('Successfully processed templates with versions');
+      return NextResponse.json({ result: templatesWithVersions });
+    } catch (error) {
+      console.error('SendGrid API error:', error);
+      return NextResponse.json(
+        {
+          error: 'Internal server error',
+          debug: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+    }
   }
-}
+);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { styleGuideInputSchema } from '@/lib/translation/style-guides';
+
+interface RouteParams {
+  params: Promise<{
+    guideId: string;
+  }>;
+}
+
+// Language and template define the guide's scope and stay fixed once created
+const styleGuideUpdateSchema = styleGuideInputSchema.pick({
+  tone: true,
+  instructions: true,
+});
+
+export const PATCH = withRouteGuard<RouteParams>(
+  { permission: 'translations:edit' },
+  async (request: NextRequest, { params, workspace }) => {
+    try {
+      const { guideId } = await params;
+      const body = await request.json();
+      const data = styleGuideUpdateSchema.parse(body);
+
+      const guide = await dbService.styleGuides.update(workspace.id, guideId, {
+        tone: data.tone || null,
+        instructions: data.instructions,
+      });
+
+      if (!guide) {
+        return NextResponse.json(
+          { error: 'Style guide not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: { guide } });
+    } catch (error) {
+      console.error('Failed to update style guide:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update style guide' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const DELETE = withRouteGuard<RouteParams>(
+  { permission: 'translations:edit' },
+  async (_request: NextRequest, { params, workspace }) => {
+    try {
+      const { guideId } = await params;
+      const guide = await dbService.styleGuides.findById(workspace.id, guideId);
+
+      if (!guide) {
+        return NextResponse.json(
+          { error: 'Style guide not found' },
+          { status: 404 }
+        );
+      }
+
+      await dbService.styleGuides.delete(workspace.id, guideId);
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete style guide:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete style guide' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { styleGuideInputSchema } from '@/lib/translation/style-guides';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (request: NextRequest, { workspace }) => {
+    try {
+      const templateId = request.nextUrl.searchParams.get('templateId');
+      const guides = await dbService.styleGuides.list(
+        workspace.id,
+        templateId || null
+      );
+
+      return NextResponse.json(
+        { success: true, data: { guides } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch style guides:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch style guides' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withRouteGuard(
+  { permission: 'translations:edit' },
+  async (request: NextRequest, { workspace }) => {
+    try {
+      const body = await request.json();
+      const data = styleGuideInputSchema.parse(body);
+      const templateId = data.templateId ?? null;
+
+      const existing = await dbService.styleGuides.findByScope(
+        workspace.id,
+        data.languageCode,
+        templateId
+      );
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A style guide already exists for this language' },
+          { status: 409 }
+        );
+      }
+
+      const guide = await dbService.styleGuides.create({
+        workspaceId: workspace.id,
+        languageCode: data.languageCode,
+        templateId,
+        templateName: templateId ? data.templateName || null : null,
+        tone: data.tone || null,
+        instructions: data.instructions,
+      });
+
+      return NextResponse.json({ success: true, data: { guide } });
+    } catch (error) {
+      console.error('Failed to create style guide:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to create style guide' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { findUnsupportedLanguages } from '@/lib/translation/queue';
+import { templateSettingsInputSchema } from '@/lib/translation/template-settings';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+export const GET = withRouteGuard<RouteParams>(
+  { permission: 'translations:view' },
+  async (_request: NextRequest, { params, workspace }) => {
+    try {
+      const { templateId } = await params;
+      // Null until the template's settings are first saved
+      const settings =
+        (await dbService.templateSettings.findByTemplateId(
+          workspace.id,
+          templateId
+        )) ?? null;
+
+      return NextResponse.json(
+        { success: true, data: { settings } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch template settings:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch template settings' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const PUT = withRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { params, workspace }) => {
+    try {
+      const { templateId } = await params;
+      const body = await request.json();
+      const data = templateSettingsInputSchema.parse(body);
+
+      const unsupported = await findUnsupportedLanguages([
+        data.sourceLanguage,
+        ...data.targetLanguages,
+      ]);
+
+      if (unsupported.length > 0) {
+        return NextResponse.json(
+          { error: `Unsupported language: ${unsupported.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const settings = await dbService.templateSettings.upsert({
+        workspaceId: workspace.id,
+        templateId,
+        templateName: data.templateName || null,
+        sourceLanguage: data.sourceLanguage,
+        targetLanguages: data.targetLanguages,
+        reviewers: data.reviewers,
+        autoTranslate: data.autoTranslate,
+        autoPublish: data.autoPublish,
+      });
+
+      return NextResponse.json({ success: true, data: { settings } });
+    } catch (error) {
+      console.error('Failed to save template settings:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to save template settings' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
+import { withRouteGuard } from '@/lib/auth/guard';
 import { dbService } from '@/lib/services/db-service';
 
 interface RouteParams {
@@ -11,39 +11,40 @@ interface RouteParams {
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET(_request: NextRequest, { params }: RouteParams) {
-  const { userId } = await auth();
+export const GET = withRouteGuard<RouteParams>(
+  { permission: 'translations:view' },
+  async (_request: NextRequest, { params, workspace }) => {
+    try {
+      const { templateId } = await params;
 
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-  try {
-    const { templateId } = await params;
-
-    const [tasks, translations] = await Promise.all([
-      dbService.translationTasks.findByTemplateId(templateId),
-      dbService.templateTranslations.findByTemplateId(templateId),
-    ]);
+      const [tasks, translations] = await Promise.all([
+        dbService.translationTasks.findByTemplateId(workspace.id, templateId),
+        dbService.templateTranslations.findByTemplateId(
+          workspace.id,
+          templateId
+        ),
+      ]);
 
-    return NextResponse.json(
-      {
-        success: true,
-        data: {
-          tasks,
-          translations,
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            tasks,
+            translations,
+          },
         },
-      },
-      {
-        headers: {
-          'Cache-Control': 'no-store',
-        },
-      }
-    );
-  } catch (error) {
-    console.error('Failed to fetch translations:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch translation data' },
-      { status: 500 }
-    );
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch translations:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch translation data' },
+        { status: 500 }
+      );
+    }
   }
-}
+);
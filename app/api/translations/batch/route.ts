@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { sendgridService } from '@/lib/services/sendgrid-service';
+import { resolveSecret } from '@/lib/services/secrets';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
+import { TRANSLATION_PROVIDER_IDS } from '@/lib/constants/translation-engines';
+import { parseTestData } from '@/lib/translation/test-data';
+import { recordAuditEvent } from '@/lib/translation/audit';
+import {
+  findUnsupportedLanguages,
+  queueTranslationTask,
+} from '@/lib/translation/queue';
+import { formatBudgetExceeded, getBudgetStatus } from '@/lib/translation/usage';
+import type { SendGridTemplate } from '@/lib/types/sendgrid';
+
+// Keeps one request within a reasonable number of SendGrid lookups
+const MAX_BATCH_TEMPLATES = 100;
+
+// SendGrid rate-limits template reads, so only a few run at a time
+const TEMPLATE_FETCH_CONCURRENCY = 4;
+
+type TemplateLookup = PromiseSettledResult<SendGridTemplate | undefined>;
+
+async function fetchTemplates(
+  apiKey: string,
+  templateIds: string[]
+): Promise<TemplateLookup[]> {
+  const lookups: TemplateLookup[] = [];
+
+  for (
+    let offset = 0;
+    offset < templateIds.length;
+    offset += TEMPLATE_FETCH_CONCURRENCY
+  ) {
+    const chunk = templateIds.slice(
+      offset,
+      offset + TEMPLATE_FETCH_CONCURRENCY
+    );
+    lookups.push(
+      ...(await Promise.allSettled(
+        chunk.map((templateId) =>
+          sendgridService.getTemplate(apiKey, templateId)
+        )
+      ))
+    );
+  }
+
+  return lookups;
+}
+
+const startBatchSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    templateIds: z.array(z.string()).min(1).max(MAX_BATCH_TEMPLATES),
+    sourceLanguage: z.string().default(DEFAULT_SOURCE_LANGUAGE),
+    targetLanguages: z.array(z.string()).min(1),
+    provider: z.enum(TRANSLATION_PROVIDER_IDS).optional(),
+    model: z.string().min(1).optional(),
+    translateTestData: z.boolean().optional(),
+  })
+  .refine((data) => !data.targetLanguages.includes(data.sourceLanguage), {
+    message: 'Target languages must not include the source language',
+    path: ['targetLanguages'],
+  });
+
+// Queues one task per template under a shared batch record
+export const POST = withRouteGuard(
+  { permission: 'translations:create' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const validatedData = startBatchSchema.parse(body);
+      const templateIds = Array.from(new Set(validatedData.templateIds));
+
+      const unsupported = await findUnsupportedLanguages([
+        validatedData.sourceLanguage,
+        ...validatedData.targetLanguages,
+      ]);
+
+      if (unsupported.length > 0) {
+        return NextResponse.json(
+          { error: `Unsupported language: ${unsupported.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const budget = await getBudgetStatus(workspace.id);
+      if (budget.exceeded) {
+        return NextResponse.json(
+          { error: formatBudgetExceeded(budget) },
+          { status: 402 }
+        );
+      }
+
+      const apiKey = await resolveSecret(workspace, 'sendgrid');
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: 'This workspace has no SendGrid API key' },
+          { status: 400 }
+        );
+      }
+
+      // Translate the live copy rather than whatever the client had loaded
+      const lookups = await fetchTemplates(apiKey, templateIds);
+
+      const skipped: Array<{ templateId: string; reason: string }> = [];
+      const sources = lookups.flatMap((lookup, index) => {
+        if (lookup.status === 'rejected') {
+          console.error(
+            `Failed to fetch template ${templateIds[index]}:`,
+            lookup.reason
+          );
+          skipped.push({
+            templateId: templateIds[index],
+            reason: 'Could not load the template from SendGrid',
+          });
+          return [];
+        }
+
+        const template = lookup.value;
+        const version = template?.versions.find((item) => item.active === 1);
+
+        if (!template || !version) {
+          skipped.push({
+            templateId: templateIds[index],
+            reason: template ? 'No active version' : 'Template not found',
+          });
+          return [];
+        }
+
+        if (!version.html_content?.trim()) {
+          skipped.push({
+            templateId: template.id,
+            reason: 'Template has no HTML content',
+          });
+          return [];
+        }
+
+        return [{ template, version }];
+      });
+
+      if (sources.length === 0) {
+        return NextResponse.json(
+          {
+            error: 'None of the selected templates can be translated',
+            skipped,
+          },
+          { status: 400 }
+        );
+      }
+
+      const batch = await dbService.translationBatches.create({
+        workspaceId: workspace.id,
+        name:
+          validatedData.name ??
+          `${sources.length} template${sources.length === 1 ? '' : 's'}`,
+        sourceLanguage: validatedData.sourceLanguage,
+        targetLanguages: validatedData.targetLanguages,
+        provider: validatedData.provider ?? null,
+        model: validatedData.provider ? (validatedData.model ?? null) : null,
+        status: 'queued',
+        totalTemplates: sources.length,
+        totalLanguages: sources.length * validatedData.targetLanguages.length,
+        createdBy: user.userId,
+      });
+
+      await recordAuditEvent(user, {
+        workspaceId: workspace.id,
+        action: 'batch.created',
+        payload: {
+          batchId: batch.id,
+          name: batch.name,
+          templateIds: sources.map(({ template }) => template.id),
+          targetLanguages: batch.targetLanguages,
+          provider: batch.provider,
+          model: batch.model,
+        },
+      });
+
+      console.log(
+        `Starting batch ${batch.id} for ${sources.length} templates into ${validatedData.targetLanguages.length} languages`
+      );
+
+      const taskIds: string[] = [];
+
+      // Sequential so one failed template does not abort the rest of the batch
+      for (const { template, version } of sources) {
+        try {
+          const task = await queueTranslationTask({
+            workspaceId: workspace.id,
+            batchId: batch.id,
+            templateId: template.id,
+            templateName: template.name,
+            templateVersionId: version.id,
+            htmlContent: version.html_content,
+            subject: version.subject,
+            plainContent: version.plain_content,
+            generatePlainContent: version.generate_plain_content,
+            // Templates whose fixture is not a JSON object keep it untranslated
+            testData: validatedData.translateTestData
+              ? parseTestData(version.test_data)
+              : null,
+            sourceLanguage: validatedData.sourceLanguage,
+            targetLanguages: validatedData.targetLanguages,
+            provider: validatedData.provider,
+            model: validatedData.model,
+            actor: user,
+          });
+          taskIds.push(task.id);
+        } catch (error) {
+          console.error(
+            `Failed to queue template ${template.id} in batch ${batch.id}:`,
+            error
+          );
+        }
+      }
+
+      await dbService.translationBatches.syncProgress(batch.id);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Batch translation queued successfully',
+        batchId: batch.id,
+        taskIds,
+        skipped,
+      });
+    } catch (error) {
+      console.error('Failed to start batch translation:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to start batch translation' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { TRANSLATION_ENGINE_OPTIONS } from '@/lib/constants/translation-engines';
+import { describeSecrets } from '@/lib/services/secrets';
+import { getTranslationProvider } from '@/lib/translation/providers';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (_request, { workspace }) => {
+    const secrets = (await describeSecrets([workspace])).get(workspace.id);
+    const configured = new Set(
+      secrets
+        ?.filter((secret) => secret.source !== null)
+        .map((secret) => secret.kind)
+    );
+
+    const engines = TRANSLATION_ENGINE_OPTIONS.map((option) => {
+      const provider = getTranslationProvider(option.provider);
+      return {
+        ...option,
+        available: provider.isAvailable(
+          provider.credential ? configured.has(provider.credential) : true
+        ),
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { engines },
+    });
+  }
+);
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { POST } from '@/app/api/translations/publish/route';
+import { dbService } from '@/lib/services/db-service';
+import type {
+  TemplateTranslation,
+  TranslationTask,
+  UserRoleRecord,
+  Workspace,
+} from '@/lib/db/schema';
+
+vi.hoisted(() => {
+  process.env.SENDGRID_API_BASE_URL = 'https://sendgrid.test';
+});
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+vi.mock('@/lib/services/db-service', () => ({
+  dbService: {
+    userRoles: { findByUserId: vi.fn() },
+    workspaces: { list: vi.fn(), listForUser: vi.fn() },
+    secrets: { find: vi.fn() },
+    templateSettings: { findByTemplateId: vi.fn() },
+    translationTasks: { findById: vi.fn() },
+    templateTranslations: {
+      findById: vi.fn(),
+      findPublishedByTemplateAndLanguage: vi.fn(),
+      markPublished: vi.fn(),
+    },
+    auditEvents: { record: vi.fn() },
+  },
+}));
+
+const TRANSLATION_ID = '5b0c3f8e-2f7d-4a51-9f0e-3c8a1d2b4e6f';
+
+const workspace = {
+  id: 'workspace-default',
+  name: 'Default',
+  slug: 'default',
+} as Workspace;
+
+// Answers like SendGrid: versions it does not know about are a 404
+const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+  if (init.method === 'PATCH' && !url.endsWith('/versions/version-live')) {
+    return Response.json(
+      { errors: [{ message: 'Version not found' }] },
+      { status: 404 }
+    );
+  }
+
+  const id = init.method === 'PATCH' ? 'version-live' : 'version-new';
+  return Response.json({ ...JSON.parse(String(init.body)), id });
+});
+
+function storedTranslation(
+  overrides: Partial<TemplateTranslation> = {}
+): TemplateTranslation {
+  return {
+    id: TRANSLATION_ID,
+    workspaceId: workspace.id,
+    taskId: 'task-1',
+    templateId: 'd-template',
+    languageCode: 'de',
+    status: 'completed',
+    translatedHtml: '<p>Hallo</p>',
+    translatedSubject: 'Hallo',
+    translatedPlainContent: null,
+    sendgridVersionId: null,
+    deletedAt: null,
+    ...overrides,
+  } as TemplateTranslation;
+}
+
+function publish() {
+  return POST(
+    new NextRequest('http://localhost/api/translations/publish', {
+      method: 'POST',
+      body: JSON.stringify({ translationId: TRANSLATION_ID }),
+    }),
+    { params: Promise.resolve({}) }
+  );
+}
+
+describe('POST /api/translations/publish', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('SENDGRID_API_KEY', 'SG.key');
+    vi.mocked(auth).mockResolvedValue({ userId: 'user-1' } as never);
+    vi.mocked(dbService.userRoles.findByUserId).mockResolvedValue({
+      userId: 'user-1',
+      email: 'admin@example.com',
+      role: 'admin',
+      reviewLanguages: [],
+    } as unknown as UserRoleRecord);
+    vi.mocked(dbService.workspaces.list).mockResolvedValue([workspace]);
+    vi.mocked(dbService.translationTasks.findById).mockResolvedValue({
+      id: 'task-1',
+      templateName: 'Welcome',
+    } as TranslationTask);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('creates a SendGrid version and saves its id on the translation', async () => {
+    vi.mocked(dbService.templateTranslations.findById).mockResolvedValue(
+      storedTranslation()
+    );
+
+    const response = await publish();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      sendgridVersionId: 'version-new',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://sendgrid.test/v3/templates/d-template/versions',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      TRANSLATION_ID,
+      'version-new'
+    );
+    expect(dbService.auditEvents.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'translation.published',
+        payload: { sendgridVersionId: 'version-new' },
+      })
+    );
+  });
+
+  it('updates the version the translation was published to before', async () => {
+    vi.mocked(dbService.templateTranslations.findById).mockResolvedValue(
+      storedTranslation({ sendgridVersionId: 'version-live' })
+    );
+
+    const response = await publish();
+
+    expect(await response.json()).toEqual({
+      success: true,
+      sendgridVersionId: 'version-live',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      TRANSLATION_ID,
+      'version-live'
+    );
+  });
+
+  it('recreates the version when SendGrid no longer has it', async () => {
+    vi.mocked(dbService.templateTranslations.findById).mockResolvedValue(
+      storedTranslation({ sendgridVersionId: 'version-deleted' })
+    );
+
+    const response = await publish();
+
+    expect(await response.json()).toEqual({
+      success: true,
+      sendgridVersionId: 'version-new',
+    });
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual([
+      'PATCH',
+      'POST',
+    ]);
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      TRANSLATION_ID,
+      'version-new'
+    );
+  });
+
+  it('refuses translations that have not completed', async () => {
+    vi.mocked(dbService.templateTranslations.findById).mockResolvedValue(
+      storedTranslation({ status: 'processing', translatedHtml: null })
+    );
+
+    const response = await publish();
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(dbService.templateTranslations.markPublished).not.toHaveBeenCalled();
+  });
+});
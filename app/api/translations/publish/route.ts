@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { forbiddenResponse, withRouteGuard } from '@/lib/auth/guard';
+import { canReviewLanguage } from '@/lib/constants/roles';
+import { dbService } from '@/lib/services/db-service';
+import { resolveSecret } from '@/lib/services/secrets';
+import { publishTranslation } from '@/lib/translation/publish';
+import { recordAuditEvent, translationTarget } from '@/lib/translation/audit';
+
+const publishSchema = z.object({
+  translationId: z.string().uuid(),
+});
+
+export const POST = withRouteGuard(
+  { permission: 'translations:publish' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const { translationId } = publishSchema.parse(body);
+
+      const translation =
+        await dbService.templateTranslations.findById(translationId);
+      if (
+        !translation ||
+        translation.deletedAt ||
+        translation.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json(
+          { error: 'Translation not found' },
+          { status: 404 }
+        );
+      }
+
+      const settings = await dbService.templateSettings.findByTemplateId(
+        workspace.id,
+        translation.templateId
+      );
+      if (
+        !canReviewLanguage(user, translation.languageCode, settings?.reviewers)
+      ) {
+        return forbiddenResponse(
+          'You are not assigned to review this language'
+        );
+      }
+
+      if (translation.status !== 'completed' || !translation.translatedHtml) {
+        return NextResponse.json(
+          { error: 'Only completed translations can be published' },
+          { status: 400 }
+        );
+      }
+
+      const apiKey = await resolveSecret(workspace, 'sendgrid');
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: 'This workspace has no SendGrid API key' },
+          { status: 400 }
+        );
+      }
+
+      const task = await dbService.translationTasks.findById(
+        translation.taskId
+      );
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Translation task not found' },
+          { status: 404 }
+        );
+      }
+
+      const version = await publishTranslation(
+        apiKey,
+        { ...translation, translatedHtml: translation.translatedHtml },
+        task.templateName
+      );
+
+      await recordAuditEvent(user, {
+        action: 'translation.published',
+        ...translationTarget(translation),
+        payload: { sendgridVersionId: version.id },
+      });
+
+      return NextResponse.json({
+        success: true,
+        sendgridVersionId: version.id,
+      });
+    } catch (error) {
+      console.error('Failed to publish translation:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to publish translation',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
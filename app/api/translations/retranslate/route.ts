@@ -1,90 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
 import { dbService } from '@/lib/services/db-service';
 import { inngest } from '@/inngest/client';
+import {
+  recordAuditEvent,
+  translationTarget,
+} from '@/lib/translation/audit';
+import { formatBudgetExceeded, getBudgetStatus } from '@/lib/translation/usage';
 
 const retranslateSchema = z.object({
   translationId: z.string().uuid(),
   reason: z.string().min(5).max(500),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { translationId, reason } = retranslateSchema.parse(body);
+export const POST = withRouteGuard(
+  { permission: 'translations:create' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const { translationId, reason } = retranslateSchema.parse(body);
 
-    const existing = await dbService.templateTranslations.findById(translationId);
-    if (!existing) {
-      return NextResponse.json(
-        { error: 'Translation not found' },
-        { status: 404 }
-      );
-    }
+      const existing = await dbService.templateTranslations.findById(translationId);
+      if (
+        !existing ||
+        existing.deletedAt ||
+        existing.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json(
+          { error: 'Translation not found' },
+          { status: 404 }
+        );
+      }
 
-    if (['queued', 'processing', 'pending'].includes(existing.status)) {
-      return NextResponse.json(
-        { error: 'Translation is still processing' },
-        { status: 400 }
-      );
-    }
+      if (['queued', 'processing', 'pending'].includes(existing.status)) {
+        return NextResponse.json(
+          { error: 'Translation is still processing' },
+          { status: 400 }
+        );
+      }
 
-    const result = await dbService.templateTranslations.requestRetranslate(
-      translationId,
-      reason
-    );
+      const budget = await getBudgetStatus(workspace.id);
+      if (budget.exceeded) {
+        return NextResponse.json(
+          { error: formatBudgetExceeded(budget) },
+          { status: 402 }
+        );
+      }
 
-    if (!result) {
-      return NextResponse.json(
-        { error: 'Unable to request retranslation' },
-        { status: 500 }
+      const result = await dbService.templateTranslations.requestRetranslate(
+        translationId,
+        reason
       );
-    }
 
-    const { newTranslation } = result;
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Unable to request retranslation' },
+          { status: 500 }
+        );
+      }
 
-    const task = await dbService.translationTasks.findById(newTranslation.taskId);
+      const { newTranslation } = result;
 
-    if (!task) {
-      return NextResponse.json(
-        { error: 'Translation task not found' },
-        { status: 404 }
+      await recordAuditEvent(user, {
+        action: 'translation.retranslate_requested',
+        ...translationTarget(newTranslation),
+        payload: { reason, previousTranslationId: existing.id },
+      });
+
+      const task = await dbService.translationTasks.findById(newTranslation.taskId);
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Translation task not found' },
+          { status: 404 }
+        );
+      }
+
+      await dbService.translationTasks.updateStatus(
+        newTranslation.taskId,
+        'queued'
       );
-    }
 
-    await dbService.translationTasks.updateStatus(
-      newTranslation.taskId,
-      'queued'
-    );
-
-    await inngest.send({
-      name: 'translation/retranslate-language',
-      data: {
-        translationId: newTranslation.id,
-        taskId: newTranslation.taskId,
-        templateId: newTranslation.templateId,
-        templateVersionId: newTranslation.templateVersionId,
-        languageCode: newTranslation.languageCode,
-        reason,
-        htmlContent: newTranslation.originalHtml,
-        subject: newTranslation.originalSubject ?? '',
-        totalLanguages: task.totalLanguages,
-      },
-    });
-
-    return NextResponse.json({ success: true, translationId: newTranslation.id });
-  } catch (error) {
-    console.error('Failed to request retranslation:', error);
-
-    if (error instanceof z.ZodError) {
+      await inngest.send({
+        name: 'translation/retranslate-language',
+        data: {
+          translationId: newTranslation.id,
+          taskId: newTranslation.taskId,
+          templateId: newTranslation.templateId,
+          templateVersionId: newTranslation.templateVersionId,
+          languageCode: newTranslation.languageCode,
+          reason,
+          htmlContent: newTranslation.originalHtml,
+          subject: newTranslation.originalSubject ?? '',
+          plainContent: newTranslation.originalPlainContent ?? undefined,
+          totalLanguages: task.totalLanguages,
+        },
+      });
+
+      return NextResponse.json({ success: true, translationId: newTranslation.id });
+    } catch (error) {
+      console.error('Failed to request retranslation:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
-        { error: 'Invalid request data', details: error.issues },
-        { status: 400 }
+        { error: 'Failed to request retranslation' },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: 'Failed to request retranslation' },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (_request, { workspace }) => {
+    try {
+      const translations =
+        await dbService.templateTranslations.findLatestSourceHashes(
+          workspace.id
+        );
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            translations,
+          },
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch translation source hashes:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch translation source hashes' },
+        { status: 500 }
+      );
+    }
+  }
+);
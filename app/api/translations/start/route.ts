@@ -1,92 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { auth } from '@clerk/nextjs/server';
-import { inngest } from '@/inngest/client';
-import { dbService } from '@/lib/services/db-service';
-import type { LanguageCode } from '@/lib/constants/languages';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
+import { TRANSLATION_PROVIDER_IDS } from '@/lib/constants/translation-engines';
+import { parseTestData } from '@/lib/translation/test-data';
+import {
+  findUnsupportedLanguages,
+  queueTranslationTask,
+} from '@/lib/translation/queue';
+import {
+  formatBudgetExceeded,
+  getBudgetStatus,
+} from '@/lib/translation/usage';
 
-const startTranslationSchema = z.object({
-  templateId: z.string(),
-  templateName: z.string(),
-  templateVersionId: z.string(),
-  htmlContent: z.string(),
-  subject: z.string(),
-  targetLanguages: z.array(z.string()),
-});
+const startTranslationSchema = z
+  .object({
+    templateId: z.string(),
+    templateName: z.string(),
+    templateVersionId: z.string(),
+    htmlContent: z.string(),
+    subject: z.string(),
+    plainContent: z.string().optional(),
+    generatePlainContent: z.boolean().optional(),
+    testData: z.string().optional(),
+    translateTestData: z.boolean().optional(),
+    sourceLanguage: z.string().default(DEFAULT_SOURCE_LANGUAGE),
+    targetLanguages: z.array(z.string()),
+    provider: z.enum(TRANSLATION_PROVIDER_IDS).optional(),
+    model: z.string().min(1).optional(),
+  })
+  .refine((data) => !data.targetLanguages.includes(data.sourceLanguage), {
+    message: 'Target languages must not include the source language',
+    path: ['targetLanguages'],
+  });
 
-export async function POST(request: NextRequest) {
-  const { userId } = await auth();
+export const POST = withRouteGuard(
+  { permission: 'translations:create' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const validatedData = startTranslationSchema.parse(body);
 
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-  let taskId: string | null = null;
-  try {
-    const body = await request.json();
-    const validatedData = startTranslationSchema.parse(body);
-
-    console.log(
-      `Starting translation for template ${validatedData.templateId}`
-    );
+      const unsupported = await findUnsupportedLanguages([
+        validatedData.sourceLanguage,
+        ...validatedData.targetLanguages,
+      ]);
 
-    const task = await dbService.translationTasks.create({
-      templateId: validatedData.templateId,
-      templateName: validatedData.templateName,
-      templateVersionId: validatedData.templateVersionId,
-      sourceLanguage: 'en',
-      targetLanguages: validatedData.targetLanguages as LanguageCode[],
-      status: 'queued',
-      totalLanguages: validatedData.targetLanguages.length,
-      completedLanguages: 0,
-      failedLanguages: 0,
-    });
+      if (unsupported.length > 0) {
+        return NextResponse.json(
+          { error: `Unsupported language: ${unsupported.join(', ')}` },
+          { status: 400 }
+        );
+      }
 
-    taskId = task.id;
+      const budget = await getBudgetStatus(workspace.id);
+      if (budget.exceeded) {
+        return NextResponse.json(
+          { error: formatBudgetExceeded(budget) },
+          { status: 402 }
+        );
+      }
 
-    // Fan out per-language translation jobs directly; leave task queued until a worker starts
-    await Promise.all(
-      validatedData.targetLanguages.map((languageCode) =>
-        inngest.send({
-          name: 'translation/translate-language',
-          data: {
-            taskId: task.id,
-            templateId: validatedData.templateId,
-            templateVersionId: validatedData.templateVersionId,
-            languageCode: languageCode as LanguageCode,
-            htmlContent: validatedData.htmlContent,
-            subject: validatedData.subject,
-            totalLanguages: validatedData.targetLanguages.length,
-          },
-        })
-      )
-    );
+      const testData = validatedData.translateTestData
+        ? parseTestData(validatedData.testData)
+        : null;
 
-    return NextResponse.json({
-      success: true,
-      message: 'Translation job queued successfully',
-      taskId: task.id,
-    });
-  } catch (error) {
-    console.error('Failed to start translation:', error);
+      if (validatedData.translateTestData && !testData) {
+        return NextResponse.json(
+          { error: 'Test data must be a JSON object to be translated' },
+          { status: 400 }
+        );
+      }
 
-    if (taskId) {
-      await dbService.translationTasks.updateStatus(
-        taskId,
-        'failed',
-        'Failed to enqueue translation job'
+      console.log(
+        `Starting translation for template ${validatedData.templateId}`
       );
-    }
 
-    if (error instanceof z.ZodError) {
+      const task = await queueTranslationTask({
+        ...validatedData,
+        workspaceId: workspace.id,
+        testData,
+        actor: user,
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Translation job queued successfully',
+        taskId: task.id,
+      });
+    } catch (error) {
+      console.error('Failed to start translation:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
-        { error: 'Invalid request data', details: error.issues },
-        { status: 400 }
+        { error: 'Failed to start translation job' },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: 'Failed to start translation job' },
-      { status: 500 }
-    );
   }
-}
+);
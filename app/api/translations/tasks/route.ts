@@ -1,40 +1,57 @@
 import { NextResponse } from 'next/server';
+import { withRouteGuard } from '@/lib/auth/guard';
 import { dbService } from '@/lib/services/db-service';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET() {
-  try {
-    const tasks = await dbService.translationTasks.getRecent(25);
-    const taskIds = tasks.map((task) => task.id);
-    const translationsByTask = await dbService.templateTranslations.findByTaskIds(
-      taskIds
-    );
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (_request, { workspace }) => {
+    try {
+      const [tasks, batches] = await Promise.all([
+        dbService.translationTasks.getRecent(workspace.id, 25, {
+          excludeBatched: true,
+        }),
+        dbService.translationBatches.getRecent(workspace.id, 10),
+      ]);
+      const tasksByBatch = await dbService.translationTasks.findByBatchIds(
+        batches.map((batch) => batch.id)
+      );
+      const taskIds = tasks.map((task) => task.id);
+      const translationsByTask =
+        await dbService.templateTranslations.findByTaskIds(taskIds);
 
-    const summaries = tasks.map((task) => ({
-      task,
-      translations: translationsByTask[task.id] ?? [],
-    }));
+      const summaries = tasks.map((task) => ({
+        task,
+        translations: translationsByTask[task.id] ?? [],
+      }));
 
-    return NextResponse.json(
-      {
-        success: true,
-        data: {
-          summaries,
-        },
-      },
-      {
-        headers: {
-          'Cache-Control': 'no-store',
+      const batchSummaries = batches.map((batch) => ({
+        batch,
+        tasks: tasksByBatch[batch.id] ?? [],
+      }));
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            summaries,
+            batches: batchSummaries,
+          },
         },
-      }
-    );
-  } catch (error) {
-    console.error('Failed to fetch translation tasks:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch translation tasks' },
-      { status: 500 }
-    );
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch translation tasks:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch translation tasks' },
+        { status: 500 }
+      );
+    }
   }
-}
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { diffTranslations } from '@/lib/translation/diff';
+
+interface RouteParams {
+  params: Promise<{
+    translationId: string;
+  }>;
+}
+
+const diffQuerySchema = z.object({
+  base: z.string().uuid(),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Compares the translation in the path against the `base` version
+export const GET = withRouteGuard<RouteParams>(
+  { permission: 'translations:view' },
+  async (request: NextRequest, { params, workspace }) => {
+    try {
+      const { translationId } = await params;
+      const { base: baseId } = diffQuerySchema.parse({
+        base: request.nextUrl.searchParams.get('base'),
+      });
+
+      const [compare, base] = await Promise.all([
+        dbService.templateTranslations.findById(translationId),
+        dbService.templateTranslations.findById(baseId),
+      ]);
+
+      if (
+        !compare ||
+        compare.deletedAt ||
+        compare.workspaceId !== workspace.id ||
+        !base ||
+        base.deletedAt ||
+        base.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json(
+          { error: 'Translation not found' },
+          { status: 404 }
+        );
+      }
+
+      if (
+        base.templateId !== compare.templateId ||
+        base.languageCode !== compare.languageCode
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              'Only versions of the same template and language can be compared',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!base.translatedHtml || !compare.translatedHtml) {
+        return NextResponse.json(
+          { error: 'Both versions need translated content to be compared' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { diff: diffTranslations(base, compare) },
+      });
+    } catch (error) {
+      console.error('Failed to compare translations:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to compare translations' },
+        { status: 500 }
+      );
+    }
+  }
+);
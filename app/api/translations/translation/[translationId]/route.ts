@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { forbiddenResponse, withRouteGuard } from '@/lib/auth/guard';
+import { canReviewLanguage } from '@/lib/constants/roles';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
 import { dbService } from '@/lib/services/db-service';
+import { ingestTranslationHistory } from '@/lib/translation/memory';
+import {
+  recordAuditEvent,
+  translationTarget,
+} from '@/lib/translation/audit';
 
 interface RouteParams {
   params: Promise<{
@@ -12,62 +20,105 @@ const patchSchema = z.object({
   action: z.literal('verify'),
 });
 
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
-  try {
-    const { translationId } = await params;
-    const body = await request.json();
-    const { action } = patchSchema.parse(body);
+export const PATCH = withRouteGuard<RouteParams>(
+  { permission: 'translations:review' },
+  async (request: NextRequest, { params, user, workspace }) => {
+    try {
+      const { translationId } = await params;
+      const body = await request.json();
+      const { action } = patchSchema.parse(body);
 
-    const translation = await dbService.templateTranslations.findById(translationId);
-    if (!translation || translation.deletedAt) {
-      return NextResponse.json({ error: 'Translation not found' }, { status: 404 });
-    }
+      const translation = await dbService.templateTranslations.findById(translationId);
+      if (
+        !translation ||
+        translation.deletedAt ||
+        translation.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json({ error: 'Translation not found' }, { status: 404 });
+      }
+
+      if (action === 'verify') {
+        if (translation.status !== 'completed') {
+          return NextResponse.json(
+            { error: 'Only completed translations can be verified' },
+            { status: 400 }
+          );
+        }
 
-    if (action === 'verify') {
-      if (translation.status !== 'completed') {
+        const settings = await dbService.templateSettings.findByTemplateId(
+          workspace.id,
+          translation.templateId
+        );
+        if (!canReviewLanguage(user, translation.languageCode, settings?.reviewers)) {
+          return forbiddenResponse('You are not assigned to review this language');
+        }
+
+        await dbService.templateTranslations.markVerified(
+          translationId,
+          user.userId
+        );
+        await recordAuditEvent(user, {
+          action: 'translation.verified',
+          ...translationTarget(translation),
+          payload: { version: translation.version },
+        });
+
+        // Verified wording takes precedence over whatever the memory held before
+        const task = await dbService.translationTasks.findById(translation.taskId);
+        await ingestTranslationHistory(
+          translation,
+          task?.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE,
+          { verified: true, overwrite: true }
+        );
+        return NextResponse.json({ success: true });
+      }
+
+      return NextResponse.json({ error: 'Unsupported action' }, { status: 400 });
+    } catch (error) {
+      console.error('Failed to update translation:', error);
+      if (error instanceof z.ZodError) {
         return NextResponse.json(
-          { error: 'Only completed translations can be verified' },
+          { error: 'Invalid request data', details: error.issues },
           { status: 400 }
         );
       }
 
-      await dbService.templateTranslations.markVerified(translationId);
-      return NextResponse.json({ success: true });
-    }
-
-    return NextResponse.json({ error: 'Unsupported action' }, { status: 400 });
-  } catch (error) {
-    console.error('Failed to update translation:', error);
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: 'Invalid request data', details: error.issues },
-        { status: 400 }
+        { error: 'Failed to update translation' },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: 'Failed to update translation' },
-      { status: 500 }
-    );
   }
-}
+);
 
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
-  try {
-    const { translationId } = await params;
-    const translation = await dbService.templateTranslations.findById(translationId);
+export const DELETE = withRouteGuard<RouteParams>(
+  { permission: 'translations:delete' },
+  async (_request: NextRequest, { params, user, workspace }) => {
+    try {
+      const { translationId } = await params;
+      const translation = await dbService.templateTranslations.findById(translationId);
 
-    if (!translation || translation.deletedAt) {
-      return NextResponse.json({ error: 'Translation not found' }, { status: 404 });
-    }
+      if (
+        !translation ||
+        translation.deletedAt ||
+        translation.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json({ error: 'Translation not found' }, { status: 404 });
+      }
 
-    await dbService.templateTranslations.softDelete(translationId);
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Failed to delete translation:', error);
-    return NextResponse.json(
-      { error: 'Failed to delete translation' },
-      { status: 500 }
-    );
+      await dbService.templateTranslations.softDelete(translationId);
+      await recordAuditEvent(user, {
+        action: 'translation.deleted',
+        ...translationTarget(translation),
+        payload: { version: translation.version },
+      });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete translation:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete translation' },
+        { status: 500 }
+      );
+    }
   }
-}
+);
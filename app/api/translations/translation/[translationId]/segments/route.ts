@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import type { Workspace } from '@/lib/db/schema';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
+import { checkGlossaryCompliance } from '@/lib/translation/glossary';
+import { storeMemory } from '@/lib/translation/memory';
+import { recordAuditEvent, translationTarget } from '@/lib/translation/audit';
+import {
+  summarizePlaceholderIssues,
+  validatePlaceholders,
+} from '@/lib/translation/placeholder-validator';
+import {
+  applySegmentEdits,
+  buildReviewSegments,
+  segmentEditsSchema,
+} from '@/lib/translation/review';
+
+interface RouteParams {
+  params: Promise<{
+    translationId: string;
+  }>;
+}
+
+const STRUCTURE_MISMATCH_ERROR =
+  'This version can no longer be edited segment by segment; request a retranslation instead';
+
+async function findReviewableTranslation(
+  workspace: Workspace,
+  translationId: string
+) {
+  const translation =
+    await dbService.templateTranslations.findById(translationId);
+
+  if (
+    !translation ||
+    translation.deletedAt ||
+    translation.workspaceId !== workspace.id
+  ) {
+    return {
+      error: NextResponse.json(
+        { error: 'Translation not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (translation.status !== 'completed' || !translation.translatedHtml) {
+    return {
+      error: NextResponse.json(
+        { error: 'Only completed translations can be reviewed' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { translation };
+}
+
+export const GET = withRouteGuard<RouteParams>(
+  { permission: 'translations:view' },
+  async (_request: NextRequest, { params, workspace }) => {
+    try {
+      const { translationId } = await params;
+      const { translation, error } = await findReviewableTranslation(
+        workspace,
+        translationId
+      );
+      if (error) {
+        return error;
+      }
+
+      const segments = buildReviewSegments(translation);
+      if (!segments) {
+        return NextResponse.json(
+          { error: STRUCTURE_MISMATCH_ERROR },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: { segments } });
+    } catch (error) {
+      console.error('Failed to load review segments:', error);
+      return NextResponse.json(
+        { error: 'Failed to load review segments' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Saves reviewer edits as a new, human-edited version of the translation
+export const POST = withRouteGuard<RouteParams>(
+  { permission: 'translations:edit' },
+  async (request: NextRequest, { params, user, workspace }) => {
+    try {
+      const { translationId } = await params;
+      const body = await request.json();
+      const data = segmentEditsSchema.parse(body);
+
+      const { translation, error } = await findReviewableTranslation(
+        workspace,
+        translationId
+      );
+      if (error) {
+        return error;
+      }
+
+      const segments = buildReviewSegments(translation);
+      if (!segments) {
+        return NextResponse.json(
+          { error: STRUCTURE_MISMATCH_ERROR },
+          { status: 409 }
+        );
+      }
+
+      const segmentsById = new Map(
+        segments.map((segment) => [segment.id, segment])
+      );
+      const unknown = data.segments.filter(
+        (segment) => !segmentsById.has(segment.id)
+      );
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Unknown segment: ${unknown
+              .map((segment) => segment.id)
+              .join(', ')}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const edits = new Map(
+        data.segments
+          .filter(
+            (segment) => segmentsById.get(segment.id)!.target !== segment.text
+          )
+          .map((segment) => [segment.id, segment.text])
+      );
+      if (edits.size === 0) {
+        return NextResponse.json(
+          { error: 'No segments were changed' },
+          { status: 400 }
+        );
+      }
+
+      const edited = applySegmentEdits(translation, edits)!;
+
+      const validation = validatePlaceholders({
+        originalHtml: translation.originalHtml,
+        translatedHtml: edited.translatedHtml,
+        originalSubject: translation.originalSubject,
+        translatedSubject: edited.translatedSubject,
+        originalPlainContent: translation.originalPlainContent,
+        translatedPlainContent: edited.translatedPlainContent,
+      });
+
+      // Hand edits must not break placeholders the machine output kept intact
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            error: summarizePlaceholderIssues(validation.issues),
+            details: validation.issues,
+          },
+          { status: 400 }
+        );
+      }
+
+      const glossaryIssues = checkGlossaryCompliance({
+        terms: await dbService.glossaryTerms.list(workspace.id),
+        languageCode: translation.languageCode,
+        originalHtml: translation.originalHtml,
+        translatedHtml: edited.translatedHtml,
+        originalSubject: translation.originalSubject,
+        translatedSubject: edited.translatedSubject,
+        originalPlainContent: translation.originalPlainContent,
+        translatedPlainContent: edited.translatedPlainContent,
+      });
+
+      const newTranslation =
+        await dbService.templateTranslations.createEditedVersion(translation, {
+          ...edited,
+          glossaryIssues: glossaryIssues.length > 0 ? glossaryIssues : null,
+          editedBy: user.userId,
+        });
+      await dbService.translationTasks.syncCounts(translation.taskId);
+
+      await recordAuditEvent(user, {
+        action: 'translation.edited',
+        ...translationTarget(newTranslation),
+        payload: {
+          previousTranslationId: translation.id,
+          changes: Array.from(edits.entries()).map(([id, text]) => ({
+            id,
+            field: segmentsById.get(id)!.field,
+            before: segmentsById.get(id)!.target,
+            after: text,
+          })),
+        },
+      });
+
+      // Reviewer wording replaces what the memory suggested for these segments
+      const task = await dbService.translationTasks.findById(
+        translation.taskId
+      );
+      await storeMemory({
+        workspaceId: workspace.id,
+        sourceLanguage: task?.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE,
+        languageCode: translation.languageCode,
+        pairs: Array.from(edits.entries()).map(([id, text]) => ({
+          source: segmentsById.get(id)!.source,
+          target: text,
+        })),
+        templateId: translation.templateId,
+        translationId: newTranslation.id,
+        overwrite: true,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { translation: newTranslation },
+      });
+    } catch (error) {
+      console.error('Failed to save translation edits:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to save translation edits' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { inngest } from '@/inngest/client';
+import { dbService } from '@/lib/services/db-service';
+import { sendgridService } from '@/lib/services/sendgrid-service';
+import { resolveSecret } from '@/lib/services/secrets';
+import { hashSendGridVersion } from '@/lib/translation/source-hash';
+import { recordAuditEvent, translationTarget } from '@/lib/translation/audit';
+import { formatBudgetExceeded, getBudgetStatus } from '@/lib/translation/usage';
+
+const updateSourceSchema = z.object({
+  translationId: z.string().uuid(),
+});
+
+// Retranslates an outdated translation from the live SendGrid copy
+export const POST = withRouteGuard(
+  { permission: 'translations:create' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const { translationId } = updateSourceSchema.parse(body);
+
+      const existing =
+        await dbService.templateTranslations.findById(translationId);
+      if (
+        !existing ||
+        existing.deletedAt ||
+        existing.workspaceId !== workspace.id
+      ) {
+        return NextResponse.json(
+          { error: 'Translation not found' },
+          { status: 404 }
+        );
+      }
+
+      if (['queued', 'processing', 'pending'].includes(existing.status)) {
+        return NextResponse.json(
+          { error: 'Translation is still processing' },
+          { status: 400 }
+        );
+      }
+
+      const budget = await getBudgetStatus(workspace.id);
+      if (budget.exceeded) {
+        return NextResponse.json(
+          { error: formatBudgetExceeded(budget) },
+          { status: 402 }
+        );
+      }
+
+      const apiKey = await resolveSecret(workspace, 'sendgrid');
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: 'This workspace has no SendGrid API key' },
+          { status: 400 }
+        );
+      }
+
+      const task = await dbService.translationTasks.findById(existing.taskId);
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Translation task not found' },
+          { status: 404 }
+        );
+      }
+
+      const liveVersion = await sendgridService.getTemplateVersion(
+        apiKey,
+        existing.templateId,
+        existing.templateVersionId
+      );
+      if (!liveVersion) {
+        return NextResponse.json(
+          { error: 'The SendGrid version no longer exists' },
+          { status: 404 }
+        );
+      }
+
+      const sourceHash = hashSendGridVersion(liveVersion);
+      if (sourceHash === existing.sourceHash) {
+        return NextResponse.json(
+          { error: 'Translation is already up to date' },
+          { status: 409 }
+        );
+      }
+
+      const plainContent =
+        liveVersion.generate_plain_content === false &&
+        liveVersion.plain_content?.trim()
+          ? liveVersion.plain_content
+          : null;
+
+      const result = await dbService.templateTranslations.requestRetranslate(
+        translationId,
+        null,
+        {
+          originalHtml: liveVersion.html_content,
+          originalSubject: liveVersion.subject,
+          originalPlainContent: plainContent,
+          sourceHash,
+        }
+      );
+
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Unable to update translation' },
+          { status: 500 }
+        );
+      }
+
+      const { newTranslation } = result;
+
+      await recordAuditEvent(user, {
+        action: 'translation.source_updated',
+        ...translationTarget(newTranslation),
+        payload: {
+          previousTranslationId: existing.id,
+          previousSourceHash: existing.sourceHash,
+          sourceHash,
+        },
+      });
+
+      await dbService.translationTasks.updateStatus(task.id, 'queued');
+
+      await inngest.send({
+        name: 'translation/retranslate-language',
+        data: {
+          translationId: newTranslation.id,
+          taskId: newTranslation.taskId,
+          templateId: newTranslation.templateId,
+          templateVersionId: newTranslation.templateVersionId,
+          languageCode: newTranslation.languageCode,
+          htmlContent: newTranslation.originalHtml,
+          subject: newTranslation.originalSubject ?? '',
+          plainContent: newTranslation.originalPlainContent ?? undefined,
+          totalLanguages: task.totalLanguages,
+          // Only segments whose source changed are sent to the model
+          baseTranslationId: existing.id,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        translationId: newTranslation.id,
+      });
+    } catch (error) {
+      console.error('Failed to update translation source:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update translation' },
+        { status: 500 }
+      );
+    }
+  }
+);
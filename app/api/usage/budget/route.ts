@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { getBudgetStatus } from '@/lib/translation/usage';
+
+const budgetSchema = z.object({
+  // USD per calendar month; null removes the limit
+  monthlyLimit: z.number().nonnegative().max(1_000_000).nullable(),
+});
+
+export const PUT = withRouteGuard(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { user, workspace }) => {
+    try {
+      const body = await request.json();
+      const { monthlyLimit } = budgetSchema.parse(body);
+
+      await dbService.translationBudget.setMonthlyLimit(
+        workspace.id,
+        monthlyLimit,
+        user.userId
+      );
+      const budget = await getBudgetStatus(workspace.id);
+
+      return NextResponse.json({ success: true, data: { budget } });
+    } catch (error) {
+      console.error('Failed to update translation budget:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update translation budget' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { getBudgetStatus, getMonthRange } from '@/lib/translation/usage';
+import type { UsageReport } from '@/lib/types/translation';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Months shown in the monthly breakdown, the current one included
+const MONTHLY_HISTORY = 12;
+
+export const GET = withRouteGuard(
+  { permission: 'translations:view' },
+  async (request: NextRequest, { workspace }) => {
+    try {
+      // YYYY-MM; defaults to the current month
+      const monthParam = request.nextUrl.searchParams.get('month');
+      if (monthParam && !/^\d{4}-(0[1-9]|1[0-2])$/.test(monthParam)) {
+        return NextResponse.json(
+          { error: 'Month must be formatted as YYYY-MM' },
+          { status: 400 }
+        );
+      }
+
+      const { from, to } = getMonthRange(
+        monthParam ? new Date(`${monthParam}-01T00:00:00Z`) : new Date()
+      );
+      const current = getMonthRange();
+      const historyStart = new Date(current.from);
+      historyStart.setUTCMonth(
+        historyStart.getUTCMonth() - MONTHLY_HISTORY + 1
+      );
+
+      const [byTemplate, byLanguage, byMonth, budget] = await Promise.all([
+        dbService.usage.totalsByTemplate(workspace.id, from, to),
+        dbService.usage.totalsByLanguage(workspace.id, from, to),
+        dbService.usage.totalsByMonth(workspace.id, historyStart, current.to),
+        getBudgetStatus(workspace.id),
+      ]);
+
+      const report: UsageReport = {
+        month: from.toISOString().slice(0, 10),
+        byTemplate,
+        byLanguage,
+        byMonth,
+        budget,
+      };
+
+      return NextResponse.json(
+        { success: true, data: { report } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch usage:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch usage' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { dbService } from '@/lib/services/db-service';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { findUnsupportedLanguages } from '@/lib/translation/queue';
+import { USER_ROLES } from '@/lib/constants/roles';
+
+interface RouteParams {
+  params: Promise<{
+    userId: string;
+  }>;
+}
+
+const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES),
+  reviewLanguages: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const PATCH = withUserRouteGuard<RouteParams>(
+  { permission: 'users:manage' },
+  async (request: NextRequest, { params, user }) => {
+    try {
+      const { userId: targetUserId } = await params;
+      const body = await request.json();
+      const data = updateUserSchema.parse(body);
+
+      const existing = await dbService.userRoles.findByUserId(targetUserId);
+      if (!existing) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+
+      if (
+        existing.role === 'admin' &&
+        data.role !== 'admin' &&
+        (await dbService.userRoles.countAdmins()) <= 1
+      ) {
+        return NextResponse.json(
+          { error: 'At least one admin is required' },
+          { status: 409 }
+        );
+      }
+
+      const reviewLanguages = Array.from(new Set(data.reviewLanguages));
+      const unsupported = await findUnsupportedLanguages(reviewLanguages);
+      if (unsupported.length > 0) {
+        return NextResponse.json(
+          { error: `Unsupported language: ${unsupported.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const updated = await dbService.userRoles.update(targetUserId, {
+        role: data.role,
+        // Language assignments only restrict reviewers
+        reviewLanguages: data.role === 'reviewer' ? reviewLanguages : [],
+        updatedBy: user.userId,
+      });
+
+      return NextResponse.json({ success: true, data: { user: updated } });
+    } catch (error) {
+      console.error('Failed to update user role:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update user role' },
+        { status: 500 }
+      );
+    }
+  }
+);
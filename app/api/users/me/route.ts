@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { ROLE_PERMISSIONS } from '@/lib/constants/roles';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Any signed-in user may read their own role
+export const GET = withUserRouteGuard({}, async (_request, { user }) => {
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        access: user,
+        permissions: ROLE_PERMISSIONS[user.role],
+      },
+    },
+    {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    }
+  );
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withUserRouteGuard(
+  { permission: 'users:manage' },
+  async () => {
+    try {
+      // Users appear here after their first signed-in request
+      const users = await dbService.userRoles.list();
+
+      return NextResponse.json(
+        { success: true, data: { users } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch users' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+
+interface RouteParams {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const updateMemberSchema = z.object({
+  userId: z.string().trim().min(1),
+  member: z.boolean(),
+});
+
+export const GET = withUserRouteGuard<RouteParams>(
+  { permission: 'users:manage' },
+  async (_request: NextRequest, { params }) => {
+    try {
+      const { workspaceId } = await params;
+      const userIds = await dbService.workspaces.listMemberIds(workspaceId);
+
+      return NextResponse.json(
+        { success: true, data: { userIds } },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch workspace members:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch workspace members' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Adds or removes one person; admins reach every workspace regardless
+export const PUT = withUserRouteGuard<RouteParams>(
+  { permission: 'users:manage' },
+  async (request: NextRequest, { params }) => {
+    try {
+      const { workspaceId } = await params;
+      const body = await request.json();
+      const { userId, member } = updateMemberSchema.parse(body);
+
+      const [workspace, target] = await Promise.all([
+        dbService.workspaces.findById(workspaceId),
+        dbService.userRoles.findByUserId(userId),
+      ]);
+      if (!workspace || !target) {
+        return NextResponse.json(
+          { error: workspace ? 'User not found' : 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      if (member) {
+        await dbService.workspaces.addMember(workspaceId, userId);
+      } else {
+        await dbService.workspaces.removeMember(workspaceId, userId);
+      }
+
+      const userIds = await dbService.workspaces.listMemberIds(workspaceId);
+      return NextResponse.json({ success: true, data: { userIds } });
+    } catch (error) {
+      console.error('Failed to update workspace members:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update workspace members' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { toWorkspaceSummaries } from '@/lib/auth/workspace';
+import { dbService } from '@/lib/services/db-service';
+
+interface RouteParams {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const PATCH = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { params }) => {
+    try {
+      const { workspaceId } = await params;
+      const body = await request.json();
+      const data = updateWorkspaceSchema.parse(body);
+
+      const existing = await dbService.workspaces.findById(workspaceId);
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      const workspace = await dbService.workspaces.update(workspaceId, {
+        name: data.name,
+      });
+      const [summary] = workspace
+        ? await toWorkspaceSummaries([workspace])
+        : [null];
+
+      return NextResponse.json({
+        success: true,
+        data: { workspace: summary },
+      });
+    } catch (error) {
+      console.error('Failed to update workspace:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to update workspace' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { describeSecrets, storeSecret } from '@/lib/services/secrets';
+import { isEncryptionConfigured } from '@/lib/security/encryption';
+import { isSecretKind } from '@/lib/constants/secrets';
+
+interface RouteParams {
+  params: Promise<{
+    workspaceId: string;
+    kind: string;
+  }>;
+}
+
+const storeSecretSchema = z.object({
+  value: z.string().trim().min(1).max(500),
+});
+
+// Adds the key, or rotates the stored one to a new value
+export const PUT = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { params, user }) => {
+    try {
+      const { workspaceId, kind } = await params;
+      const body = await request.json();
+      const { value } = storeSecretSchema.parse(body);
+
+      if (!isSecretKind(kind)) {
+        return NextResponse.json(
+          { error: 'Unknown API key type' },
+          { status: 404 }
+        );
+      }
+
+      const workspace = await dbService.workspaces.findById(workspaceId);
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!isEncryptionConfigured()) {
+        return NextResponse.json(
+          { error: 'SECRETS_ENCRYPTION_KEY must be set to store API keys' },
+          { status: 400 }
+        );
+      }
+
+      await storeSecret(workspace.id, kind, value, user.userId);
+      const secrets = (await describeSecrets([workspace])).get(workspace.id);
+
+      return NextResponse.json({
+        success: true,
+        data: { secrets: secrets ?? [] },
+      });
+    } catch (error) {
+      console.error('Failed to store API key:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to store API key' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Falls back to the environment key, if there is one for the workspace
+export const DELETE = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (_request: NextRequest, { params }) => {
+    try {
+      const { workspaceId, kind } = await params;
+
+      if (!isSecretKind(kind)) {
+        return NextResponse.json(
+          { error: 'Unknown API key type' },
+          { status: 404 }
+        );
+      }
+
+      const workspace = await dbService.workspaces.findById(workspaceId);
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      await dbService.secrets.delete(workspace.id, kind);
+      const secrets = (await describeSecrets([workspace])).get(workspace.id);
+
+      return NextResponse.json({
+        success: true,
+        data: { secrets: secrets ?? [] },
+      });
+    } catch (error) {
+      console.error('Failed to remove API key:', error);
+      return NextResponse.json(
+        { error: 'Failed to remove API key' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { resolveSecret, testSecret } from '@/lib/services/secrets';
+import { isSecretKind } from '@/lib/constants/secrets';
+
+interface RouteParams {
+  params: Promise<{
+    workspaceId: string;
+    kind: string;
+  }>;
+}
+
+const testSecretSchema = z.object({
+  // Checks a key before it is saved; omit to check the one in use
+  value: z.string().trim().min(1).max(500).optional(),
+});
+
+export const POST = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { params }) => {
+    try {
+      const { workspaceId, kind } = await params;
+      const body = await request.json().catch(() => ({}));
+      const data = testSecretSchema.parse(body);
+
+      if (!isSecretKind(kind)) {
+        return NextResponse.json(
+          { error: 'Unknown API key type' },
+          { status: 404 }
+        );
+      }
+
+      const workspace = await dbService.workspaces.findById(workspaceId);
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      const value = data.value ?? (await resolveSecret(workspace, kind));
+      if (!value) {
+        return NextResponse.json(
+          { error: 'This workspace has no key to test' },
+          { status: 400 }
+        );
+      }
+
+      const result = await testSecret(kind, value);
+
+      return NextResponse.json({
+        success: true,
+        data: { result },
+      });
+    } catch (error) {
+      console.error('Failed to test API key:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to test API key' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { describeSecrets } from '@/lib/services/secrets';
+import { isEncryptionConfigured } from '@/lib/security/encryption';
+
+interface RouteParams {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const GET = withUserRouteGuard<RouteParams>(
+  { permission: 'settings:manage' },
+  async (_request: NextRequest, { params }) => {
+    try {
+      const { workspaceId } = await params;
+      const workspace = await dbService.workspaces.findById(workspaceId);
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      const secrets = (await describeSecrets([workspace])).get(workspace.id);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            secrets: secrets ?? [],
+            encryptionConfigured: isEncryptionConfigured(),
+          },
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch API keys:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch API keys' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import {
+  listAccessibleWorkspaces,
+  toWorkspaceSummaries,
+} from '@/lib/auth/workspace';
+import { WORKSPACE_COOKIE } from '@/lib/constants/workspaces';
+
+const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().uuid(),
+});
+
+// Remembers the workspace every subsequent request is scoped to
+export const POST = withUserRouteGuard(
+  {},
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const { workspaceId } = switchWorkspaceSchema.parse(body);
+
+      const workspace = (await listAccessibleWorkspaces(user)).find(
+        (entry) => entry.id === workspaceId
+      );
+      if (!workspace) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        );
+      }
+
+      const [summary] = await toWorkspaceSummaries([workspace]);
+      const response = NextResponse.json({
+        success: true,
+        data: { workspace: summary },
+      });
+      response.cookies.set(WORKSPACE_COOKIE, workspace.id, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: 60 * 60 * 24 * 365,
+      });
+      return response;
+    } catch (error) {
+      console.error('Failed to switch workspace:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to switch workspace' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withUserRouteGuard } from '@/lib/auth/guard';
+import {
+  listAccessibleWorkspaces,
+  resolveActiveWorkspace,
+  toWorkspaceSummaries,
+} from '@/lib/auth/workspace';
+import { dbService } from '@/lib/services/db-service';
+import { storeSecret } from '@/lib/services/secrets';
+import { isEncryptionConfigured } from '@/lib/security/encryption';
+import { WORKSPACE_COOKIE } from '@/lib/constants/workspaces';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+      message: 'Use lowercase letters, numbers and dashes',
+    })
+    .max(60)
+    .optional(),
+  sendgridApiKey: z.string().trim().min(1).optional(),
+});
+
+function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+export const GET = withUserRouteGuard(
+  {},
+  async (request: NextRequest, { user }) => {
+    try {
+      const [workspaces, active] = await Promise.all([
+        listAccessibleWorkspaces(user),
+        resolveActiveWorkspace(
+          user,
+          request.cookies.get(WORKSPACE_COOKIE)?.value
+        ),
+      ]);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            workspaces: await toWorkspaceSummaries(workspaces),
+            activeWorkspaceId: active?.id ?? null,
+          },
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to fetch workspaces:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch workspaces' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withUserRouteGuard(
+  { permission: 'settings:manage' },
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const data = createWorkspaceSchema.parse(body);
+
+      const slug = data.slug || slugify(data.name);
+      if (!slug) {
+        return NextResponse.json(
+          { error: 'Workspace name needs at least one letter or number' },
+          { status: 400 }
+        );
+      }
+
+      if (await dbService.workspaces.findBySlug(slug)) {
+        return NextResponse.json(
+          { error: `A workspace named "${slug}" already exists` },
+          { status: 409 }
+        );
+      }
+
+      if (data.sendgridApiKey && !isEncryptionConfigured()) {
+        return NextResponse.json(
+          { error: 'SECRETS_ENCRYPTION_KEY must be set to store API keys' },
+          { status: 400 }
+        );
+      }
+
+      const workspace = await dbService.workspaces.create({
+        name: data.name,
+        slug,
+        createdBy: user.userId,
+      });
+      // The HTTP driver has no transactions, so undo the insert by hand rather
+      // than leave a workspace without its member or its SendGrid key
+      try {
+        await dbService.workspaces.addMember(workspace.id, user.userId);
+        if (data.sendgridApiKey) {
+          await storeSecret(
+            workspace.id,
+            'sendgrid',
+            data.sendgridApiKey,
+            user.userId
+          );
+        }
+      } catch (error) {
+        await dbService.workspaces.delete(workspace.id);
+        throw error;
+      }
+
+      const [summary] = await toWorkspaceSummaries([workspace]);
+      return NextResponse.json({
+        success: true,
+        data: { workspace: summary },
+      });
+    } catch (error) {
+      console.error('Failed to create workspace:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to create workspace' },
+        { status: 500 }
+      );
+    }
+  }
+);
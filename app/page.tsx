@@ -71,6 +71,9 @@ export default function SendGridTemplateManager() {
       });
       setIsConfigured(true);
     } catch (err) {
+      // Never leave another workspace's templates on screen
+      setTemplates([]);
+      setSelectedTemplate(null);
       setError(
         err instanceof Error ? err.message : 'Failed to fetch templates'
       );
@@ -185,7 +188,13 @@ export default function SendGridTemplateManager() {
   } as CSSProperties;
 
   return (
-    <TemplateManagerProvider value={{ selectedTemplate, setSelectedTemplate }}>
+    <TemplateManagerProvider
+      value={{
+        selectedTemplate,
+        setSelectedTemplate,
+        reloadTemplates: fetchTemplates,
+      }}
+    >
       <SidebarProvider style={sidebarStyles}>
         <AppSidebar templates={templates} />
         <SidebarInset>
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { KeyRound, PlugZap, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUserAccess } from '@/hooks/use-user-access';
+import { WORKSPACES_QUERY_KEY, useWorkspaces } from '@/hooks/use-workspaces';
+import { SECRET_KIND_LABELS, type SecretKind } from '@/lib/constants/secrets';
+import type { SecretStatus, SecretTestResult } from '@/lib/types/secret';
+
+interface SecretsResponse {
+  secrets: SecretStatus[];
+  encryptionConfigured: boolean;
+}
+
+function describeSecret(secret: SecretStatus) {
+  if (secret.source === 'workspace') {
+    return `Ending in ${secret.hint} · v${secret.version}`;
+  }
+  return secret.source === 'environment'
+    ? `From ${SECRET_KIND_LABELS[secret.kind].envVar}`
+    : 'Not set';
+}
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result?.error ?? 'Request failed');
+  }
+
+  return result.data;
+}
+
+export function ApiKeyManager() {
+  const [open, setOpen] = useState(false);
+  // Null follows the active workspace
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<SecretKind, string>>>({});
+  const queryClient = useQueryClient();
+  const { can } = useUserAccess();
+  const { workspaces, activeWorkspace } = useWorkspaces();
+  const canManage = can('settings:manage');
+
+  const selected =
+    workspaces.find((workspace) => workspace.id === selectedId) ??
+    activeWorkspace ??
+    workspaces[0] ??
+    null;
+
+  const secretsQueryKey = ['workspace-secrets', selected?.id];
+  const { data, isPending, isError, error } = useQuery({
+    queryKey: secretsQueryKey,
+    queryFn: async (): Promise<SecretsResponse> => {
+      const response = await fetch(`/api/workspaces/${selected!.id}/secrets`, {
+        cache: 'no-store',
+      });
+      if (!response.ok) throw new Error('Failed to fetch API keys');
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: open && Boolean(selected),
+  });
+
+  const onSecretsChanged = (secrets: SecretStatus[]) => {
+    queryClient.setQueryData<SecretsResponse>(secretsQueryKey, (previous) =>
+      previous ? { ...previous, secrets } : previous
+    );
+    queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['translation-engines'] });
+  };
+
+  const storeMutation = useMutation({
+    mutationFn: async (variables: { kind: SecretKind; value: string }) => {
+      const result = await sendJson(
+        `/api/workspaces/${selected!.id}/secrets/${variables.kind}`,
+        'PUT',
+        { value: variables.value }
+      );
+      return result.secrets as SecretStatus[];
+    },
+    onSuccess: (secrets, { kind }) => {
+      toast.success(`${SECRET_KIND_LABELS[kind].label} key saved`);
+      setDrafts((previous) => ({ ...previous, [kind]: '' }));
+      onSecretsChanged(secrets);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (kind: SecretKind) => {
+      const result = await sendJson(
+        `/api/workspaces/${selected!.id}/secrets/${kind}`,
+        'DELETE'
+      );
+      return result.secrets as SecretStatus[];
+    },
+    onSuccess: (secrets, kind) => {
+      toast.success(`${SECRET_KIND_LABELS[kind].label} key removed`);
+      onSecretsChanged(secrets);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (variables: { kind: SecretKind; value?: string }) => {
+      const result = await sendJson(
+        `/api/workspaces/${selected!.id}/secrets/${variables.kind}/test`,
+        'POST',
+        { value: variables.value }
+      );
+      return result.result as SecretTestResult;
+    },
+    onSuccess: (result) => {
+      if (result.ok) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const isBusy =
+    storeMutation.isPending ||
+    removeMutation.isPending ||
+    testMutation.isPending;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setSelectedId(null);
+          setDrafts({});
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <KeyRound className="mr-2 h-4 w-4" />
+          API keys
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>API keys</DialogTitle>
+          <DialogDescription>
+            Keys are encrypted before they are stored and are never shown again.
+            Saving over a stored key rotates it; translations and syncs pick up
+            the new key right away. Workspaces without a key of their own use
+            the environment key, where there is one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {selected && (
+          <div className="space-y-4">
+            <Select
+              value={selected.id}
+              onValueChange={(workspaceId) => {
+                setSelectedId(workspaceId);
+                setDrafts({});
+              }}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isPending && (
+              <p className="text-sm text-muted-foreground">Loading keys…</p>
+            )}
+            {isError && (
+              <p className="text-sm text-destructive">{error.message}</p>
+            )}
+            {data && !data.encryptionConfigured && (
+              <p className="text-sm text-destructive">
+                Set SECRETS_ENCRYPTION_KEY on the server before storing keys.
+              </p>
+            )}
+
+            {data?.secrets.map((secret) => {
+              const { label, placeholder } = SECRET_KIND_LABELS[secret.kind];
+              const draft = drafts[secret.kind]?.trim() ?? '';
+
+              return (
+                <div
+                  key={secret.kind}
+                  className="space-y-2 rounded-md border p-3"
+                >
+                  <Label className="flex items-center gap-2 text-xs">
+                    {label}
+                    <Badge
+                      variant={secret.source ? 'secondary' : 'destructive'}
+                      className="text-[10px]"
+                    >
+                      {describeSecret(secret)}
+                    </Badge>
+                    {secret.updatedAt && (
+                      <span className="font-normal text-muted-foreground">
+                        Updated {new Date(secret.updatedAt).toLocaleString()}
+                      </span>
+                    )}
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="password"
+                      value={drafts[secret.kind] ?? ''}
+                      onChange={(event) =>
+                        setDrafts((previous) => ({
+                          ...previous,
+                          [secret.kind]: event.target.value,
+                        }))
+                      }
+                      placeholder={
+                        secret.source === 'workspace'
+                          ? 'Paste a new key to rotate it'
+                          : placeholder
+                      }
+                      className="h-8 text-sm"
+                      autoComplete="off"
+                      disabled={isBusy || !data.encryptionConfigured}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        storeMutation.mutate({
+                          kind: secret.kind,
+                          value: draft,
+                        })
+                      }
+                      disabled={!draft || isBusy || !data.encryptionConfigured}
+                    >
+                      {secret.source === 'workspace' ? 'Rotate' : 'Save'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        testMutation.mutate({
+                          kind: secret.kind,
+                          value: draft || undefined,
+                        })
+                      }
+                      disabled={(!draft && !secret.source) || isBusy}
+                    >
+                      <PlugZap className="mr-2 h-4 w-4" />
+                      Test
+                    </Button>
+                    {secret.source === 'workspace' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeMutation.mutate(secret.kind)}
+                        disabled={isBusy}
+                        aria-label={`Remove ${label} key`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
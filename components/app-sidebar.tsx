@@ -3,6 +3,14 @@
 import type { SendGridTemplate } from '@/lib/types/sendgrid';
 import { TemplateList } from '@/components/template-list';
 import { UserMenu } from '@/components/user-menu';
+import { GlossaryManager } from '@/components/glossary-manager';
+import { LanguageManager } from '@/components/language-manager';
+import { StyleGuideManager } from '@/components/style-guide-manager';
+import { TeamManager } from '@/components/team-manager';
+import { UsageDashboard } from '@/components/usage-dashboard';
+import { WorkspaceManager } from '@/components/workspace-manager';
+import { ApiKeyManager } from '@/components/api-key-manager';
+import { WorkspaceSwitcher } from '@/components/workspace-switcher';
 import {
   Sidebar,
   SidebarContent,
@@ -32,6 +40,7 @@ export function AppSidebar({ templates }: AppSidebarProps) {
             </p>
           </div>
         </div>
+        <WorkspaceSwitcher />
         <SidebarSeparator />
       </SidebarHeader>
 
@@ -40,6 +49,13 @@ export function AppSidebar({ templates }: AppSidebarProps) {
       </SidebarContent>
 
       <SidebarFooter className="mt-auto px-2 pb-2">
+        <GlossaryManager />
+        <LanguageManager />
+        <StyleGuideManager />
+        <UsageDashboard />
+        <TeamManager />
+        <WorkspaceManager />
+        <ApiKeyManager />
         <UserMenu placement="sidebar" />
       </SidebarFooter>
     </Sidebar>
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { History } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguages } from '@/hooks/use-languages';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  type AuditAction,
+} from '@/lib/constants/audit';
+import type { AuditEvent } from '@/lib/db/schema';
+
+const PAGE_SIZE = 20;
+
+interface AuditTimelineProps {
+  templateId: string;
+}
+
+interface AuditEventPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+interface SegmentChange {
+  id: string;
+  before: string;
+  after: string;
+}
+
+function describeEvent(
+  event: AuditEvent,
+  getLanguageName: (code: string) => string
+): string | null {
+  const payload = event.payload ?? {};
+
+  switch (event.action) {
+    case 'task.created':
+    case 'batch.created': {
+      const languages = (payload.targetLanguages as string[] | undefined) ?? [];
+      return languages.length > 0
+        ? `Into ${languages.map(getLanguageName).join(', ')}`
+        : null;
+    }
+    case 'translation.retranslate_requested':
+      return payload.reason ? `“${payload.reason}”` : null;
+    case 'translation.edited': {
+      const changes = (payload.changes as SegmentChange[] | undefined) ?? [];
+      return `${changes.length} segment${changes.length === 1 ? '' : 's'} changed`;
+    }
+    case 'translation.published':
+      return payload.automatic ? 'Published automatically' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Who did what to this template's translations, newest first. Shares the
+ * translations query prefix so panel mutations refresh it.
+ */
+export function AuditTimeline({ templateId }: AuditTimelineProps) {
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const { getLanguageByCode } = useLanguages();
+  const getLanguageName = (code: string) =>
+    getLanguageByCode(code)?.name ?? code;
+
+  const { data, isPending, isError, fetchNextPage, hasNextPage, isFetching } =
+    useInfiniteQuery({
+      queryKey: ['translations', templateId, 'audit-events', action],
+      queryFn: async ({ pageParam }): Promise<AuditEventPage> => {
+        const params = new URLSearchParams({
+          templateId,
+          limit: `${PAGE_SIZE}`,
+        });
+        if (action !== 'all') params.set('action', action);
+        if (pageParam) params.set('before', pageParam);
+
+        const response = await fetch(`/api/audit-events?${params}`, {
+          cache: 'no-store',
+        });
+        if (!response.ok) throw new Error('Failed to fetch activity');
+        const result = await response.json();
+        return result.data;
+      },
+      initialPageParam: null as string | null,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4" />
+          Activity
+        </h4>
+        <Select
+          value={action}
+          onValueChange={(value) => setAction(value as AuditAction | 'all')}
+        >
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All activity</SelectItem>
+            {AUDIT_ACTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {AUDIT_ACTION_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isPending && (
+        <p className="text-xs text-muted-foreground">Loading activity…</p>
+      )}
+      {isError && (
+        <p className="text-xs text-destructive">Unable to load activity</p>
+      )}
+      {!isPending && !isError && events.length === 0 && (
+        <p className="text-xs text-muted-foreground">No activity yet.</p>
+      )}
+
+      {events.length > 0 && (
+        <ol className="space-y-3 border-l pl-4">
+          {events.map((event) => {
+            const detail = describeEvent(event, getLanguageName);
+            return (
+              <li key={event.id} className="relative space-y-1">
+                <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground/60" />
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-medium">
+                    {AUDIT_ACTION_LABELS[event.action]}
+                  </span>
+                  {event.languageCode && (
+                    <Badge variant="outline" className="text-[10px]">
+                      {getLanguageName(event.languageCode)}
+                    </Badge>
+                  )}
+                </div>
+                {detail && (
+                  <p className="text-xs text-muted-foreground">{detail}</p>
+                )}
+                <p className="text-[11px] text-muted-foreground">
+                  {event.actorEmail ??
+                    (event.actorId ? event.actorId : 'Automation')}
+                  {' · '}
+                  {new Date(event.createdAt).toLocaleString()}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-full text-xs"
+          onClick={() => fetchNextPage()}
+          disabled={isFetching}
+        >
+          {isFetching ? 'Loading…' : 'Show older activity'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Play, RefreshCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SimpleLanguageSelect } from '@/components/simple-language-select';
+import { useLanguages } from '@/hooks/use-languages';
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  type LanguageCode,
+} from '@/lib/constants/languages';
+import type { TranslationEngineOption } from '@/lib/constants/translation-engines';
+import type { SendGridTemplate } from '@/lib/types/sendgrid';
+
+interface BulkTranslationDialogProps {
+  templates: SendGridTemplate[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onQueued?: () => void;
+}
+
+interface BatchResponse {
+  batchId: string;
+  taskIds: string[];
+  skipped: Array<{ templateId: string; reason: string }>;
+}
+
+type AvailableEngine = TranslationEngineOption & { available: boolean };
+
+// Select value for "no override"; each language then uses its configured engine
+const DEFAULT_ENGINE_VALUE = 'default';
+
+function getEngineValue(engine: TranslationEngineOption) {
+  return engine.model ? `${engine.provider}:${engine.model}` : engine.provider;
+}
+
+export function BulkTranslationDialog({
+  templates,
+  open,
+  onOpenChange,
+  onQueued,
+}: BulkTranslationDialogProps) {
+  const queryClient = useQueryClient();
+  const { enabledLanguages } = useLanguages();
+  const [name, setName] = useState('');
+  const [selectedLanguages, setSelectedLanguages] = useState<LanguageCode[]>(
+    []
+  );
+  const [sourceLanguage, setSourceLanguage] = useState<LanguageCode>(
+    DEFAULT_SOURCE_LANGUAGE
+  );
+  const [selectedEngine, setSelectedEngine] = useState(DEFAULT_ENGINE_VALUE);
+  const [translateTestData, setTranslateTestData] = useState(false);
+
+  const { data: engines = [] } = useQuery({
+    queryKey: ['translation-engines'],
+    queryFn: async (): Promise<AvailableEngine[]> => {
+      const response = await fetch('/api/translations/providers');
+      if (!response.ok) throw new Error('Failed to fetch translation engines');
+      const result = await response.json();
+      return result.data.engines;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: open,
+  });
+
+  const startBatch = useMutation({
+    mutationFn: async (): Promise<BatchResponse> => {
+      const engine = engines.find(
+        (option) => getEngineValue(option) === selectedEngine
+      );
+      const response = await fetch('/api/translations/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim() || undefined,
+          templateIds: templates.map((template) => template.id),
+          sourceLanguage,
+          targetLanguages: selectedLanguages,
+          provider: engine?.provider,
+          model: engine?.model ?? undefined,
+          translateTestData,
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to start batch translation');
+      }
+
+      return result;
+    },
+    onSuccess: (result) => {
+      toast.success(
+        `Queued ${result.taskIds.length} template${
+          result.taskIds.length === 1 ? '' : 's'
+        } for translation`
+      );
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `Skipped ${result.skipped.length}: ${result.skipped
+            .map((entry) => entry.reason.toLowerCase())
+            .join(', ')}`
+        );
+      }
+      setName('');
+      setSelectedLanguages([]);
+      queryClient.invalidateQueries({
+        queryKey: ['translation-task-activity'],
+      });
+      onQueued?.();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleSourceLanguageChange = (code: string) => {
+    const nextSource = code as LanguageCode;
+    setSourceLanguage(nextSource);
+    setSelectedLanguages((prev) => prev.filter((lang) => lang !== nextSource));
+  };
+
+  const jobCount = templates.length * selectedLanguages.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Translate {templates.length} templates</DialogTitle>
+          <DialogDescription>
+            Queues the active version of each selected template. Progress is
+            tracked as one batch in Translation Activity.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-name" className="text-xs">
+              Batch name
+            </Label>
+            <Input
+              id="batch-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={`${templates.length} templates`}
+              disabled={startBatch.isPending}
+            />
+          </div>
+
+          <SimpleLanguageSelect
+            selectedLanguages={selectedLanguages}
+            onSelectionChange={setSelectedLanguages}
+            sourceLanguage={sourceLanguage}
+            disabled={startBatch.isPending}
+          />
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Source</span>
+            <Select
+              value={sourceLanguage}
+              onValueChange={handleSourceLanguageChange}
+              disabled={startBatch.isPending}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {enabledLanguages.map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Engine</span>
+            <Select
+              value={selectedEngine}
+              onValueChange={setSelectedEngine}
+              disabled={startBatch.isPending}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_ENGINE_VALUE}>
+                  Default for each language
+                </SelectItem>
+                {engines.map((engine) => (
+                  <SelectItem
+                    key={getEngineValue(engine)}
+                    value={getEngineValue(engine)}
+                    disabled={!engine.available}
+                  >
+                    {engine.label}
+                    {!engine.available && ' (not configured)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label
+              htmlFor="batch-translate-test-data"
+              className="text-xs font-normal text-muted-foreground"
+            >
+              Localize preview test data where available
+            </Label>
+            <Switch
+              id="batch-translate-test-data"
+              checked={translateTestData}
+              onCheckedChange={setTranslateTestData}
+              disabled={startBatch.isPending}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex items-center justify-between gap-2 sm:justify-between">
+          <span className="text-xs text-muted-foreground">
+            {jobCount} translation{jobCount === 1 ? '' : 's'}
+          </span>
+          <Button
+            onClick={() => startBatch.mutate()}
+            disabled={selectedLanguages.length === 0 || startBatch.isPending}
+          >
+            {startBatch.isPending ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            {startBatch.isPending ? 'Queuing…' : 'Start Batch'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
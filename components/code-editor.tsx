@@ -21,11 +21,14 @@ import {
   CheckCircle,
 } from 'lucide-react';
 import type { TemplateTranslation } from '@/lib/db/schema';
-import { getLanguageByCode } from '@/lib/constants/languages';
+import { useLanguages } from '@/hooks/use-languages';
+import { cn } from '@/lib/utils';
 
 interface CodeEditorProps {
   htmlContent: string;
   subject: string;
+  // Hand-written text part; omitted when SendGrid generates it from the HTML
+  plainContent?: string;
   translation?: TemplateTranslation | null;
   onClearTranslation?: () => void;
 }
@@ -40,6 +43,7 @@ interface CodeStats {
 export function CodeEditor({
   htmlContent,
   subject,
+  plainContent,
   translation,
   onClearTranslation,
 }: CodeEditorProps) {
@@ -48,7 +52,9 @@ export function CodeEditor({
   const [copied, setCopied] = useState(false);
   const [contentMode, setContentMode] =
     useState<'original' | 'translation'>('original');
+  const [codeFormat, setCodeFormat] = useState<'html' | 'plain'>('html');
 
+  const { getLanguageByCode } = useLanguages();
   const translationLanguage = translation
     ? getLanguageByCode(translation.languageCode)
     : undefined;
@@ -95,11 +101,27 @@ export function CodeEditor({
     return subject;
   }, [showTranslation, translation?.translatedSubject, translation, subject]);
 
+  const activePlainContent = useMemo(() => {
+    if (showTranslation && translation) {
+      return translation.translatedPlainContent ?? '';
+    }
+    return plainContent ?? '';
+  }, [showTranslation, translation, plainContent]);
+
+  const hasPlainContent = Boolean(
+    plainContent?.trim() || translation?.translatedPlainContent?.trim()
+  );
+  const showPlainContent = hasPlainContent && codeFormat === 'plain';
+
+  const isRtlContent =
+    showTranslation && translationLanguage?.direction === 'rtl';
+
   const formattedHTML = useMemo(() => {
+    if (showPlainContent) return activePlainContent;
     if (!activeHtml.trim()) return '';
 
     // Basic HTML formatting for better readability
-    let formatted = activeHtml
+    const formatted = activeHtml
       .replace(/></g, '>\n<')
       .replace(/\{\{/g, '\n{{')
       .replace(/\}\}/g, '}}\n')
@@ -137,7 +159,7 @@ export function CodeEditor({
     });
 
     return indentedLines.join('\n');
-  }, [activeHtml]);
+  }, [activeHtml, activePlainContent, showPlainContent]);
 
   const highlightedHTML = useMemo(() => {
     if (!formattedHTML) return '';
@@ -151,13 +173,15 @@ export function CodeEditor({
       .replace(/>/g, '&gt;');
 
     // Highlight HTML tags
-    highlighted = highlighted.replace(
-      /(&lt;\/?)([a-zA-Z][a-zA-Z0-9]*)(.*?)(&gt;)/g,
-      '<span class="text-blue-600 dark:text-blue-400">$1</span>' +
-        '<span class="text-red-600 dark:text-red-400 font-semibold">$2</span>' +
-        '<span class="text-green-600 dark:text-green-400">$3</span>' +
-        '<span class="text-blue-600 dark:text-blue-400">$4</span>'
-    );
+    if (!showPlainContent) {
+      highlighted = highlighted.replace(
+        /(&lt;\/?)([a-zA-Z][a-zA-Z0-9]*)(.*?)(&gt;)/g,
+        '<span class="text-blue-600 dark:text-blue-400">$1</span>' +
+          '<span class="text-red-600 dark:text-red-400 font-semibold">$2</span>' +
+          '<span class="text-green-600 dark:text-green-400">$3</span>' +
+          '<span class="text-blue-600 dark:text-blue-400">$4</span>'
+      );
+    }
 
     // Highlight Handlebars variables
     highlighted = highlighted.replace(
@@ -166,10 +190,12 @@ export function CodeEditor({
     );
 
     // Highlight attributes
-    highlighted = highlighted.replace(
-      /(\w+)=("[^"]*"|'[^']*')/g,
-      '<span class="text-orange-600 dark:text-orange-400">$1</span>=<span class="text-green-700 dark:text-green-300">$2</span>'
-    );
+    if (!showPlainContent) {
+      highlighted = highlighted.replace(
+        /(\w+)=("[^"]*"|'[^']*')/g,
+        '<span class="text-orange-600 dark:text-orange-400">$1</span>=<span class="text-green-700 dark:text-green-300">$2</span>'
+      );
+    }
 
     // Apply search highlighting if there's a search term
     if (searchTerm.trim()) {
@@ -184,16 +210,19 @@ export function CodeEditor({
     }
 
     return highlighted;
-  }, [formattedHTML, searchTerm]);
+  }, [formattedHTML, searchTerm, showPlainContent]);
 
   const codeStats = useMemo((): CodeStats => {
-    const characters = activeHtml.length;
+    const source = showPlainContent ? activePlainContent : activeHtml;
+    const characters = source.length;
     const lines = formattedHTML.split('\n').length;
-    const variables = (activeHtml.match(/\{\{[^}]+\}\}/g) || []).length;
-    const elements = (activeHtml.match(/<[^/!][^>]*>/g) || []).length;
+    const variables = (source.match(/\{\{[^}]+\}\}/g) || []).length;
+    const elements = showPlainContent
+      ? 0
+      : (source.match(/<[^/!][^>]*>/g) || []).length;
 
     return { characters, lines, variables, elements };
-  }, [activeHtml, formattedHTML]);
+  }, [activeHtml, activePlainContent, formattedHTML, showPlainContent]);
 
   const copyToClipboard = useCallback(async () => {
     try {
@@ -234,7 +263,7 @@ export function CodeEditor({
             <Code className="h-5 w-5 text-primary" />
             <h3 className="font-semibold">Template Code</h3>
             <Badge variant="secondary" className="text-xs">
-              HTML
+              {showPlainContent ? 'Plain text' : 'HTML'}
             </Badge>
             {translation && (
               <Badge
@@ -259,6 +288,26 @@ export function CodeEditor({
           </div>
 
           <div className="flex items-center gap-2">
+            {hasPlainContent && (
+              <div className="flex items-center gap-1 rounded-lg border border-border/70 bg-background p-1">
+                <Button
+                  variant={codeFormat === 'html' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setCodeFormat('html')}
+                  className="h-8 px-2"
+                >
+                  HTML
+                </Button>
+                <Button
+                  variant={codeFormat === 'plain' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setCodeFormat('plain')}
+                  className="h-8 px-2"
+                >
+                  Plain text
+                </Button>
+              </div>
+            )}
             {translation && (
               <div className="flex items-center gap-1 rounded-lg border border-border/70 bg-background p-1">
                 <Button
@@ -334,7 +383,10 @@ export function CodeEditor({
               <div className="text-xs text-muted-foreground mb-1">
                 Email Subject
               </div>
-              <div className="text-sm font-medium">
+              <div
+                className="text-sm font-medium"
+                dir={isRtlContent ? 'rtl' : undefined}
+              >
                 {activeSubject || 'No subject'}
               </div>
             </div>
@@ -417,8 +469,12 @@ export function CodeEditor({
                               {index + 1}
                             </span>
                           )}
+                          {/* Markup stays LTR; plaintext bidi orders each line of RTL copy */}
                           <span
-                            className="flex-1 leading-relaxed"
+                            className={cn(
+                              'flex-1 leading-relaxed',
+                              isRtlContent && '[unicode-bidi:plaintext]'
+                            )}
                             dangerouslySetInnerHTML={{
                               __html: line || '&nbsp;',
                             }}
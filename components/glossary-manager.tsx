@@ -0,0 +1,354 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BookOpen, Lock, Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useLanguages } from '@/hooks/use-languages';
+import type { GlossaryTerm } from '@/lib/db/schema';
+
+interface GlossaryFormState {
+  sourceTerm: string;
+  translations: Record<string, string>;
+  doNotTranslate: boolean;
+  caseSensitive: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: GlossaryFormState = {
+  sourceTerm: '',
+  translations: {},
+  doNotTranslate: false,
+  caseSensitive: false,
+  notes: '',
+};
+
+function toFormState(term: GlossaryTerm): GlossaryFormState {
+  return {
+    sourceTerm: term.sourceTerm,
+    translations: { ...term.translations },
+    doNotTranslate: term.doNotTranslate,
+    caseSensitive: term.caseSensitive,
+    notes: term.notes ?? '',
+  };
+}
+
+export function GlossaryManager() {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<GlossaryFormState>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+  const { enabledLanguages } = useLanguages();
+
+  const { data: terms = [], isPending } = useQuery({
+    queryKey: ['glossary'],
+    queryFn: async (): Promise<GlossaryTerm[]> => {
+      const response = await fetch('/api/glossary', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch glossary');
+      const result = await response.json();
+      return result.data.terms;
+    },
+    enabled: open,
+  });
+
+  const resetForm = useCallback(() => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }, []);
+
+  const saveMutation = useMutation({
+    mutationFn: async (variables: {
+      id: string | null;
+      values: GlossaryFormState;
+    }) => {
+      const response = await fetch(
+        variables.id ? `/api/glossary/${variables.id}` : '/api/glossary',
+        {
+          method: variables.id ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(variables.values),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to save glossary term';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(
+        variables.id ? 'Glossary term updated' : 'Glossary term added'
+      );
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['glossary'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/glossary/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to delete glossary term';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      toast.success('Glossary term removed');
+      if (editingId === id) {
+        resetForm();
+      }
+      queryClient.invalidateQueries({ queryKey: ['glossary'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const canSave = form.sourceTerm.trim().length > 0 && !saveMutation.isPending;
+
+  const handleSubmit = useCallback(() => {
+    if (!canSave) return;
+    saveMutation.mutate({ id: editingId, values: form });
+  }, [canSave, editingId, form, saveMutation]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          resetForm();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <BookOpen className="mr-2 h-4 w-4" />
+          Glossary
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Glossary</DialogTitle>
+          <DialogDescription>
+            Terms listed here are enforced in every translation. Mark brand and
+            product names as keep as-is, or set approved terms per language.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="glossary-source-term">Source term</Label>
+              <Input
+                id="glossary-source-term"
+                value={form.sourceTerm}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    sourceTerm: event.target.value,
+                  }))
+                }
+                placeholder="e.g. unsend Pro"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="glossary-keep">
+                Keep as-is in every language
+              </Label>
+              <Switch
+                id="glossary-keep"
+                checked={form.doNotTranslate}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({ ...prev, doNotTranslate: checked }))
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="glossary-case">Case sensitive</Label>
+              <Switch
+                id="glossary-case"
+                checked={form.caseSensitive}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({ ...prev, caseSensitive: checked }))
+                }
+              />
+            </div>
+
+            {!form.doNotTranslate && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">
+                  Approved translations (leave blank to let the model decide)
+                </p>
+                {enabledLanguages.map((language) => (
+                  <div key={language.code} className="space-y-1">
+                    <Label
+                      htmlFor={`glossary-${language.code}`}
+                      className="text-xs"
+                    >
+                      {language.name}
+                    </Label>
+                    <Input
+                      id={`glossary-${language.code}`}
+                      value={form.translations[language.code] ?? ''}
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          translations: {
+                            ...prev.translations,
+                            [language.code]: event.target.value,
+                          },
+                        }))
+                      }
+                      placeholder={language.nativeName}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="glossary-notes">Notes</Label>
+              <Textarea
+                id="glossary-notes"
+                value={form.notes}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, notes: event.target.value }))
+                }
+                placeholder="Context for translators and the model"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Terms{' '}
+              <span className="text-muted-foreground">({terms.length})</span>
+            </p>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <div className="space-y-2 p-2">
+                {isPending && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    Loading glossary…
+                  </p>
+                )}
+                {!isPending && terms.length === 0 && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    No glossary terms yet.
+                  </p>
+                )}
+                {terms.map((term) => (
+                  <div
+                    key={term.id}
+                    className="flex items-start justify-between gap-2 rounded-md border p-2"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-sm font-medium">
+                          {term.sourceTerm}
+                        </span>
+                        {term.doNotTranslate && (
+                          <Badge
+                            variant="secondary"
+                            className="flex items-center gap-1 text-[10px]"
+                          >
+                            <Lock className="h-3 w-3" /> Keep as-is
+                          </Badge>
+                        )}
+                        {term.caseSensitive && (
+                          <Badge variant="outline" className="text-[10px]">
+                            Aa
+                          </Badge>
+                        )}
+                      </div>
+                      {!term.doNotTranslate &&
+                        Object.keys(term.translations).length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {Object.entries(term.translations)
+                              .map(([code, value]) => `${code}: ${value}`)
+                              .join(' · ')}
+                          </div>
+                        )}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => {
+                          setEditingId(term.id);
+                          setForm(toFormState(term));
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive"
+                        onClick={() => deleteMutation.mutate(term.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2">
+          {editingId && (
+            <Button variant="ghost" onClick={resetForm}>
+              Cancel edit
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={!canSave}>
+            {editingId ? (
+              'Save changes'
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Add term
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
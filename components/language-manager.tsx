@@ -0,0 +1,346 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Globe, Pencil, Plus } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { LANGUAGES_QUERY_KEY, useLanguages } from '@/hooks/use-languages';
+import type {
+  Language,
+  LanguageFormality,
+  TextDirection,
+} from '@/lib/constants/languages';
+
+interface LanguageFormState {
+  code: string;
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+  formality: LanguageFormality;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: LanguageFormState = {
+  code: '',
+  name: '',
+  nativeName: '',
+  direction: 'ltr',
+  formality: 'default',
+  enabled: true,
+};
+
+const FORMALITY_LABELS: Record<LanguageFormality, string> = {
+  default: 'No preference',
+  formal: 'Formal',
+  informal: 'Informal',
+};
+
+function toFormState(language: Language): LanguageFormState {
+  return {
+    code: language.code,
+    name: language.name,
+    nativeName: language.nativeName,
+    direction: language.direction,
+    formality: language.formality,
+    enabled: language.enabled,
+  };
+}
+
+export function LanguageManager() {
+  const [open, setOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [form, setForm] = useState<LanguageFormState>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+  const { languages, isPending } = useLanguages();
+
+  const resetForm = useCallback(() => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+  }, []);
+
+  const saveMutation = useMutation({
+    mutationFn: async (variables: {
+      code: string | null;
+      values: LanguageFormState;
+    }) => {
+      const { code, ...details } = variables.values;
+      const response = await fetch(
+        variables.code
+          ? `/api/languages/${encodeURIComponent(variables.code)}`
+          : '/api/languages',
+        {
+          method: variables.code ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(variables.code ? details : { code, ...details }),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to save language';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(variables.code ? 'Language updated' : 'Language added');
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: LANGUAGES_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const canSave =
+    form.code.trim().length > 0 &&
+    form.name.trim().length > 0 &&
+    form.nativeName.trim().length > 0 &&
+    !saveMutation.isPending;
+
+  const handleSubmit = useCallback(() => {
+    if (!canSave) return;
+    saveMutation.mutate({ code: editingCode, values: form });
+  }, [canSave, editingCode, form, saveMutation]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          resetForm();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <Globe className="mr-2 h-4 w-4" />
+          Languages
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Languages</DialogTitle>
+          <DialogDescription>
+            Enabled languages can be chosen as translation sources and targets.
+            Disabling a language keeps its existing translations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="language-code">Code</Label>
+              <Input
+                id="language-code"
+                value={form.code}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, code: event.target.value }))
+                }
+                placeholder="e.g. de or pt-BR"
+                disabled={Boolean(editingCode)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="language-name">Name</Label>
+              <Input
+                id="language-name"
+                value={form.name}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, name: event.target.value }))
+                }
+                placeholder="e.g. German"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="language-native-name">Native name</Label>
+              <Input
+                id="language-native-name"
+                value={form.nativeName}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    nativeName: event.target.value,
+                  }))
+                }
+                placeholder="e.g. Deutsch"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Direction</Label>
+                <Select
+                  value={form.direction}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      direction: value as TextDirection,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ltr">Left to right</SelectItem>
+                    <SelectItem value="rtl">Right to left</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Formality</Label>
+                <Select
+                  value={form.formality}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      formality: value as LanguageFormality,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FORMALITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="language-enabled">Enabled</Label>
+              <Switch
+                id="language-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({ ...prev, enabled: checked }))
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Catalog{' '}
+              <span className="text-muted-foreground">
+                ({languages.length})
+              </span>
+            </p>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <div className="space-y-2 p-2">
+                {isPending && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    Loading languages…
+                  </p>
+                )}
+                {!isPending && languages.length === 0 && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    No languages yet.
+                  </p>
+                )}
+                {languages.map((language) => (
+                  <div
+                    key={language.code}
+                    className="flex items-start justify-between gap-2 rounded-md border p-2"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-sm font-medium">
+                          {language.name}
+                        </span>
+                        <Badge variant="outline" className="text-[10px]">
+                          {language.code}
+                        </Badge>
+                        {language.direction === 'rtl' && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            RTL
+                          </Badge>
+                        )}
+                        {language.formality !== 'default' && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            {FORMALITY_LABELS[language.formality]}
+                          </Badge>
+                        )}
+                        {!language.enabled && (
+                          <Badge variant="outline" className="text-[10px]">
+                            Disabled
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {language.nativeName}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 shrink-0 p-0"
+                      onClick={() => {
+                        setEditingCode(language.code);
+                        setForm(toFormState(language));
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2">
+          {editingCode && (
+            <Button variant="ghost" onClick={resetForm}>
+              Cancel edit
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={!canSave}>
+            {editingCode ? (
+              'Save changes'
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Add language
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,8 +18,10 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
+import { useLanguages } from '@/hooks/use-languages';
 import {
-  TARGET_LANGUAGES,
+  DEFAULT_SOURCE_LANGUAGE,
+  getTargetLanguages,
   type LanguageCode,
   type Language,
 } from '@/lib/constants/languages';
@@ -27,15 +29,19 @@ import {
 interface LanguageMultiSelectProps {
   selectedLanguages: LanguageCode[];
   onSelectionChange: (languages: LanguageCode[]) => void;
+  // Excluded from the options, since a template is never translated into itself
+  sourceLanguage?: LanguageCode;
   disabled?: boolean;
 }
 
 export function LanguageMultiSelect({
   selectedLanguages,
   onSelectionChange,
+  sourceLanguage = DEFAULT_SOURCE_LANGUAGE,
   disabled = false,
 }: LanguageMultiSelectProps) {
   const [open, setOpen] = useState(false);
+  const { enabledLanguages } = useLanguages();
 
   const handleSelect = (languageCode: LanguageCode) => {
     if (selectedLanguages.includes(languageCode)) {
@@ -53,8 +59,10 @@ export function LanguageMultiSelect({
     );
   };
 
+  const targetLanguages = getTargetLanguages(enabledLanguages, sourceLanguage);
+
   const selectedLanguageObjects = selectedLanguages
-    .map((code) => TARGET_LANGUAGES.find((lang) => lang.code === code))
+    .map((code) => targetLanguages.find((lang) => lang.code === code))
     .filter(Boolean) as Language[];
 
   return (
@@ -83,7 +91,7 @@ export function LanguageMultiSelect({
             <CommandList>
               <CommandEmpty>No languages found.</CommandEmpty>
               <CommandGroup>
-                {TARGET_LANGUAGES.map((language) => (
+                {targetLanguages.map((language) => (
                   <CommandItem
                     key={language.code}
                     value={language.name}
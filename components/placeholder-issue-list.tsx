@@ -0,0 +1,77 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type {
+  PlaceholderCategory,
+  PlaceholderIssue,
+} from '@/lib/types/translation';
+
+interface PlaceholderIssueListProps {
+  issues: PlaceholderIssue[];
+}
+
+const CATEGORY_LABELS: Record<PlaceholderCategory, string> = {
+  variable: 'Variable',
+  block: 'Block',
+  partial: 'Partial',
+  url: 'URL',
+  syntax: 'Syntax',
+};
+
+function describeIssue(issue: PlaceholderIssue) {
+  if (issue.category === 'syntax') {
+    return 'Translated template no longer compiles';
+  }
+
+  if (issue.translatedCount === 0) {
+    return 'Missing from translation';
+  }
+
+  if (issue.sourceCount === 0) {
+    return 'Not present in source';
+  }
+
+  return `Expected ${issue.sourceCount}, found ${issue.translatedCount}`;
+}
+
+export function PlaceholderIssueList({ issues }: PlaceholderIssueListProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-2">
+      <p className="text-xs font-medium text-destructive">
+        Placeholder mismatches
+      </p>
+      <ul className="space-y-1">
+        {issues.map((issue, index) => (
+          <li
+            key={`${issue.field}-${issue.category}-${issue.token}-${index}`}
+            className="flex flex-wrap items-center gap-2 text-xs"
+          >
+            <Badge variant="outline" className="text-[10px] uppercase">
+              {CATEGORY_LABELS[issue.category]}
+            </Badge>
+            {issue.field === 'subject' && (
+              <Badge variant="secondary" className="text-[10px]">
+                Subject
+              </Badge>
+            )}
+            {issue.field === 'plain' && (
+              <Badge variant="secondary" className="text-[10px]">
+                Plain text
+              </Badge>
+            )}
+            <code className="max-w-full break-all rounded bg-muted px-1 font-mono text-[11px]">
+              {issue.token}
+            </code>
+            <span className="text-muted-foreground">
+              {describeIssue(issue)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
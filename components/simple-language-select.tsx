@@ -11,8 +11,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { useLanguages } from '@/hooks/use-languages';
 import {
-  TARGET_LANGUAGES,
+  DEFAULT_SOURCE_LANGUAGE,
+  getTargetLanguages,
   type LanguageCode,
   type Language,
 } from '@/lib/constants/languages';
@@ -20,15 +22,19 @@ import {
 interface SimpleLanguageSelectProps {
   selectedLanguages: LanguageCode[];
   onSelectionChange: (languages: LanguageCode[]) => void;
+  // Excluded from the options, since a template is never translated into itself
+  sourceLanguage?: LanguageCode;
   disabled?: boolean;
 }
 
 export function SimpleLanguageSelect({
   selectedLanguages,
   onSelectionChange,
+  sourceLanguage = DEFAULT_SOURCE_LANGUAGE,
   disabled = false,
 }: SimpleLanguageSelectProps) {
   const [currentSelection, setCurrentSelection] = useState<string>('');
+  const { enabledLanguages } = useLanguages();
 
   const handleSelect = (languageCode: string) => {
     if (
@@ -46,12 +52,14 @@ export function SimpleLanguageSelect({
     );
   };
 
-  const availableLanguages = TARGET_LANGUAGES.filter(
+  const targetLanguages = getTargetLanguages(enabledLanguages, sourceLanguage);
+
+  const availableLanguages = targetLanguages.filter(
     (lang) => !selectedLanguages.includes(lang.code)
   );
 
   const selectedLanguageObjects = selectedLanguages
-    .map((code) => TARGET_LANGUAGES.find((lang) => lang.code === code))
+    .map((code) => targetLanguages.find((lang) => lang.code === code))
     .filter(Boolean) as Language[];
 
   return (
@@ -0,0 +1,346 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { NotebookPen, Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useLanguages } from '@/hooks/use-languages';
+import type { StyleGuide } from '@/lib/db/schema';
+
+interface StyleGuideManagerProps {
+  // Scopes the dialog to guides for one template; omit for language-wide guides
+  template?: {
+    id: string;
+    name: string;
+  };
+}
+
+interface StyleGuideFormState {
+  languageCode: string;
+  tone: string;
+  instructions: string;
+}
+
+const EMPTY_FORM: StyleGuideFormState = {
+  languageCode: '',
+  tone: '',
+  instructions: '',
+};
+
+export function StyleGuideManager({ template }: StyleGuideManagerProps) {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<StyleGuideFormState>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+  const { enabledLanguages, getLanguageByCode } = useLanguages();
+
+  const queryKey = ['style-guides', template?.id ?? null];
+
+  const { data: guides = [], isPending } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<StyleGuide[]> => {
+      const params = template
+        ? `?templateId=${encodeURIComponent(template.id)}`
+        : '';
+      const response = await fetch(`/api/style-guides${params}`, {
+        cache: 'no-store',
+      });
+      if (!response.ok) throw new Error('Failed to fetch style guides');
+      const result = await response.json();
+      return result.data.guides;
+    },
+    enabled: open,
+  });
+
+  const resetForm = useCallback(() => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }, []);
+
+  const saveMutation = useMutation({
+    mutationFn: async (variables: {
+      id: string | null;
+      values: StyleGuideFormState;
+    }) => {
+      const response = await fetch(
+        variables.id
+          ? `/api/style-guides/${variables.id}`
+          : '/api/style-guides',
+        {
+          method: variables.id ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...variables.values,
+            templateId: template?.id ?? null,
+            templateName: template?.name ?? null,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to save style guide';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(variables.id ? 'Style guide updated' : 'Style guide added');
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['style-guides'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/style-guides/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to delete style guide';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      toast.success('Style guide removed');
+      if (editingId === id) {
+        resetForm();
+      }
+      queryClient.invalidateQueries({ queryKey: ['style-guides'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const canSave =
+    form.languageCode.length > 0 &&
+    form.instructions.trim().length > 0 &&
+    !saveMutation.isPending;
+
+  const handleSubmit = useCallback(() => {
+    if (!canSave) return;
+    saveMutation.mutate({ id: editingId, values: form });
+  }, [canSave, editingId, form, saveMutation]);
+
+  const usedLanguageCodes = new Set(guides.map((guide) => guide.languageCode));
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          resetForm();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        {template ? (
+          <Button variant="outline" size="sm">
+            <NotebookPen className="mr-2 h-4 w-4" />
+            Template style guide
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" className="w-full justify-start">
+            <NotebookPen className="mr-2 h-4 w-4" />
+            Style guides
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {template ? `Style guides for ${template.name}` : 'Style guides'}
+          </DialogTitle>
+          <DialogDescription>
+            {template
+              ? 'Added after the language-wide guide when translating this template, and its tone takes precedence.'
+              : 'Tone, register and vocabulary rules appended to every translation into a language.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select
+                value={form.languageCode}
+                onValueChange={(value) =>
+                  setForm((prev) => ({ ...prev, languageCode: value }))
+                }
+                disabled={Boolean(editingId)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {enabledLanguages.map((language) => (
+                    <SelectItem
+                      key={language.code}
+                      value={language.code}
+                      disabled={
+                        !editingId && usedLanguageCodes.has(language.code)
+                      }
+                    >
+                      {language.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="style-guide-tone">Tone</Label>
+              <Input
+                id="style-guide-tone"
+                value={form.tone}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, tone: event.target.value }))
+                }
+                placeholder="e.g. warm and reassuring"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="style-guide-instructions">Instructions</Label>
+              <Textarea
+                id="style-guide-instructions"
+                value={form.instructions}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    instructions: event.target.value,
+                  }))
+                }
+                placeholder={
+                  'e.g. Address the reader as "vous". Prefer Quebec vocabulary: "courriel", "magasiner".'
+                }
+                rows={8}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Guides{' '}
+              <span className="text-muted-foreground">({guides.length})</span>
+            </p>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <div className="space-y-2 p-2">
+                {isPending && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    Loading style guides…
+                  </p>
+                )}
+                {!isPending && guides.length === 0 && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    No style guides yet.
+                  </p>
+                )}
+                {guides.map((guide) => (
+                  <div
+                    key={guide.id}
+                    className="flex items-start justify-between gap-2 rounded-md border p-2"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-sm font-medium">
+                          {getLanguageByCode(guide.languageCode)?.name ??
+                            guide.languageCode}
+                        </span>
+                        {guide.tone && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            {guide.tone}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="line-clamp-3 whitespace-pre-line text-xs text-muted-foreground">
+                        {guide.instructions}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => {
+                          setEditingId(guide.id);
+                          setForm({
+                            languageCode: guide.languageCode,
+                            tone: guide.tone ?? '',
+                            instructions: guide.instructions,
+                          });
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive"
+                        onClick={() => deleteMutation.mutate(guide.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2">
+          {editingId && (
+            <Button variant="ghost" onClick={resetForm}>
+              Cancel edit
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={!canSave}>
+            {editingId ? (
+              'Save changes'
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Add guide
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
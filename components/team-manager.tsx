@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Users } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SimpleLanguageSelect } from '@/components/simple-language-select';
+import { USER_ACCESS_QUERY_KEY, useUserAccess } from '@/hooks/use-user-access';
+import { ROLE_LABELS, USER_ROLES, type UserRole } from '@/lib/constants/roles';
+import type { LanguageCode } from '@/lib/constants/languages';
+import type { UserRoleRecord } from '@/lib/db/schema';
+
+const USERS_QUERY_KEY = ['users'];
+
+export function TeamManager() {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { access, can } = useUserAccess();
+  const canManage = can('users:manage');
+
+  const {
+    data: users = [],
+    isPending,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: async (): Promise<UserRoleRecord[]> => {
+      const response = await fetch('/api/users', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch users');
+      const result = await response.json();
+      return result.data.users;
+    },
+    enabled: open && canManage,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (variables: {
+      userId: string;
+      role: UserRole;
+      reviewLanguages: string[];
+    }) => {
+      const { userId, ...values } = variables;
+      const response = await fetch(`/api/users/${encodeURIComponent(userId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to update role';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success('Role updated');
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+      if (variables.userId === access?.userId) {
+        queryClient.invalidateQueries({ queryKey: USER_ACCESS_QUERY_KEY });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <Users className="mr-2 h-4 w-4" />
+          Team & roles
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Team & roles</DialogTitle>
+          <DialogDescription>
+            People appear here after they first sign in. Reviewers can be
+            limited to the languages they review; leave the list empty to let
+            them review every language.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending && (
+          <p className="text-sm text-muted-foreground">Loading team…</p>
+        )}
+        {isError && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {!isPending && !isError && (
+          <ScrollArea className="h-[55vh] pr-3">
+            <div className="space-y-2">
+              {users.map((user) => (
+                <div
+                  key={user.userId}
+                  className="space-y-2 rounded-md border p-3"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <p className="truncate text-sm font-medium">
+                        {user.email ?? user.userId}
+                      </p>
+                      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {ROLE_LABELS[user.role].description}
+                        {user.userId === access?.userId && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            You
+                          </Badge>
+                        )}
+                      </p>
+                    </div>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) =>
+                        updateMutation.mutate({
+                          userId: user.userId,
+                          role: role as UserRole,
+                          reviewLanguages: user.reviewLanguages,
+                        })
+                      }
+                      disabled={updateMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 w-40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {user.role === 'reviewer' && (
+                    <SimpleLanguageSelect
+                      selectedLanguages={user.reviewLanguages as LanguageCode[]}
+                      onSelectionChange={(reviewLanguages) =>
+                        updateMutation.mutate({
+                          userId: user.userId,
+                          role: user.role,
+                          reviewLanguages,
+                        })
+                      }
+                      disabled={updateMutation.isPending}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
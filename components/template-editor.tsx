@@ -281,6 +281,11 @@ export function TemplateEditor() {
               <TemplatePreview
                 htmlContent={activeVersion.html_content}
                 subject={activeVersion.subject}
+                plainContent={
+                  activeVersion.generate_plain_content
+                    ? undefined
+                    : activeVersion.plain_content
+                }
                 testData={testData}
                 translation={selectedTranslation}
                 onClearTranslation={() => setSelectedTranslation(null)}
@@ -291,6 +296,11 @@ export function TemplateEditor() {
               <CodeEditor
                 htmlContent={activeVersion.html_content}
                 subject={activeVersion.subject}
+                plainContent={
+                  activeVersion.generate_plain_content
+                    ? undefined
+                    : activeVersion.plain_content
+                }
                 translation={selectedTranslation}
                 onClearTranslation={() => setSelectedTranslation(null)}
               />
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState, useMemo, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   SidebarGroup,
   SidebarGroupContent,
@@ -15,19 +17,27 @@ import {
   SidebarSeparator,
 } from '@/components/ui/sidebar';
 import {
+  AlertTriangle,
   Calendar,
   CheckCircle,
   Clock,
   Code,
   FileText,
   Filter,
+  Languages,
   Layers,
+  ListChecks,
   Mail,
   Search,
+  X,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { useTemplateManager } from '@/providers/template-manager-context';
 import type { SendGridTemplate } from '@/lib/types/sendgrid';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import { isTranslationOutdated } from '@/lib/translation/outdated';
+import { BulkTranslationDialog } from '@/components/bulk-translation-dialog';
+import { useUserAccess } from '@/hooks/use-user-access';
 
 interface TemplateListProps {
   templates: SendGridTemplate[];
@@ -41,8 +51,14 @@ interface TemplateStats {
   totalVersions: number;
   hasContent: boolean;
   lastModified: Date;
+  outdatedTranslations: number;
 }
 
+type TranslationSourceHash = Pick<
+  TemplateTranslation,
+  'id' | 'templateId' | 'templateVersionId' | 'languageCode' | 'sourceHash'
+>;
+
 const MAX_TITLE_LENGTH = 35;
 
 const SORT_BUTTONS: Array<{
@@ -70,6 +86,35 @@ export function TemplateList({ templates }: TemplateListProps) {
   const [sortBy, setSortBy] = useState<SortOption>('updated');
   const [generationFilter, setGenerationFilter] =
     useState<GenerationFilter>('all');
+  // Multi-select queues one batch translation across the checked templates
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDialogOpen, setBulkDialogOpen] = useState(false);
+  const { can } = useUserAccess();
+
+  const { data: sourceHashes = [] } = useQuery({
+    queryKey: ['translation-source-hashes'],
+    queryFn: async (): Promise<TranslationSourceHash[]> => {
+      const response = await fetch('/api/translations/source-hashes', {
+        cache: 'no-store',
+      });
+      if (!response.ok) throw new Error('Failed to fetch translation hashes');
+      const result = await response.json();
+      return result.data.translations;
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const sourceHashesByTemplate = useMemo(() => {
+    const grouped = new Map<string, TranslationSourceHash[]>();
+    sourceHashes.forEach((entry) => {
+      grouped.set(entry.templateId, [
+        ...(grouped.get(entry.templateId) ?? []),
+        entry,
+      ]);
+    });
+    return grouped;
+  }, [sourceHashes]);
 
   const getTemplateStats = useCallback(
     (template: SendGridTemplate): TemplateStats => {
@@ -80,15 +125,21 @@ export function TemplateList({ templates }: TemplateListProps) {
         (version) => version.html_content.trim().length > 0
       );
       const lastModified = new Date(template.updated_at);
+      const outdatedTranslations = (
+        sourceHashesByTemplate.get(template.id) ?? []
+      ).filter((entry) =>
+        isTranslationOutdated(entry, template.versions)
+      ).length;
 
       return {
         activeVersion,
         totalVersions,
         hasContent,
         lastModified,
+        outdatedTranslations,
       };
     },
-    []
+    [sourceHashesByTemplate]
   );
 
   const filteredAndSortedTemplates = useMemo(() => {
@@ -177,6 +228,48 @@ export function TemplateList({ templates }: TemplateListProps) {
     return { total, legacy, dynamic };
   }, [templates]);
 
+  const selectedTemplates = useMemo(
+    () => templates.filter((template) => selectedIds.has(template.id)),
+    [templates, selectedIds]
+  );
+
+  const toggleSelected = useCallback((templateId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(templateId)) {
+        next.delete(templateId);
+      } else {
+        next.add(templateId);
+      }
+      return next;
+    });
+  }, []);
+
+  const allVisibleSelected =
+    filteredAndSortedTemplates.length > 0 &&
+    filteredAndSortedTemplates.every((template) =>
+      selectedIds.has(template.id)
+    );
+
+  const toggleAllVisible = useCallback(() => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      filteredAndSortedTemplates.forEach((template) => {
+        if (allVisibleSelected) {
+          next.delete(template.id);
+        } else {
+          next.add(template.id);
+        }
+      });
+      return next;
+    });
+  }, [filteredAndSortedTemplates, allVisibleSelected]);
+
+  const exitSelectionMode = useCallback(() => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  }, []);
+
   const listIsEmpty = templates.length === 0;
   const noMatches = filteredAndSortedTemplates.length === 0 && !listIsEmpty;
 
@@ -248,10 +341,61 @@ export function TemplateList({ templates }: TemplateListProps) {
                 ))}
               </div>
             </div>
+
+            {selectionMode ? (
+              <div className="space-y-2 rounded-md border border-sidebar-border/60 p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={toggleAllVisible}
+                      aria-label="Select all visible templates"
+                    />
+                    <span>{selectedIds.size} selected</span>
+                  </label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={exitSelectionMode}
+                    className="h-7 gap-1 px-2 text-xs"
+                  >
+                    <X className="h-3 w-3" />
+                    Cancel
+                  </Button>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => setBulkDialogOpen(true)}
+                  disabled={selectedIds.size === 0}
+                  className="h-8 w-full gap-1 text-xs"
+                >
+                  <Languages className="h-3 w-3" />
+                  Translate selected
+                </Button>
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setSelectionMode(true)}
+                disabled={listIsEmpty || !can('translations:create')}
+                className="h-8 w-full gap-1 text-xs"
+              >
+                <ListChecks className="h-3 w-3" />
+                Select templates to translate
+              </Button>
+            )}
           </div>
         </SidebarGroupContent>
       </SidebarGroup>
 
+      <BulkTranslationDialog
+        templates={selectedTemplates}
+        open={bulkDialogOpen}
+        onOpenChange={setBulkDialogOpen}
+        onQueued={exitSelectionMode}
+      />
+
       <SidebarSeparator className="mt-3" />
 
       <div className="flex-1 overflow-hidden">
@@ -282,6 +426,7 @@ export function TemplateList({ templates }: TemplateListProps) {
                 {filteredAndSortedTemplates.map((template) => {
                   const stats = getTemplateStats(template);
                   const isSelected = selectedTemplate?.id === template.id;
+                  const isChecked = selectedIds.has(template.id);
                   const truncatedName =
                     template.name.length > MAX_TITLE_LENGTH
                       ? `${template.name.slice(0, MAX_TITLE_LENGTH)}…`
@@ -290,17 +435,40 @@ export function TemplateList({ templates }: TemplateListProps) {
                   return (
                     <SidebarMenuItem key={template.id}>
                       <SidebarMenuButton
-                        isActive={isSelected}
-                        onClick={() => setSelectedTemplate(template)}
+                        isActive={selectionMode ? isChecked : isSelected}
+                        onClick={() =>
+                          selectionMode
+                            ? toggleSelected(template.id)
+                            : setSelectedTemplate(template)
+                        }
                         className="items-start gap-3 overflow-hidden"
                         aria-label={`Select template ${template.name}`}
                       >
-                        <FileText className="mt-1 h-4 w-4 text-sidebar-foreground/70" />
+                        {selectionMode ? (
+                          <Checkbox
+                            checked={isChecked}
+                            tabIndex={-1}
+                            className="pointer-events-none mt-1"
+                            aria-hidden
+                          />
+                        ) : (
+                          <FileText className="mt-1 h-4 w-4 text-sidebar-foreground/70" />
+                        )}
                         <div className="min-w-0 flex-1 space-y-2">
                           <div className="flex flex-wrap items-center gap-2">
                             <span className="line-clamp-2 whitespace-normal text-sm font-medium leading-5 break-words">
                               {truncatedName}
                             </span>
+                            {stats.outdatedTranslations > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 border-amber-500/50 text-[10px] text-amber-700 dark:text-amber-400"
+                                title="The SendGrid copy changed after these translations were made"
+                              >
+                                <AlertTriangle className="h-3 w-3" />
+                                {stats.outdatedTranslations} outdated
+                              </Badge>
+                            )}
                           </div>
 
                           <p className="line-clamp-2 text-xs text-sidebar-foreground/70">
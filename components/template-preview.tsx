@@ -19,7 +19,8 @@ import {
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import type { TemplateTranslation } from '@/lib/db/schema';
-import { getLanguageByCode } from '@/lib/constants/languages';
+import { useLanguages } from '@/hooks/use-languages';
+import type { TextDirection } from '@/lib/constants/languages';
 
 interface ParsedTestData {
   [key: string]: string | number | boolean | ParsedTestData;
@@ -28,6 +29,8 @@ interface ParsedTestData {
 interface TemplatePreviewProps {
   htmlContent: string;
   subject: string;
+  // Hand-written text part; omitted when SendGrid generates it from the HTML
+  plainContent?: string;
   testData: ParsedTestData;
   translation?: TemplateTranslation | null;
   onClearTranslation?: () => void;
@@ -109,7 +112,10 @@ const insertHelper = function (partialName: unknown) {
   return new Handlebars.SafeString(markup);
 };
 
-const buildDocumentMarkup = (html: string): string => {
+const buildDocumentMarkup = (
+  html: string,
+  direction: TextDirection = 'ltr'
+): string => {
   const trimmed = html.trim();
 
   if (!trimmed) {
@@ -146,11 +152,14 @@ const buildDocumentMarkup = (html: string): string => {
   }
 
   if (/^<!DOCTYPE html>/i.test(trimmed) || /^<html[\s>]/i.test(trimmed)) {
-    return trimmed;
+    // Translations from before direction support carry no dir attribute
+    return direction === 'rtl'
+      ? trimmed.replace(/<html\b(?![^>]*\sdir\s*=)/i, '$& dir="rtl"')
+      : trimmed;
   }
 
   return `<!DOCTYPE html>
-<html>
+<html dir="${direction}">
   <head>
     <meta charset="utf-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -177,6 +186,7 @@ const VIEWPORT_CONFIG = {
 export function TemplatePreview({
   htmlContent,
   subject,
+  plainContent,
   testData,
   translation,
   onClearTranslation,
@@ -198,6 +208,7 @@ export function TemplatePreview({
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const fetchedEnvKeysRef = useRef<Set<string>>(new Set());
 
+  const { getLanguageByCode } = useLanguages();
   const translationLanguage = translation
     ? getLanguageByCode(translation.languageCode)
     : undefined;
@@ -245,6 +256,21 @@ export function TemplatePreview({
     return subject;
   }, [showTranslation, translation?.translatedSubject, translation, subject]);
 
+  const activePlainContent = useMemo(() => {
+    if (showTranslation && translation) {
+      return translation.translatedPlainContent ?? '';
+    }
+    return plainContent ?? '';
+  }, [showTranslation, translation, plainContent]);
+
+  // Localized fixtures replace the source sample values for this language
+  const activeTestData = useMemo(() => {
+    if (showTranslation && translation?.translatedTestData) {
+      return translation.translatedTestData as ParsedTestData;
+    }
+    return testData;
+  }, [showTranslation, translation?.translatedTestData, testData]);
+
   const translationLabel = translation
     ? translationLanguageName || 'Translation'
     : 'Translation';
@@ -328,7 +354,7 @@ export function TemplatePreview({
   }, [envKeys, fetchEnvValues]);
 
   const context = useMemo(() => {
-    const base = { ...testData };
+    const base = { ...activeTestData };
 
     // Handle env values - ensure they're all strings
     const existingEnv =
@@ -345,7 +371,7 @@ export function TemplatePreview({
 
     base.env = { ...envState.values, ...existingEnv };
     return base;
-  }, [testData, envState.values]);
+  }, [activeTestData, envState.values]);
 
   const resolveEnvValue = useCallback(
     (rawKey: unknown): string => {
@@ -404,9 +430,33 @@ export function TemplatePreview({
     refreshPreview();
   }, [refreshPreview]);
 
+  const renderedPlainContent = useMemo(() => {
+    if (!activePlainContent.trim()) return '';
+
+    try {
+      return Handlebars.compile(activePlainContent, { noEscape: true })(
+        context,
+        {
+          helpers: {
+            env: (key: unknown) => resolveEnvValue(key),
+            equals: equalsHelper,
+            notEquals: notEqualsHelper,
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to render plain text content:', error);
+      return activePlainContent;
+    }
+  }, [activePlainContent, context, resolveEnvValue]);
+
+  const activeDirection: TextDirection = showTranslation
+    ? translationLanguage?.direction ?? 'ltr'
+    : 'ltr';
+
   const finalMarkup = useMemo(
-    () => buildDocumentMarkup(renderedHTML || activeHtml),
-    [renderedHTML, activeHtml]
+    () => buildDocumentMarkup(renderedHTML || activeHtml, activeDirection),
+    [renderedHTML, activeHtml, activeDirection]
   );
 
   useEffect(() => {
@@ -465,7 +515,9 @@ export function TemplatePreview({
           </div>
           <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
             {activeSubject && (
-              <span className="truncate">Subject: {activeSubject}</span>
+              <span className="truncate">
+                Subject: <bdi>{activeSubject}</bdi>
+              </span>
             )}
             {translation && (
               <span className="flex items-center gap-1">
@@ -606,7 +658,7 @@ export function TemplatePreview({
       )}
 
       {/* Preview Content */}
-      <div className="flex-1 overflow-hidden bg-muted/20 p-4">
+      <div className="flex-1 overflow-auto bg-muted/20 p-4">
         <Card className="flex flex-col border-none bg-transparent shadow-none">
           <CardContent className="flex flex-col overflow-hidden p-0">
             <div className="flex w-full justify-center overflow-hidden rounded-xl border border-border/70 bg-background shadow-lg">
@@ -623,6 +675,19 @@ export function TemplatePreview({
                 </div>
               </div>
             </div>
+            {renderedPlainContent && (
+              <div className="mt-4 rounded-xl border border-border/70 bg-background p-4 shadow-sm">
+                <div className="mb-2 text-xs font-medium text-muted-foreground">
+                  Plain text version
+                </div>
+                <pre
+                  className="whitespace-pre-wrap break-words font-mono text-sm"
+                  dir={activeDirection}
+                >
+                  {renderedPlainContent}
+                </pre>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Save, Settings2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SimpleLanguageSelect } from '@/components/simple-language-select';
+import { useLanguages } from '@/hooks/use-languages';
+import {
+  getTemplateSettingsQueryKey,
+  useTemplateSettings,
+} from '@/hooks/use-template-settings';
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  type LanguageCode,
+} from '@/lib/constants/languages';
+import type { TemplateSettings } from '@/lib/db/schema';
+
+interface TemplateSettingsDialogProps {
+  template: {
+    id: string;
+    name: string;
+  };
+}
+
+interface TemplateSettingsFormState {
+  sourceLanguage: LanguageCode;
+  targetLanguages: LanguageCode[];
+  // Language code -> comma-separated reviewer emails as typed
+  reviewers: Record<string, string>;
+  autoTranslate: boolean;
+  autoPublish: boolean;
+}
+
+function parseEmails(value: string) {
+  return value
+    .split(/[,;\s]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+}
+
+function toFormState(
+  settings: TemplateSettings | null
+): TemplateSettingsFormState {
+  return {
+    sourceLanguage: (settings?.sourceLanguage ??
+      DEFAULT_SOURCE_LANGUAGE) as LanguageCode,
+    targetLanguages: (settings?.targetLanguages ?? []) as LanguageCode[],
+    reviewers: Object.fromEntries(
+      Object.entries(settings?.reviewers ?? {}).map(([code, emails]) => [
+        code,
+        emails.join(', '),
+      ])
+    ),
+    autoTranslate: settings?.autoTranslate ?? false,
+    autoPublish: settings?.autoPublish ?? false,
+  };
+}
+
+export function TemplateSettingsDialog({
+  template,
+}: TemplateSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  // Null until the user edits, so the saved settings show when they load
+  const [form, setForm] = useState<TemplateSettingsFormState | null>(null);
+  const queryClient = useQueryClient();
+  const { enabledLanguages, getLanguageByCode } = useLanguages();
+  const { data: settings = null, isPending } = useTemplateSettings(template.id);
+
+  const values = form ?? toFormState(settings);
+
+  const updateForm = (patch: Partial<TemplateSettingsFormState>) =>
+    setForm({ ...values, ...patch });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<TemplateSettings> => {
+      const response = await fetch(
+        `/api/template-settings/${encodeURIComponent(template.id)}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...values,
+            templateName: template.name,
+            reviewers: Object.fromEntries(
+              Object.entries(values.reviewers).map(([code, emails]) => [
+                code,
+                parseEmails(emails),
+              ])
+            ),
+          }),
+        }
+      );
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to save template settings');
+      }
+
+      return result.data.settings;
+    },
+    onSuccess: (saved) => {
+      toast.success('Template settings saved');
+      queryClient.setQueryData(getTemplateSettingsQueryKey(template.id), saved);
+      setForm(null);
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const canSave =
+    !saveMutation.isPending &&
+    (!values.autoTranslate || values.targetLanguages.length > 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setForm(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-2 h-4 w-4" />
+          Template settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Settings for {template.name}</DialogTitle>
+          <DialogDescription>
+            Defaults used whenever this template is translated. With automatic
+            translation on, new or edited active versions in SendGrid are
+            translated on the next scheduled sync.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending ? (
+          <p className="text-sm text-muted-foreground">Loading settings…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-xs">Source language</Label>
+              <Select
+                value={values.sourceLanguage}
+                onValueChange={(code) =>
+                  updateForm({
+                    sourceLanguage: code as LanguageCode,
+                    targetLanguages: values.targetLanguages.filter(
+                      (lang) => lang !== code
+                    ),
+                  })
+                }
+                disabled={saveMutation.isPending}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {enabledLanguages.map((language) => (
+                    <SelectItem key={language.code} value={language.code}>
+                      {language.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Default target languages</Label>
+              <SimpleLanguageSelect
+                selectedLanguages={values.targetLanguages}
+                onSelectionChange={(targetLanguages) =>
+                  updateForm({ targetLanguages })
+                }
+                sourceLanguage={values.sourceLanguage}
+                disabled={saveMutation.isPending}
+              />
+            </div>
+
+            {values.targetLanguages.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs">Reviewers</Label>
+                <div className="space-y-2">
+                  {values.targetLanguages.map((code) => (
+                    <div key={code} className="flex items-center gap-2">
+                      <span className="w-28 shrink-0 truncate text-xs text-muted-foreground">
+                        {getLanguageByCode(code)?.name ?? code}
+                      </span>
+                      <Input
+                        value={values.reviewers[code] ?? ''}
+                        onChange={(event) =>
+                          updateForm({
+                            reviewers: {
+                              ...values.reviewers,
+                              [code]: event.target.value,
+                            },
+                          })
+                        }
+                        placeholder="reviewer@example.com"
+                        className="h-8 text-xs"
+                        disabled={saveMutation.isPending}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="template-auto-translate" className="text-sm">
+                  Translate new versions automatically
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {settings?.lastSyncedAt
+                    ? `Last synced ${new Date(settings.lastSyncedAt).toLocaleString()}`
+                    : 'Not synced yet'}
+                </p>
+              </div>
+              <Switch
+                id="template-auto-translate"
+                checked={values.autoTranslate}
+                onCheckedChange={(autoTranslate) =>
+                  updateForm({ autoTranslate })
+                }
+                disabled={saveMutation.isPending}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="template-auto-publish" className="text-sm">
+                  Publish finished translations automatically
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Languages with a reviewer, and translations with placeholder
+                  issues, still wait for someone to publish them.
+                </p>
+              </div>
+              <Switch
+                id="template-auto-publish"
+                checked={values.autoPublish}
+                onCheckedChange={(autoPublish) => updateForm({ autoPublish })}
+                disabled={saveMutation.isPending}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave}>
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? 'Saving…' : 'Save settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
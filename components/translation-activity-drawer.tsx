@@ -6,7 +6,9 @@ import { useUser } from '@clerk/nextjs';
 import {
   Activity,
   CheckCircle,
+  ChevronDown,
   Clock,
+  Layers,
   Loader2,
   PanelTopOpen,
   XCircle,
@@ -22,13 +24,17 @@ import {
   SheetTrigger,
 } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { Progress } from '@/components/ui/progress';
 import {
-  getLanguageByCode,
-  type LanguageCode,
-} from '@/lib/constants/languages';
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useLanguages } from '@/hooks/use-languages';
 import type {
   TemplateTranslation,
+  TranslationBatch,
   TranslationTask,
 } from '@/lib/db/schema';
 
@@ -37,10 +43,22 @@ interface TranslationTaskSummary {
   translations: TemplateTranslation[];
 }
 
+interface TranslationBatchSummary {
+  batch: TranslationBatch;
+  tasks: TranslationTask[];
+}
+
 interface TaskResponse {
   summaries: TranslationTaskSummary[];
+  batches: TranslationBatchSummary[];
 }
 
+const ACTIVE_STATUSES: TranslationTask['status'][] = [
+  'queued',
+  'processing',
+  'pending',
+];
+
 const STATUS_VARIANT: Record<TranslationTask['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
   completed: 'default',
   failed: 'destructive',
@@ -102,14 +120,44 @@ export function TranslationActivityDrawer() {
     250
   );
 
+  const debouncedBatches = useDebouncedValue<TranslationBatchSummary[]>(
+    data?.batches ?? [],
+    250
+  );
+
   const activeSummaries = useMemo(
     () =>
       debouncedSummaries.filter(({ task }) =>
-        ['queued', 'processing', 'pending'].includes(task.status)
+        ACTIVE_STATUSES.includes(task.status)
       ),
     [debouncedSummaries]
   );
 
+  const activeBatches = useMemo(
+    () =>
+      debouncedBatches.filter(({ batch }) =>
+        ACTIVE_STATUSES.includes(batch.status)
+      ),
+    [debouncedBatches]
+  );
+
+  const recentBatches = useMemo(
+    () =>
+      debouncedBatches.filter(({ batch }) =>
+        ['completed', 'failed'].includes(batch.status)
+      ),
+    [debouncedBatches]
+  );
+
+  // Batched tasks are listed under their batch but still refresh their template
+  const trackedTasks = useMemo(
+    () => [
+      ...debouncedSummaries.map(({ task }) => task),
+      ...debouncedBatches.flatMap(({ tasks }) => tasks),
+    ],
+    [debouncedSummaries, debouncedBatches]
+  );
+
   const recentSummaries = useMemo(
     () =>
       debouncedSummaries.filter(({ task }) =>
@@ -119,19 +167,19 @@ export function TranslationActivityDrawer() {
   );
 
   useEffect(() => {
-    if (!debouncedSummaries.length) {
+    if (!trackedTasks.length) {
       return;
     }
 
     if (!initializedStatuses.current) {
-      debouncedSummaries.forEach(({ task }) => {
+      trackedTasks.forEach((task) => {
         previousStatuses.current[task.id] = task.status;
       });
       initializedStatuses.current = true;
       return;
     }
 
-    debouncedSummaries.forEach(({ task }) => {
+    trackedTasks.forEach((task) => {
       const previousStatus = previousStatuses.current[task.id];
       if (previousStatus !== task.status) {
         previousStatuses.current[task.id] = task.status;
@@ -144,18 +192,16 @@ export function TranslationActivityDrawer() {
       }
     });
 
-    const currentTaskIds = new Set(
-      debouncedSummaries.map(({ task }) => task.id)
-    );
+    const currentTaskIds = new Set(trackedTasks.map((task) => task.id));
 
     Object.keys(previousStatuses.current).forEach((taskId) => {
       if (!currentTaskIds.has(taskId)) {
         delete previousStatuses.current[taskId];
       }
     });
-  }, [debouncedSummaries, queryClient]);
+  }, [trackedTasks, queryClient]);
 
-  const activeCount = activeSummaries.length;
+  const activeCount = activeSummaries.length + activeBatches.length;
 
   // Don't render the component if user is not signed in
   if (!isSignedIn) {
@@ -198,6 +244,23 @@ export function TranslationActivityDrawer() {
 
         <ScrollArea className="max-h-full">
           <div className="space-y-6 p-4">
+            {debouncedBatches.length > 0 && (
+              <section>
+                <header className="mb-3 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    Batches ({activeBatches.length} active)
+                  </h3>
+                </header>
+                <div className="space-y-3">
+                  {[...activeBatches, ...recentBatches].map(
+                    ({ batch, tasks }) => (
+                      <BatchCard key={batch.id} batch={batch} tasks={tasks} />
+                    )
+                  )}
+                </div>
+              </section>
+            )}
+
             <section>
               <header className="mb-3 flex items-center justify-between">
                 <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
@@ -256,6 +319,7 @@ interface TaskCardProps {
 }
 
 function TaskCard({ task, translations }: TaskCardProps) {
+  const { getLanguageByCode } = useLanguages();
   const languageBadges = useMemo(
     () =>
       task.targetLanguages.map((code) => (
@@ -263,7 +327,7 @@ function TaskCard({ task, translations }: TaskCardProps) {
           {getLanguageByCode(code)?.name ?? code}
         </Badge>
       )),
-    [task.id, task.targetLanguages]
+    [getLanguageByCode, task.id, task.targetLanguages]
   );
 
   const perLanguageStatuses = useMemo(() => {
@@ -274,7 +338,7 @@ function TaskCard({ task, translations }: TaskCardProps) {
     return (
       <div className="flex flex-wrap gap-1">
         {translations.map((translation) => {
-          const language = getLanguageByCode(translation.languageCode as LanguageCode);
+          const language = getLanguageByCode(translation.languageCode);
           const badgeVariant =
             translation.status === 'completed'
               ? 'secondary'
@@ -305,7 +369,7 @@ function TaskCard({ task, translations }: TaskCardProps) {
         })}
       </div>
     );
-  }, [translations]);
+  }, [getLanguageByCode, translations]);
 
   return (
     <div className="rounded-lg border bg-card p-4 shadow-sm">
@@ -354,3 +418,95 @@ function TaskCard({ task, translations }: TaskCardProps) {
     </div>
   );
 }
+
+interface BatchCardProps {
+  batch: TranslationBatch;
+  tasks: TranslationTask[];
+}
+
+function BatchCard({ batch, tasks }: BatchCardProps) {
+  const { getLanguageByCode } = useLanguages();
+  const finishedLanguages = batch.completedLanguages + batch.failedLanguages;
+  const progress =
+    batch.totalLanguages > 0
+      ? Math.round((finishedLanguages / batch.totalLanguages) * 100)
+      : 0;
+
+  return (
+    <div className="rounded-lg border bg-card p-4 shadow-sm">
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="flex items-center gap-2 text-sm font-semibold">
+              <Layers className="h-4 w-4 text-muted-foreground" />
+              {batch.name}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Started {formatUpdatedAt(batch.createdAt)}
+            </p>
+          </div>
+          <Badge
+            variant={STATUS_VARIANT[batch.status]}
+            className="flex items-center gap-1 capitalize"
+          >
+            {getStatusIcon(batch.status)}
+            {batch.status}
+          </Badge>
+        </div>
+
+        <Progress value={progress} className="h-2" />
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {batch.completedTemplates + batch.failedTemplates}/
+            {batch.totalTemplates} templates · {finishedLanguages}/
+            {batch.totalLanguages} translations
+          </span>
+          {batch.failedLanguages > 0 && (
+            <span className="text-destructive">
+              {batch.failedLanguages} failed
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-1 text-xs">
+          {batch.targetLanguages.map((code) => (
+            <Badge key={`${batch.id}-${code}`} variant="outline">
+              {getLanguageByCode(code)?.name ?? code}
+            </Badge>
+          ))}
+        </div>
+
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+              <ChevronDown className="h-3 w-3" />
+              {tasks.length} template{tasks.length === 1 ? '' : 's'}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="mt-2 divide-y rounded-md border">
+              {tasks.map((task) => (
+                <div
+                  key={task.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2 text-xs"
+                >
+                  <span className="truncate">{task.templateName}</span>
+                  <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                    {task.completedLanguages}/{task.totalLanguages}
+                    {task.failedLanguages > 0 && (
+                      <span className="text-destructive">
+                        {task.failedLanguages} failed
+                      </span>
+                    )}
+                    {getStatusIcon(task.status)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type { DiffChange, TranslationDiff } from '@/lib/types/translation';
+import { cn } from '@/lib/utils';
+
+interface TranslationDiffDialogProps {
+  translation: TemplateTranslation | null;
+  // Every version of the same template and language, newest first
+  versions: TemplateTranslation[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS = {
+  subject: 'Subject',
+  html: 'HTML',
+  plain: 'Plain text',
+} as const;
+
+function DiffText({
+  changes,
+  className,
+}: {
+  changes: DiffChange[];
+  className?: string;
+}) {
+  return (
+    <p className={cn('whitespace-pre-wrap break-words text-sm', className)}>
+      {changes.map((change, index) => (
+        <span
+          key={index}
+          className={cn(
+            change.type === 'added' &&
+              'bg-green-500/15 text-green-800 dark:text-green-300',
+            change.type === 'removed' &&
+              'bg-red-500/15 text-red-800 line-through dark:text-red-300'
+          )}
+        >
+          {change.value}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function getDefaultBaseId(
+  translation: TemplateTranslation | null,
+  candidates: TemplateTranslation[]
+) {
+  if (!translation) return '';
+  const older = candidates.find(
+    (candidate) => candidate.version < translation.version
+  );
+  return (older ?? candidates[0])?.id ?? '';
+}
+
+export function TranslationDiffDialog({
+  translation,
+  versions,
+  onOpenChange,
+}: TranslationDiffDialogProps) {
+  const candidates = versions.filter(
+    (version) => version.id !== translation?.id && version.translatedHtml
+  );
+  const [selectedBaseId, setSelectedBaseId] = useState<string | null>(null);
+  const baseId = selectedBaseId ?? getDefaultBaseId(translation, candidates);
+
+  const {
+    data: diff,
+    isPending,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ['translation-diff', translation?.id, baseId],
+    queryFn: async (): Promise<TranslationDiff> => {
+      const response = await fetch(
+        `/api/translations/translation/${translation!.id}/diff?base=${baseId}`,
+        { cache: 'no-store' }
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to compare versions');
+      }
+      return result.data.diff;
+    },
+    enabled: Boolean(translation && baseId),
+  });
+
+  return (
+    <Dialog
+      open={Boolean(translation)}
+      onOpenChange={(open) => {
+        if (!open) {
+          setSelectedBaseId(null);
+        }
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            Changes from the selected version to v{translation?.version}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Compare</span>
+          <Select value={baseId} onValueChange={setSelectedBaseId}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue placeholder="Select a version" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  v{candidate.version}
+                  {candidate.origin === 'human-edited' && ' (human-edited)'}
+                  {candidate.retranslateReason && ' (retranslated)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            with v{translation?.version}
+          </span>
+        </div>
+
+        {translation?.retranslateReason && (
+          <div className="rounded-md border bg-muted/30 p-2 text-xs text-muted-foreground">
+            Feedback for v{translation.version}: {translation.retranslateReason}
+          </div>
+        )}
+
+        {candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            There is no other version with translated content to compare.
+          </p>
+        )}
+        {baseId && isPending && (
+          <p className="text-sm text-muted-foreground">Comparing versions…</p>
+        )}
+        {isError && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {diff && (
+          <Tabs defaultValue="text">
+            <TabsList>
+              <TabsTrigger value="text">Text</TabsTrigger>
+              <TabsTrigger value="rendered">Rendered</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="text">
+              <ScrollArea className="h-[60vh] rounded-md border">
+                {diff.segments ? (
+                  <div className="divide-y">
+                    <p className="p-3 text-xs text-muted-foreground">
+                      {diff.segments.length} changed segment
+                      {diff.segments.length === 1 ? '' : 's'},{' '}
+                      {diff.unchangedSegments} unchanged
+                    </p>
+                    {diff.segments.map((segment) => (
+                      <div
+                        key={segment.id}
+                        className="grid gap-3 p-3 md:grid-cols-2"
+                      >
+                        <div className="space-y-1">
+                          <Badge variant="outline" className="text-[10px]">
+                            {FIELD_LABELS[segment.field]}
+                          </Badge>
+                          <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                            {segment.source}
+                          </p>
+                        </div>
+                        <DiffText changes={segment.changes} />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2 p-3">
+                    <p className="text-xs text-muted-foreground">
+                      These versions cannot be compared segment by segment, so
+                      the raw HTML is compared line by line.
+                    </p>
+                    <DiffText
+                      changes={diff.lines ?? []}
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="rendered">
+              <div className="grid gap-3 md:grid-cols-2">
+                {(['base', 'compare'] as const).map((side) => (
+                  <div key={side} className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      v{diff[side].version}
+                    </p>
+                    <iframe
+                      title={`Translation v${diff[side].version}`}
+                      srcDoc={diff.highlightedHtml[side]}
+                      sandbox=""
+                      className="h-[56vh] w-full rounded-md border bg-white"
+                    />
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import {
@@ -21,6 +21,15 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Languages,
   Play,
@@ -32,14 +41,29 @@ import {
   Copy,
   MoreHorizontal,
   Trash2,
+  Upload,
+  PencilLine,
+  GitCompare,
+  AlertTriangle,
 } from 'lucide-react';
 
+import { useLanguages } from '@/hooks/use-languages';
+import { useTemplateSettings } from '@/hooks/use-template-settings';
+import { useUserAccess } from '@/hooks/use-user-access';
 import {
-  getLanguageByCode,
+  DEFAULT_SOURCE_LANGUAGE,
   type LanguageCode,
 } from '@/lib/constants/languages';
+import type { TranslationEngineOption } from '@/lib/constants/translation-engines';
 import type { TranslationTask, TemplateTranslation } from '@/lib/db/schema';
+import { isTranslationOutdated } from '@/lib/translation/outdated';
 import { SimpleLanguageSelect } from './simple-language-select';
+import { PlaceholderIssueList } from './placeholder-issue-list';
+import { StyleGuideManager } from './style-guide-manager';
+import { TemplateSettingsDialog } from './template-settings-dialog';
+import { TranslationReviewDialog } from './translation-review-dialog';
+import { AuditTimeline } from './audit-timeline';
+import { TranslationDiffDialog } from './translation-diff-dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -55,7 +79,11 @@ interface SendGridTemplateVersion {
   active: number;
   name: string;
   html_content: string;
+  plain_content?: string;
+  generate_plain_content?: boolean;
   subject: string;
+  test_data?: string;
+  content_hash?: string;
 }
 
 interface SendGridTemplate {
@@ -76,6 +104,15 @@ interface TranslationData {
   translations: TemplateTranslation[];
 }
 
+type AvailableEngine = TranslationEngineOption & { available: boolean };
+
+// Select value for "no override"; each language then uses its configured engine
+const DEFAULT_ENGINE_VALUE = 'default';
+
+function getEngineValue(engine: TranslationEngineOption) {
+  return engine.model ? `${engine.provider}:${engine.model}` : engine.provider;
+}
+
 export function TranslationPanel({
   template,
   activeVersion,
@@ -85,12 +122,28 @@ export function TranslationPanel({
   const [selectedLanguages, setSelectedLanguages] = useState<LanguageCode[]>(
     []
   );
+  const [sourceLanguage, setSourceLanguage] = useState<LanguageCode>(
+    DEFAULT_SOURCE_LANGUAGE
+  );
+  const [selectedEngine, setSelectedEngine] = useState(DEFAULT_ENGINE_VALUE);
+  const [translateTestData, setTranslateTestData] = useState(false);
   const queryClient = useQueryClient();
+  const { enabledLanguages, getLanguageByCode } = useLanguages();
+  const { data: templateSettings } = useTemplateSettings(template.id);
+  const { can, canReview } = useUserAccess();
+  const canTranslate = can('translations:create');
+  const prefilledSettingsKey = useRef<string | null>(null);
   const [retranslateTarget, setRetranslateTarget] =
     useState<TemplateTranslation | null>(null);
   const [retranslateReason, setRetranslateReason] = useState('');
   const [deleteTarget, setDeleteTarget] =
     useState<TemplateTranslation | null>(null);
+  const [reviewTarget, setReviewTarget] =
+    useState<TemplateTranslation | null>(null);
+  const [compareTarget, setCompareTarget] = useState<{
+    translation: TemplateTranslation;
+    versions: TemplateTranslation[];
+  } | null>(null);
 
   // Fetch translation data
   const {
@@ -113,9 +166,49 @@ export function TranslationPanel({
     refetchOnWindowFocus: true,
   });
 
+  const { data: engines = [] } = useQuery({
+    queryKey: ['translation-engines'],
+    queryFn: async (): Promise<AvailableEngine[]> => {
+      const response = await fetch('/api/translations/providers');
+      if (!response.ok) throw new Error('Failed to fetch translation engines');
+      const result = await response.json();
+      return result.data.engines;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const hasTestData = Boolean(activeVersion.test_data?.trim());
+
+  // Saved defaults, minus languages that have been disabled since
+  const defaultTargetLanguages = useMemo(
+    () =>
+      (templateSettings?.targetLanguages ?? []).filter(
+        (code) => getLanguageByCode(code)?.enabled !== false
+      ) as LanguageCode[],
+    [templateSettings, getLanguageByCode]
+  );
+
+  // Prefill once per template, and again whenever its saved defaults change
+  useEffect(() => {
+    if (templateSettings === undefined) return;
+
+    const key = `${template.id}:${templateSettings?.updatedAt ?? 'none'}`;
+    if (prefilledSettingsKey.current === key) return;
+    prefilledSettingsKey.current = key;
+
+    setSourceLanguage(
+      (templateSettings?.sourceLanguage ??
+        DEFAULT_SOURCE_LANGUAGE) as LanguageCode
+    );
+    setSelectedLanguages(defaultTargetLanguages);
+  }, [template.id, templateSettings, defaultTargetLanguages]);
+
   // Start translation mutation
   const startTranslation = useMutation({
     mutationFn: async () => {
+      const engine = engines.find(
+        (option) => getEngineValue(option) === selectedEngine
+      );
       const response = await fetch('/api/translations/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -125,7 +218,14 @@ export function TranslationPanel({
           templateVersionId: activeVersion.id,
           htmlContent: activeVersion.html_content,
           subject: activeVersion.subject,
+          plainContent: activeVersion.plain_content,
+          generatePlainContent: activeVersion.generate_plain_content,
+          testData: activeVersion.test_data,
+          translateTestData: hasTestData && translateTestData,
+          sourceLanguage,
           targetLanguages: selectedLanguages,
+          provider: engine?.provider,
+          model: engine?.model ?? undefined,
         }),
       });
 
@@ -134,7 +234,7 @@ export function TranslationPanel({
     },
     onSuccess: () => {
       toast.success('Translation job started successfully');
-      setSelectedLanguages([]);
+      setSelectedLanguages(defaultTargetLanguages);
       queryClient.invalidateQueries({
         queryKey: ['translations', template.id],
       });
@@ -196,6 +296,57 @@ export function TranslationPanel({
     },
   });
 
+  const updateSourceMutation = useMutation({
+    mutationFn: async (translationId: string) => {
+      const response = await fetch('/api/translations/update-source', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ translationId }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to update translation';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Updating translation from the latest SendGrid copy');
+      queryClient.invalidateQueries({ queryKey: ['translations', template.id] });
+      queryClient.invalidateQueries({ queryKey: ['translation-source-hashes'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (translationId: string) => {
+      const response = await fetch('/api/translations/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ translationId }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const message = body?.error ?? 'Failed to publish translation';
+        throw new Error(message);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Translation published to SendGrid');
+      queryClient.invalidateQueries({ queryKey: ['translations', template.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (translationId: string) => {
       const response = await fetch(
@@ -226,6 +377,12 @@ export function TranslationPanel({
     },
   });
 
+  const handleSourceLanguageChange = useCallback((code: string) => {
+    const nextSource = code as LanguageCode;
+    setSourceLanguage(nextSource);
+    setSelectedLanguages((prev) => prev.filter((lang) => lang !== nextSource));
+  }, []);
+
   const handleStartTranslation = () => {
     if (selectedLanguages.length === 0) {
       toast.error('Please select at least one language');
@@ -323,7 +480,7 @@ export function TranslationPanel({
         const nameB = b.language?.name ?? b.code;
         return nameA.localeCompare(nameB);
       });
-  }, [translationsForVersion]);
+  }, [getLanguageByCode, translationsForVersion]);
 
   const formatTimestamp = useCallback((value: string | Date) => {
     return new Date(value).toLocaleString('en-US', {
@@ -368,6 +525,13 @@ export function TranslationPanel({
     [verifyMutation]
   );
 
+  const handlePublish = useCallback(
+    (translation: TemplateTranslation) => {
+      publishMutation.mutate(translation.id);
+    },
+    [publishMutation]
+  );
+
   const confirmDelete = useCallback(() => {
     if (!deleteTarget) return;
     deleteMutation.mutate(deleteTarget.id);
@@ -383,6 +547,16 @@ export function TranslationPanel({
         <CardDescription>
           Translate this template to different languages using AI
         </CardDescription>
+        <div className="flex flex-wrap gap-2">
+          <StyleGuideManager
+            template={{ id: template.id, name: template.name }}
+          />
+          {can('settings:manage') && (
+            <TemplateSettingsDialog
+              template={{ id: template.id, name: template.name }}
+            />
+          )}
+        </div>
       </CardHeader>
 
       <CardContent className="space-y-6">
@@ -393,14 +567,82 @@ export function TranslationPanel({
             <SimpleLanguageSelect
               selectedLanguages={selectedLanguages}
               onSelectionChange={setSelectedLanguages}
+              sourceLanguage={sourceLanguage}
               disabled={startTranslation.isPending}
             />
           </div>
 
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Source</span>
+            <Select
+              value={sourceLanguage}
+              onValueChange={handleSourceLanguageChange}
+              disabled={startTranslation.isPending}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {enabledLanguages.map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Engine</span>
+            <Select
+              value={selectedEngine}
+              onValueChange={setSelectedEngine}
+              disabled={startTranslation.isPending}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_ENGINE_VALUE}>
+                  Default for each language
+                </SelectItem>
+                {engines.map((engine) => (
+                  <SelectItem
+                    key={getEngineValue(engine)}
+                    value={getEngineValue(engine)}
+                    disabled={!engine.available}
+                  >
+                    {engine.label}
+                    {!engine.available && ' (not configured)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {hasTestData && (
+            <div className="flex items-center justify-between gap-2">
+              <Label
+                htmlFor="translate-test-data"
+                className="text-xs font-normal text-muted-foreground"
+              >
+                Localize preview test data
+              </Label>
+              <Switch
+                id="translate-test-data"
+                checked={translateTestData}
+                onCheckedChange={setTranslateTestData}
+                disabled={startTranslation.isPending}
+              />
+            </div>
+          )}
+
           <Button
             onClick={handleStartTranslation}
             disabled={
-              selectedLanguages.length === 0 || startTranslation.isPending
+              !canTranslate ||
+              selectedLanguages.length === 0 ||
+              startTranslation.isPending
             }
             className="w-full"
           >
@@ -416,6 +658,11 @@ export function TranslationPanel({
               </>
             )}
           </Button>
+          {!canTranslate && (
+            <p className="text-xs text-muted-foreground">
+              Your role can view translations but not start them.
+            </p>
+          )}
         </div>
 
         {isTranslationsError && (
@@ -446,7 +693,9 @@ export function TranslationPanel({
                 </div>
 
                 <div className="text-xs text-muted-foreground">
-                  Languages:{' '}
+                  {getLanguageByCode(task.sourceLanguage)?.name ||
+                    task.sourceLanguage}{' '}
+                  →{' '}
                   {task.targetLanguages
                     .map((code) => getLanguageByCode(code)?.name || code)
                     .join(', ')}
@@ -469,6 +718,10 @@ export function TranslationPanel({
             <div className="space-y-3">
               {languageGroups.map(({ code, language, versions }) => {
                 const latest = versions[0];
+                const latestOutdated = isTranslationOutdated(
+                  latest,
+                  template.versions
+                );
 
                 return (
                   <div key={code} className="space-y-3 rounded-lg border p-3">
@@ -493,12 +746,27 @@ export function TranslationPanel({
                             : `Status: ${latest.status}`}
                         </div>
                       </div>
-                      {latest.verifiedAt && (
-                        <Badge variant="secondary" className="flex items-center gap-1 text-xs">
-                          <CheckCircle className="h-3 w-3" />
-                          Verified
-                        </Badge>
-                      )}
+                      <div className="flex flex-wrap items-center justify-end gap-2">
+                        {latest.verifiedAt && (
+                          <Badge variant="secondary" className="flex items-center gap-1 text-xs">
+                            <CheckCircle className="h-3 w-3" />
+                            Verified
+                          </Badge>
+                        )}
+                        {latestOutdated && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 border-amber-500/50 text-xs text-amber-700 dark:text-amber-400"
+                            title="The SendGrid version changed after this translation was made"
+                            onClick={() => updateSourceMutation.mutate(latest.id)}
+                            disabled={!canTranslate || updateSourceMutation.isPending}
+                          >
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            Outdated · Update translation
+                          </Button>
+                        )}
+                      </div>
                     </div>
 
                     <div className="space-y-2">
@@ -511,9 +779,22 @@ export function TranslationPanel({
                         const canPreview = Boolean(
                           translation.translatedHtml && !isInProgress
                         );
+                        const canReviewLanguage = canReview(
+                          translation.languageCode,
+                          templateSettings?.reviewers
+                        );
                         const canVerify =
+                          canReviewLanguage &&
                           translation.status === 'completed' &&
                           !translation.verifiedAt;
+                        const canPublish = Boolean(
+                          translation.status === 'completed' &&
+                            translation.translatedHtml
+                        );
+                        const isOutdated = isTranslationOutdated(
+                          translation,
+                          template.versions
+                        );
 
                         return (
                           <div
@@ -557,6 +838,30 @@ export function TranslationPanel({
                                       <CheckCircle className="h-3 w-3" /> Verified
                                     </Badge>
                                   )}
+                                  {isOutdated && (
+                                    <Badge
+                                      variant="outline"
+                                      className="flex items-center gap-1 border-amber-500/50 text-[10px] text-amber-700 dark:text-amber-400"
+                                    >
+                                      <AlertTriangle className="h-3 w-3" /> Outdated
+                                    </Badge>
+                                  )}
+                                  {translation.origin === 'human-edited' && (
+                                    <Badge variant="outline" className="flex items-center gap-1 text-[10px]">
+                                      <PencilLine className="h-3 w-3" /> Human-edited
+                                    </Badge>
+                                  )}
+                                  {translation.publishedAt && (
+                                    <Badge
+                                      variant="outline"
+                                      className="flex items-center gap-1 text-[10px]"
+                                      title={
+                                        translation.sendgridVersionId ?? undefined
+                                      }
+                                    >
+                                      <Upload className="h-3 w-3" /> Published
+                                    </Badge>
+                                  )}
                                   {translation.retranslateAttempts > 0 && (
                                     <span className="text-xs text-muted-foreground">
                                       {translation.retranslateAttempts} retranslate
@@ -567,8 +872,41 @@ export function TranslationPanel({
 
                                 <div className="text-xs text-muted-foreground">
                                   Updated {formatTimestamp(translation.updatedAt)}
+                                  {translation.provider &&
+                                    ` · ${translation.provider}${
+                                      translation.model ? ` (${translation.model})` : ''
+                                    }`}
+                                  {translation.estimatedCost != null &&
+                                    ` · ${(
+                                      (translation.inputTokens ?? 0) + (translation.outputTokens ?? 0)
+                                    ).toLocaleString()} tokens, ~$${translation.estimatedCost.toFixed(4)}`}
                                 </div>
 
+                                {translation.memoryStats &&
+                                  translation.memoryStats.totalSegments > 0 && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {`Memory: ${translation.memoryStats.exactMatches}/${translation.memoryStats.totalSegments} segments reused`}
+                                      {translation.memoryStats.fuzzyMatches > 0 &&
+                                        `, ${translation.memoryStats.fuzzyMatches} fuzzy`}
+                                      {Boolean(translation.memoryStats.unchangedSegments) &&
+                                        `, ${translation.memoryStats.unchangedSegments} unchanged kept from the previous version`}
+                                    </div>
+                                  )}
+
+                                {translation.styleGuideSnapshot &&
+                                  translation.styleGuideSnapshot.length > 0 && (
+                                    <div
+                                      className="text-xs text-muted-foreground"
+                                      title={translation.styleGuideSnapshot
+                                        .map((guide) => guide.instructions)
+                                        .join('\n\n')}
+                                    >
+                                      {`Style guide: ${translation.styleGuideSnapshot
+                                        .map((guide) => guide.scope)
+                                        .join(' + ')}`}
+                                    </div>
+                                  )}
+
                                 {translation.retranslateReason && (
                                   <div className="text-xs text-muted-foreground/80">
                                     Last feedback: {translation.retranslateReason}
@@ -580,6 +918,36 @@ export function TranslationPanel({
                                     Error: {translation.errorMessage}
                                   </div>
                                 )}
+
+                                {translation.validationIssues &&
+                                  translation.validationIssues.length > 0 && (
+                                    <PlaceholderIssueList
+                                      issues={translation.validationIssues}
+                                    />
+                                  )}
+
+                                {translation.glossaryIssues &&
+                                  translation.glossaryIssues.length > 0 && (
+                                    <div className="space-y-1 rounded-md border border-amber-500/40 bg-amber-500/5 p-2 text-xs">
+                                      <p className="font-medium text-amber-700 dark:text-amber-400">
+                                        Glossary not followed
+                                      </p>
+                                      {translation.glossaryIssues.map((issue) => (
+                                        <div
+                                          key={`${issue.termId}-${issue.field}`}
+                                          className="text-muted-foreground"
+                                        >
+                                          &ldquo;{issue.sourceTerm}&rdquo; should
+                                          read &ldquo;{issue.expected}&rdquo;
+                                          {issue.field === 'subject'
+                                            ? ' in the subject'
+                                            : issue.field === 'plain'
+                                              ? ' in the plain-text version'
+                                              : ''}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
                               </div>
 
                               <DropdownMenu>
@@ -609,7 +977,34 @@ export function TranslationPanel({
                                   >
                                     <Copy className="mr-2 h-4 w-4" /> Copy HTML
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onSelect={() => {
+                                      setCompareTarget({ translation, versions });
+                                    }}
+                                    disabled={
+                                      !translation.translatedHtml ||
+                                      versions.filter(
+                                        (version) => version.translatedHtml
+                                      ).length < 2
+                                    }
+                                  >
+                                    <GitCompare className="mr-2 h-4 w-4" /> Compare
+                                    Versions
+                                  </DropdownMenuItem>
                                   <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    onSelect={() => {
+                                      setReviewTarget(translation);
+                                    }}
+                                    disabled={
+                                      !canPublish ||
+                                      !can('translations:edit') ||
+                                      deleteMutation.isPending
+                                    }
+                                  >
+                                    <PencilLine className="mr-2 h-4 w-4" /> Review &amp;
+                                    Edit
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onSelect={() => {
                                       setRetranslateTarget(translation);
@@ -618,6 +1013,7 @@ export function TranslationPanel({
                                       );
                                     }}
                                     disabled={
+                                      !canTranslate ||
                                       isInProgress ||
                                       retranslateMutation.isPending ||
                                       deleteMutation.isPending
@@ -626,6 +1022,21 @@ export function TranslationPanel({
                                     <RefreshCw className="mr-2 h-4 w-4" /> Request
                                     Retranslate
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onSelect={() => {
+                                      updateSourceMutation.mutate(translation.id);
+                                    }}
+                                    disabled={
+                                      !canTranslate ||
+                                      !isOutdated ||
+                                      isInProgress ||
+                                      updateSourceMutation.isPending ||
+                                      deleteMutation.isPending
+                                    }
+                                  >
+                                    <AlertTriangle className="mr-2 h-4 w-4" /> Update
+                                    Translation
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onSelect={() => {
                                       handleVerify(translation);
@@ -641,13 +1052,32 @@ export function TranslationPanel({
                                       ? 'Verified'
                                       : 'Mark as Verified'}
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onSelect={() => {
+                                      handlePublish(translation);
+                                    }}
+                                    disabled={
+                                      !canPublish ||
+                                      !canReviewLanguage ||
+                                      publishMutation.isPending ||
+                                      deleteMutation.isPending
+                                    }
+                                  >
+                                    <Upload className="mr-2 h-4 w-4" />
+                                    {translation.publishedAt
+                                      ? 'Republish to SendGrid'
+                                      : 'Publish to SendGrid'}
+                                  </DropdownMenuItem>
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem
                                     onSelect={() => {
                                       setDeleteTarget(translation);
                                     }}
                                     className="text-destructive focus:text-destructive"
-                                    disabled={deleteMutation.isPending}
+                                    disabled={
+                                      !can('translations:delete') ||
+                                      deleteMutation.isPending
+                                    }
                                   >
                                     <Trash2 className="mr-2 h-4 w-4" /> Delete
                                   </DropdownMenuItem>
@@ -677,6 +1107,29 @@ export function TranslationPanel({
             </div>
           )}
 
+        {/* Audit Trail */}
+        <AuditTimeline templateId={template.id} />
+
+        <TranslationReviewDialog
+          translation={reviewTarget}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReviewTarget(null);
+            }
+          }}
+          onSaved={(saved) => onTranslationSelect?.(saved)}
+        />
+
+        <TranslationDiffDialog
+          translation={compareTarget?.translation ?? null}
+          versions={compareTarget?.versions ?? []}
+          onOpenChange={(open) => {
+            if (!open) {
+              setCompareTarget(null);
+            }
+          }}
+        />
+
         <Dialog
           open={Boolean(retranslateTarget)}
           onOpenChange={(open) => {
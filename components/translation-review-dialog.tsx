@@ -0,0 +1,236 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Save, Undo2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useLanguages } from '@/hooks/use-languages';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type { ReviewSegment } from '@/lib/types/translation';
+import { cn } from '@/lib/utils';
+
+interface TranslationReviewDialogProps {
+  translation: TemplateTranslation | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (translation: TemplateTranslation) => void;
+}
+
+const FIELD_LABELS: Record<ReviewSegment['field'], string> = {
+  subject: 'Subject',
+  html: 'HTML',
+  plain: 'Plain text',
+};
+
+export function TranslationReviewDialog({
+  translation,
+  onOpenChange,
+  onSaved,
+}: TranslationReviewDialogProps) {
+  const queryClient = useQueryClient();
+  const { getLanguageByCode } = useLanguages();
+  // Segment id -> reviewer text, only for segments touched in this session
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const language = translation
+    ? getLanguageByCode(translation.languageCode)
+    : undefined;
+
+  const {
+    data: segments = [],
+    isPending,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ['translation-review', translation?.id],
+    queryFn: async (): Promise<ReviewSegment[]> => {
+      const response = await fetch(
+        `/api/translations/translation/${translation!.id}/segments`,
+        { cache: 'no-store' }
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to load segments');
+      }
+      return result.data.segments;
+    },
+    enabled: Boolean(translation),
+  });
+
+  const changedSegments = useMemo(
+    () =>
+      segments.filter(
+        (segment) =>
+          drafts[segment.id] !== undefined &&
+          drafts[segment.id].trim() !== segment.target
+      ),
+    [segments, drafts]
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<TemplateTranslation> => {
+      const response = await fetch(
+        `/api/translations/translation/${translation!.id}/segments`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            segments: changedSegments.map((segment) => ({
+              id: segment.id,
+              text: drafts[segment.id],
+            })),
+          }),
+        }
+      );
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to save edits');
+      }
+
+      return result.data.translation;
+    },
+    onSuccess: (saved) => {
+      toast.success(`Edits saved as v${saved.version}`);
+      setDrafts({});
+      queryClient.invalidateQueries({
+        queryKey: ['translations', saved.templateId],
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const hasEmptyDraft = changedSegments.some(
+    (segment) => !drafts[segment.id].trim()
+  );
+  const canSave =
+    changedSegments.length > 0 && !hasEmptyDraft && !saveMutation.isPending;
+
+  return (
+    <Dialog
+      open={Boolean(translation)}
+      onOpenChange={(open) => {
+        if (!open) {
+          setDrafts({});
+        }
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            Review {language?.name ?? translation?.languageCode}
+            {translation && ` v${translation.version}`}
+          </DialogTitle>
+          <DialogDescription>
+            Source and translated segments side by side. Saving creates a new
+            human-edited version; markup and untouched segments are kept as they
+            are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[60vh] rounded-md border">
+          <div className="divide-y">
+            {isPending && (
+              <p className="p-4 text-sm text-muted-foreground">
+                Loading segments…
+              </p>
+            )}
+            {isError && (
+              <p className="p-4 text-sm text-destructive">{error.message}</p>
+            )}
+            {segments.map((segment) => {
+              const value = drafts[segment.id] ?? segment.target;
+              const isChanged = changedSegments.includes(segment);
+
+              return (
+                <div
+                  key={segment.id}
+                  className={cn(
+                    'grid gap-3 p-3 md:grid-cols-2',
+                    isChanged && 'bg-amber-500/5'
+                  )}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-1">
+                      <Badge variant="outline" className="text-[10px]">
+                        {FIELD_LABELS[segment.field]}
+                      </Badge>
+                      {segment.id.startsWith('a') && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          alt / title
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="whitespace-pre-wrap text-sm">
+                      {segment.source}
+                    </p>
+                  </div>
+                  <div className="flex items-start gap-1">
+                    <Textarea
+                      value={value}
+                      dir={language?.direction ?? 'ltr'}
+                      rows={Math.min(6, Math.ceil(value.length / 60) || 1)}
+                      onChange={(event) =>
+                        setDrafts((prev) => ({
+                          ...prev,
+                          [segment.id]: event.target.value,
+                        }))
+                      }
+                      className="min-h-0 text-sm"
+                      disabled={saveMutation.isPending}
+                    />
+                    {isChanged && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 shrink-0 p-0"
+                        title="Revert"
+                        onClick={() =>
+                          setDrafts((prev) => {
+                            const next = { ...prev };
+                            delete next[segment.id];
+                            return next;
+                          })
+                        }
+                      >
+                        <Undo2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="flex items-center justify-between gap-2 sm:justify-between">
+          <span className="text-xs text-muted-foreground">
+            {changedSegments.length} segment
+            {changedSegments.length === 1 ? '' : 's'} changed
+          </span>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave}>
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? 'Saving…' : 'Save as new version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
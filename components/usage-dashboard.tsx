@@ -0,0 +1,334 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Coins, Save } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useLanguages } from '@/hooks/use-languages';
+import { useUserAccess } from '@/hooks/use-user-access';
+import type { UsageReport, UsageTotals } from '@/lib/types/translation';
+
+const currency = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const count = new Intl.NumberFormat('en-US');
+
+function formatMonth(month: string) {
+  return new Date(`${month}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function UsageTable({
+  label,
+  rows,
+}: {
+  label: string;
+  rows: Array<UsageTotals & { key: string; name: string }>;
+}) {
+  if (rows.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        No machine translations in this period.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Runs</TableHead>
+          <TableHead className="text-right">Input tokens</TableHead>
+          <TableHead className="text-right">Output tokens</TableHead>
+          <TableHead className="text-right">Est. cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="max-w-64 truncate">{row.name}</TableCell>
+            <TableCell className="text-right">
+              {count.format(row.translations)}
+            </TableCell>
+            <TableCell className="text-right">
+              {count.format(row.inputTokens)}
+            </TableCell>
+            <TableCell className="text-right">
+              {count.format(row.outputTokens)}
+            </TableCell>
+            <TableCell className="text-right font-medium">
+              {currency.format(row.estimatedCost)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function UsageDashboard() {
+  const [open, setOpen] = useState(false);
+  // YYYY-MM; null follows the current month
+  const [month, setMonth] = useState<string | null>(null);
+  // Null until the user edits, so the saved limit shows when it loads
+  const [limitDraft, setLimitDraft] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { getLanguageByCode } = useLanguages();
+  const { can } = useUserAccess();
+  const canManageBudget = can('settings:manage');
+
+  const {
+    data: report,
+    isPending,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ['usage-report', month],
+    queryFn: async (): Promise<UsageReport> => {
+      const params = month ? `?month=${month}` : '';
+      const response = await fetch(`/api/usage${params}`, {
+        cache: 'no-store',
+      });
+      if (!response.ok) throw new Error('Failed to fetch usage');
+      const result = await response.json();
+      return result.data.report;
+    },
+    enabled: open,
+  });
+
+  const budgetMutation = useMutation({
+    mutationFn: async (monthlyLimit: number | null) => {
+      const response = await fetch('/api/usage/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monthlyLimit }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to update budget');
+      }
+
+      return result.data.budget;
+    },
+    onSuccess: () => {
+      toast.success('Budget updated');
+      setLimitDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['usage-report'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const budget = report?.budget;
+  const limitValue =
+    limitDraft ??
+    (budget?.monthlyLimit != null ? `${budget.monthlyLimit}` : '');
+  const parsedLimit = limitValue.trim() === '' ? null : Number(limitValue);
+  const limitIsValid =
+    parsedLimit === null || (Number.isFinite(parsedLimit) && parsedLimit >= 0);
+  const budgetProgress = budget?.monthlyLimit
+    ? Math.min(100, (budget.spentThisMonth / budget.monthlyLimit) * 100)
+    : 0;
+
+  const monthOptions = report?.byMonth.map((entry) => entry.month.slice(0, 7));
+  const selectedMonth = report?.month.slice(0, 7) ?? '';
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setLimitDraft(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <Coins className="mr-2 h-4 w-4" />
+          Usage & costs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Usage & costs</DialogTitle>
+          <DialogDescription>
+            Tokens and estimated provider cost of machine translations, based on
+            list prices. Human edits and translation memory reuse are free.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending && (
+          <p className="text-sm text-muted-foreground">Loading usage…</p>
+        )}
+        {isError && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {report && budget && (
+          <div className="space-y-4">
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex items-end justify-between gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">This month</p>
+                  <p className="text-2xl font-semibold">
+                    {currency.format(budget.spentThisMonth)}
+                  </p>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="monthly-budget" className="text-xs">
+                      Monthly budget (USD)
+                    </Label>
+                    <Input
+                      id="monthly-budget"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={limitValue}
+                      onChange={(event) => setLimitDraft(event.target.value)}
+                      placeholder="No limit"
+                      className="h-8 w-32 text-sm"
+                      disabled={!canManageBudget || budgetMutation.isPending}
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => budgetMutation.mutate(parsedLimit)}
+                    disabled={
+                      !canManageBudget ||
+                      limitDraft === null ||
+                      !limitIsValid ||
+                      budgetMutation.isPending
+                    }
+                  >
+                    <Save className="mr-2 h-4 w-4" />
+                    Save
+                  </Button>
+                </div>
+              </div>
+              {budget.monthlyLimit !== null && (
+                <div className="space-y-1">
+                  <Progress value={budgetProgress} className="h-2" />
+                  <p
+                    className={
+                      budget.exceeded
+                        ? 'text-xs text-destructive'
+                        : 'text-xs text-muted-foreground'
+                    }
+                  >
+                    {budget.exceeded
+                      ? 'Budget reached. New translation tasks are blocked until next month or until the limit is raised.'
+                      : `${currency.format(
+                          budget.monthlyLimit - budget.spentThisMonth
+                        )} left this month`}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <Tabs defaultValue="template">
+              <div className="flex items-center justify-between gap-2">
+                <TabsList>
+                  <TabsTrigger value="template">By template</TabsTrigger>
+                  <TabsTrigger value="language">By language</TabsTrigger>
+                  <TabsTrigger value="month">By month</TabsTrigger>
+                </TabsList>
+                <Select
+                  value={selectedMonth}
+                  onValueChange={(value) => setMonth(value)}
+                >
+                  <SelectTrigger className="h-8 w-44 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      new Set([selectedMonth, ...(monthOptions ?? [])])
+                    ).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {formatMonth(`${option}-01`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <ScrollArea className="mt-2 h-[45vh] rounded-md border">
+                <TabsContent value="template" className="m-0">
+                  <UsageTable
+                    label="Template"
+                    rows={report.byTemplate.map((row) => ({
+                      ...row,
+                      key: row.templateId,
+                      name: row.templateName,
+                    }))}
+                  />
+                </TabsContent>
+                <TabsContent value="language" className="m-0">
+                  <UsageTable
+                    label="Language"
+                    rows={report.byLanguage.map((row) => ({
+                      ...row,
+                      key: row.languageCode,
+                      name:
+                        getLanguageByCode(row.languageCode)?.name ??
+                        row.languageCode,
+                    }))}
+                  />
+                </TabsContent>
+                <TabsContent value="month" className="m-0">
+                  <UsageTable
+                    label="Month"
+                    rows={report.byMonth.map((row) => ({
+                      ...row,
+                      key: row.month,
+                      name: formatMonth(row.month),
+                    }))}
+                  />
+                </TabsContent>
+              </ScrollArea>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Building2, Plus } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUserAccess } from '@/hooks/use-user-access';
+import { WORKSPACES_QUERY_KEY, useWorkspaces } from '@/hooks/use-workspaces';
+import type { UserRoleRecord } from '@/lib/db/schema';
+import type { WorkspaceSummary } from '@/lib/types/workspace';
+
+async function sendJson(url: string, method: string, body: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result?.error ?? 'Request failed');
+  }
+
+  return result.data;
+}
+
+export function WorkspaceManager() {
+  const [open, setOpen] = useState(false);
+  // Null follows the active workspace
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const queryClient = useQueryClient();
+  const { can } = useUserAccess();
+  const { workspaces, activeWorkspace } = useWorkspaces();
+  const canManage = can('settings:manage');
+  const canManageMembers = can('users:manage');
+
+  const selected =
+    workspaces.find((workspace) => workspace.id === selectedId) ??
+    activeWorkspace ??
+    workspaces[0] ??
+    null;
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: async (): Promise<UserRoleRecord[]> => {
+      const response = await fetch('/api/users', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch users');
+      const result = await response.json();
+      return result.data.users;
+    },
+    enabled: open && canManageMembers,
+  });
+
+  const membersQueryKey = ['workspace-members', selected?.id];
+  const { data: memberIds = [], isPending: membersPending } = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: async (): Promise<string[]> => {
+      const response = await fetch(`/api/workspaces/${selected!.id}/members`, {
+        cache: 'no-store',
+      });
+      if (!response.ok) throw new Error('Failed to fetch members');
+      const result = await response.json();
+      return result.data.userIds;
+    },
+    enabled: open && canManageMembers && Boolean(selected),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<WorkspaceSummary> => {
+      const data = await sendJson('/api/workspaces', 'POST', {
+        name: newName.trim(),
+        sendgridApiKey: newKey.trim() || undefined,
+      });
+      return data.workspace;
+    },
+    onSuccess: (workspace) => {
+      toast.success(`Created ${workspace.name}`);
+      setNewName('');
+      setNewKey('');
+      setSelectedId(workspace.id);
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const memberMutation = useMutation({
+    mutationFn: async (variables: { userId: string; member: boolean }) =>
+      sendJson(`/api/workspaces/${selected!.id}/members`, 'PUT', variables),
+    onSuccess: (data) => {
+      queryClient.setQueryData(membersQueryKey, data.userIds);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setSelectedId(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start">
+          <Building2 className="mr-2 h-4 w-4" />
+          Workspaces
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Workspaces</DialogTitle>
+          <DialogDescription>
+            Each workspace holds one client&apos;s SendGrid account, along with
+            its translations, template settings, memory and budget. Manage its
+            keys under API keys.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 rounded-md border p-3">
+            <Label className="text-xs">New workspace</Label>
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                placeholder="Client name"
+                className="h-8 text-sm"
+                disabled={createMutation.isPending}
+              />
+              <Input
+                type="password"
+                value={newKey}
+                onChange={(event) => setNewKey(event.target.value)}
+                placeholder="SendGrid API key (optional)"
+                className="h-8 text-sm"
+                autoComplete="off"
+                disabled={createMutation.isPending}
+              />
+              <Button
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={!newName.trim() || createMutation.isPending}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Create
+              </Button>
+            </div>
+          </div>
+
+          {selected && (
+            <div className="space-y-4 rounded-md border p-3">
+              <Select value={selected.id} onValueChange={setSelectedId}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {canManageMembers && (
+                <div className="space-y-2">
+                  <Label className="text-xs">Members</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Admins can open every workspace; other roles only see the
+                    workspaces they are added to.
+                  </p>
+                  {membersPending ? (
+                    <p className="text-xs text-muted-foreground">
+                      Loading members…
+                    </p>
+                  ) : (
+                    <ScrollArea className="h-48 rounded-md border">
+                      <div className="space-y-1 p-2">
+                        {users.map((user) => (
+                          <label
+                            key={user.userId}
+                            className="flex items-center gap-2 rounded px-1 py-1 text-sm"
+                          >
+                            <Checkbox
+                              checked={memberIds.includes(user.userId)}
+                              onCheckedChange={(checked) =>
+                                memberMutation.mutate({
+                                  userId: user.userId,
+                                  member: checked === true,
+                                })
+                              }
+                              disabled={memberMutation.isPending}
+                            />
+                            <span className="truncate">
+                              {user.email ?? user.userId}
+                            </span>
+                            {user.role === 'admin' && (
+                              <Badge variant="outline" className="text-[10px]">
+                                Admin
+                              </Badge>
+                            )}
+                          </label>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Building2 } from 'lucide-react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useWorkspaces } from '@/hooks/use-workspaces';
+import { useTemplateManager } from '@/providers/template-manager-context';
+import type { WorkspaceSummary } from '@/lib/types/workspace';
+
+/**
+ * Switches the client account every panel reads from. Everything cached for
+ * the previous workspace is refetched, templates included.
+ */
+export function WorkspaceSwitcher() {
+  const queryClient = useQueryClient();
+  const { workspaces, activeWorkspace, isPending } = useWorkspaces();
+  const { setSelectedTemplate, reloadTemplates } = useTemplateManager();
+
+  const switchMutation = useMutation({
+    mutationFn: async (workspaceId: string): Promise<WorkspaceSummary> => {
+      const response = await fetch('/api/workspaces/active', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to switch workspace');
+      }
+
+      return result.data.workspace;
+    },
+    onSuccess: async (workspace) => {
+      setSelectedTemplate(null);
+      await queryClient.invalidateQueries();
+      await reloadTemplates();
+      if (workspace.hasSendGridApiKey) {
+        toast.success(`Switched to ${workspace.name}`);
+      } else {
+        toast.warning(`${workspace.name} has no SendGrid API key yet`);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (isPending || workspaces.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={activeWorkspace?.id}
+      onValueChange={(workspaceId) => switchMutation.mutate(workspaceId)}
+      disabled={workspaces.length < 2 || switchMutation.isPending}
+    >
+      <SelectTrigger className="h-9 text-sm">
+        <div className="flex min-w-0 items-center gap-2">
+          <Building2 className="h-4 w-4 shrink-0" />
+          <SelectValue placeholder="Choose a workspace" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Language } from '@/lib/constants/languages';
+
+export const LANGUAGES_QUERY_KEY = ['languages'];
+
+/**
+ * Reads the language catalog. `enabledLanguages` feeds pickers, while
+ * `getLanguageByCode` also resolves disabled languages so existing
+ * translations keep their display names.
+ */
+export function useLanguages() {
+  const { data: languages = [], isPending } = useQuery({
+    queryKey: LANGUAGES_QUERY_KEY,
+    queryFn: async (): Promise<Language[]> => {
+      const response = await fetch('/api/languages', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch languages');
+      const result = await response.json();
+      return result.data.languages;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const languagesByCode = useMemo(
+    () => new Map(languages.map((language) => [language.code, language])),
+    [languages]
+  );
+
+  const enabledLanguages = useMemo(
+    () => languages.filter((language) => language.enabled),
+    [languages]
+  );
+
+  const getLanguageByCode = useCallback(
+    (code: string): Language | undefined => languagesByCode.get(code),
+    [languagesByCode]
+  );
+
+  return { languages, enabledLanguages, getLanguageByCode, isPending };
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { TemplateSettings } from '@/lib/db/schema';
+
+export function getTemplateSettingsQueryKey(templateId: string) {
+  return ['template-settings', templateId];
+}
+
+/**
+ * Reads a template's saved localization settings. Resolves to null for
+ * templates whose settings have never been saved.
+ */
+export function useTemplateSettings(templateId: string) {
+  return useQuery({
+    queryKey: getTemplateSettingsQueryKey(templateId),
+    queryFn: async (): Promise<TemplateSettings | null> => {
+      const response = await fetch(
+        `/api/template-settings/${encodeURIComponent(templateId)}`,
+        { cache: 'no-store' }
+      );
+      if (!response.ok) throw new Error('Failed to fetch template settings');
+      const result = await response.json();
+      return result.data.settings;
+    },
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  canReviewLanguage,
+  type Permission,
+  type UserAccess,
+} from '@/lib/constants/roles';
+
+export const USER_ACCESS_QUERY_KEY = ['user-access'];
+
+interface UserAccessResponse {
+  access: UserAccess;
+  permissions: Permission[];
+}
+
+/**
+ * The signed-in user's role. Until it loads every check fails closed; the API
+ * enforces the same rules, so this only decides what the UI offers.
+ */
+export function useUserAccess() {
+  const { data, isPending } = useQuery({
+    queryKey: USER_ACCESS_QUERY_KEY,
+    queryFn: async (): Promise<UserAccessResponse> => {
+      const response = await fetch('/api/users/me', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch user access');
+      const result = await response.json();
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const can = useCallback(
+    (permission: Permission) => data?.permissions.includes(permission) ?? false,
+    [data]
+  );
+
+  const canReview = useCallback(
+    (
+      languageCode: string,
+      templateReviewers?: Record<string, string[]> | null
+    ) =>
+      data
+        ? canReviewLanguage(data.access, languageCode, templateReviewers)
+        : false,
+    [data]
+  );
+
+  return {
+    access: data?.access ?? null,
+    isPending,
+    can,
+    canReview,
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { WorkspaceSummary } from '@/lib/types/workspace';
+
+export const WORKSPACES_QUERY_KEY = ['workspaces'];
+
+interface WorkspacesResponse {
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+}
+
+/**
+ * Workspaces the signed-in user can switch between, and the one their
+ * requests are currently scoped to.
+ */
+export function useWorkspaces() {
+  const { data, isPending } = useQuery({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: async (): Promise<WorkspacesResponse> => {
+      const response = await fetch('/api/workspaces', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Failed to fetch workspaces');
+      const result = await response.json();
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const workspaces = data?.workspaces ?? [];
+
+  return {
+    workspaces,
+    activeWorkspace:
+      workspaces.find(
+        (workspace) => workspace.id === data?.activeWorkspaceId
+      ) ?? null,
+    isPending,
+  };
+}
@@ -0,0 +1,189 @@
+import { inngest } from './client';
+import { dbService } from '@/lib/services/db-service';
+import { sendgridService } from '@/lib/services/sendgrid-service';
+import { resolveSecretById } from '@/lib/services/secrets';
+import { hashSendGridVersion } from '@/lib/translation/source-hash';
+import {
+  findUnsupportedLanguages,
+  queueTranslationTask,
+} from '@/lib/translation/queue';
+import { formatBudgetExceeded, getBudgetStatus } from '@/lib/translation/usage';
+
+// Every 30 minutes unless overridden, e.g. "0 * * * *" for hourly
+const TEMPLATE_SYNC_CRON = process.env.TEMPLATE_SYNC_CRON || '*/30 * * * *';
+
+type TemplateSyncResult =
+  | { templateId: string; status: 'skipped'; reason: string }
+  | { templateId: string; status: 'unchanged' | 'up-to-date' }
+  | {
+      templateId: string;
+      status: 'queued';
+      taskId: string;
+      languages: string[];
+    };
+
+/**
+ * Queues a translation of the template's active version into each configured
+ * language that has no translation of the current copy yet. Languages that
+ * are already covered are left alone, so re-running a sync never duplicates
+ * work.
+ */
+async function syncTemplate(
+  workspaceId: string,
+  templateId: string
+): Promise<TemplateSyncResult> {
+  const settings = await dbService.templateSettings.findByTemplateId(
+    workspaceId,
+    templateId
+  );
+
+  if (!settings?.autoTranslate) {
+    return { templateId, status: 'skipped', reason: 'Auto-translate is off' };
+  }
+
+  // Resolved here rather than passed in so the key never lands in step state
+  const apiKey = await resolveSecretById(workspaceId, 'sendgrid');
+  if (!apiKey) {
+    return {
+      templateId,
+      status: 'skipped',
+      reason: 'Workspace has no SendGrid API key',
+    };
+  }
+
+  const template = await sendgridService.getTemplate(apiKey, templateId);
+  const version = template?.versions.find((item) => item.active === 1);
+
+  if (!template || !version) {
+    return {
+      templateId,
+      status: 'skipped',
+      reason: template ? 'No active version' : 'Template not found',
+    };
+  }
+
+  if (!version.html_content?.trim()) {
+    return { templateId, status: 'skipped', reason: 'No HTML content' };
+  }
+
+  const hash = hashSendGridVersion(version);
+
+  if (
+    version.id === settings.lastSyncedVersionId &&
+    hash === settings.lastSyncedHash
+  ) {
+    return { templateId, status: 'unchanged' };
+  }
+
+  const unsupported = new Set(
+    await findUnsupportedLanguages(settings.targetLanguages)
+  );
+  const translations = await dbService.templateTranslations.findByTemplateId(
+    workspaceId,
+    templateId
+  );
+  const coveredLanguages = new Set(
+    translations
+      .filter(
+        (translation) =>
+          translation.templateVersionId === version.id &&
+          translation.sourceHash === hash &&
+          translation.status !== 'failed'
+      )
+      .map((translation) => translation.languageCode)
+  );
+
+  const languages = settings.targetLanguages.filter(
+    (code) =>
+      code !== settings.sourceLanguage &&
+      !unsupported.has(code) &&
+      !coveredLanguages.has(code)
+  );
+
+  let taskId: string | null = null;
+
+  if (languages.length > 0) {
+    const task = await queueTranslationTask({
+      workspaceId,
+      templateId: template.id,
+      templateName: template.name,
+      templateVersionId: version.id,
+      htmlContent: version.html_content,
+      subject: version.subject,
+      plainContent: version.plain_content,
+      generatePlainContent: version.generate_plain_content,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguages: languages,
+      actor: null,
+    });
+    taskId = task.id;
+  }
+
+  await dbService.templateSettings.markSynced(workspaceId, templateId, {
+    versionId: version.id,
+    hash,
+    templateName: template.name,
+  });
+
+  return taskId
+    ? { templateId, status: 'queued', taskId, languages }
+    : { templateId, status: 'up-to-date' };
+}
+
+export const syncTemplates = inngest.createFunction(
+  {
+    id: 'sync-templates',
+    name: 'Sync SendGrid Templates',
+    // A slow run must not overlap the next tick and queue the same version twice
+    concurrency: {
+      limit: 1,
+    },
+  },
+  { cron: TEMPLATE_SYNC_CRON },
+  async ({ step }) => {
+    const templatesByWorkspace = await step.run(
+      'load-opted-in-templates',
+      async () => {
+        const settings = await dbService.templateSettings.listAutoTranslate();
+        return settings.reduce<Record<string, string[]>>((acc, entry) => {
+          acc[entry.workspaceId] = [
+            ...(acc[entry.workspaceId] ?? []),
+            entry.templateId,
+          ];
+          return acc;
+        }, {});
+      }
+    );
+
+    const results: TemplateSyncResult[] = [];
+
+    for (const [workspaceId, templateIds] of Object.entries(
+      templatesByWorkspace
+    )) {
+      const budget = await step.run(`check-budget-${workspaceId}`, () =>
+        getBudgetStatus(workspaceId)
+      );
+      if (budget.exceeded) {
+        console.warn(
+          `Skipping template sync for workspace ${workspaceId}: ${formatBudgetExceeded(budget)}`
+        );
+        continue;
+      }
+
+      // One step per template so a SendGrid error only retries that template
+      for (const templateId of templateIds) {
+        const result = await step.run(`sync-${workspaceId}-${templateId}`, () =>
+          syncTemplate(workspaceId, templateId)
+        );
+        results.push(result);
+      }
+    }
+
+    const queued = results.filter((result) => result.status === 'queued');
+    console.log(
+      `Template sync checked ${results.length} templates, queued ${queued.length}`
+    );
+
+    return { synced: results.length, results };
+  }
+);
@@ -1,9 +1,50 @@
 import { inngest } from './client';
-import { generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { z } from 'zod';
-import { getLanguageByCode } from '@/lib/constants/languages';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
 import { dbService } from '@/lib/services/db-service';
+import {
+  summarizePlaceholderIssues,
+  validatePlaceholders,
+} from '@/lib/translation/placeholder-validator';
+import {
+  buildGlossaryPrompt,
+  checkGlossaryCompliance,
+} from '@/lib/translation/glossary';
+import {
+  assembleHtml,
+  assemblePlainText,
+  batchSegments,
+  isTranslatableText,
+  segmentHtml,
+  segmentPlainText,
+  SUBJECT_SEGMENT_ID,
+  type TextSegment,
+} from '@/lib/translation/segments';
+import {
+  ingestTranslationHistory,
+  lookupMemory,
+  storeMemory,
+} from '@/lib/translation/memory';
+import { applyTextDirection } from '@/lib/translation/direction';
+import { hashTranslationSource } from '@/lib/translation/source-hash';
+import { carryOverUnchangedSegments } from '@/lib/translation/incremental';
+import {
+  assembleTestData,
+  segmentTestData,
+} from '@/lib/translation/test-data';
+import { buildFormalityInstruction } from '@/lib/translation/languages';
+import {
+  buildStyleGuidePrompt,
+  resolveStyleGuideTone,
+  toAppliedStyleGuides,
+} from '@/lib/translation/style-guides';
+import {
+  resolveTranslationEngine,
+  type ResolvedTranslationEngine,
+} from '@/lib/translation/providers';
+import { publishTranslation } from '@/lib/translation/publish';
+import { resolveSecretById } from '@/lib/services/secrets';
+import { recordAuditEvent, translationTarget } from '@/lib/translation/audit';
+import { emptyUsage, estimateTranslationCost } from '@/lib/translation/usage';
 import type { LanguageCode } from '@/lib/constants/languages';
 
 interface TranslateLanguageEvent {
@@ -14,19 +55,17 @@ interface TranslateLanguageEvent {
     languageCode: LanguageCode;
     htmlContent: string;
     subject: string;
+    plainContent?: string;
     totalLanguages: number;
     translationId?: string;
     reason?: string;
+    // Set when updating to new source copy; unchanged segments keep its wording
+    baseTranslationId?: string;
   };
 }
 
-const translationOutputSchema = z.object({
-  html: z
-    .string()
-    .describe('The translated HTML with structure and Handlebars intact'),
-  subject: z.string().describe('The translated email subject line'),
-  notes: z.array(z.string()).optional().describe('Optional translation notes'),
-});
+// Keeps each provider response well inside the model's output limit
+const SEGMENT_BATCH_LIMITS = { maxSegments: 60, maxCharacters: 6000 };
 
 type TranslationOutcome =
   | {
@@ -43,11 +82,111 @@ type TranslationOutcome =
       errorMessage: string;
     };
 
+/**
+ * Publishes a finished translation when its template opts into auto-publish.
+ * Languages with an assigned reviewer, and translations with placeholder
+ * issues, are left for a person to publish.
+ */
+async function publishIfEligible(
+  templateId: string,
+  translationId: string
+): Promise<{ published: boolean; reason?: string }> {
+  const translation = await dbService.templateTranslations.findById(
+    translationId
+  );
+
+  if (!translation) {
+    return { published: false, reason: 'Translation is not completed' };
+  }
+
+  const settings = await dbService.templateSettings.findByTemplateId(
+    translation.workspaceId,
+    templateId
+  );
+
+  if (!settings?.autoPublish) {
+    return { published: false, reason: 'Auto-publish is off' };
+  }
+
+  if (
+    translation.deletedAt ||
+    translation.status !== 'completed' ||
+    !translation.translatedHtml
+  ) {
+    return { published: false, reason: 'Translation is not completed' };
+  }
+
+  if (translation.validationIssues?.length) {
+    return { published: false, reason: 'Translation has placeholder issues' };
+  }
+
+  if (settings.reviewers[translation.languageCode]?.length) {
+    return { published: false, reason: 'Awaiting review' };
+  }
+
+  const apiKey = await resolveSecretById(translation.workspaceId, 'sendgrid');
+  const task = await dbService.translationTasks.findById(translation.taskId);
+
+  if (!apiKey || !task) {
+    return { published: false, reason: 'SendGrid is not configured' };
+  }
+
+  const version = await publishTranslation(
+    apiKey,
+    { ...translation, translatedHtml: translation.translatedHtml },
+    task.templateName
+  );
+
+  await recordAuditEvent(null, {
+    action: 'translation.published',
+    ...translationTarget(translation),
+    payload: { sendgridVersionId: version.id, automatic: true },
+  });
+
+  console.log(
+    `Auto-published ${translation.languageCode} translation ${translation.id}`
+  );
+
+  return { published: true };
+}
+
+// A failed publish leaves the translation for a person to publish; it must
+// not fail the step, or the task's completion check would never run
+async function autoPublishTranslation(
+  templateId: string,
+  translationId: string
+): Promise<{ published: boolean; reason?: string }> {
+  try {
+    return await publishIfEligible(templateId, translationId);
+  } catch (error) {
+    console.error(
+      `Auto-publish failed for translation ${translationId}:`,
+      error
+    );
+    return {
+      published: false,
+      reason: `Auto-publish failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
+
+async function markTaskProcessing(taskId: string): Promise<void> {
+  await dbService.translationTasks.updateStatus(taskId, 'processing');
+
+  const task = await dbService.translationTasks.findById(taskId);
+  if (task?.batchId) {
+    await dbService.translationBatches.syncProgress(task.batchId);
+  }
+}
+
 async function finalizeTaskStatus(
   taskId: string,
   totalLanguages: number
 ): Promise<void> {
   await dbService.translationTasks.syncCounts(taskId);
+  await dbService.translationTasks.syncUsage(taskId);
 
   const task = await dbService.translationTasks.findById(taskId);
 
@@ -56,6 +195,10 @@ async function finalizeTaskStatus(
     return;
   }
 
+  if (task.batchId) {
+    await dbService.translationBatches.syncProgress(task.batchId);
+  }
+
   const expectedTotal = task.totalLanguages ?? totalLanguages;
   const totalCompleted = task.completedLanguages + task.failedLanguages;
 
@@ -84,6 +227,10 @@ async function finalizeTaskStatus(
     errorMessage
   );
 
+  if (task.batchId) {
+    await dbService.translationBatches.syncProgress(task.batchId);
+  }
+
   console.log(
     `All translations finalized for task ${taskId} (${task.completedLanguages} success, ${task.failedLanguages} failed)`
   );
@@ -94,16 +241,20 @@ async function runTranslation({
   languageCode,
   htmlContent,
   subject,
+  plainContent,
   reason,
   translationId,
+  baseTranslationId,
   isRetranslate,
 }: {
   taskId: string;
   languageCode: LanguageCode;
   htmlContent: string;
   subject: string;
+  plainContent?: string | null;
   reason?: string;
   translationId?: string;
+  baseTranslationId?: string;
   isRetranslate: boolean;
 }): Promise<TranslationOutcome> {
   if (!translationId) {
@@ -121,57 +272,341 @@ async function runTranslation({
   await dbService.templateTranslations.update(translationRecord.id, {
     status: 'processing',
     errorMessage: null,
+    validationIssues: null,
+    glossaryIssues: null,
+    memoryStats: null,
     retranslateReason: reason ?? translationRecord.retranslateReason,
     updatedAt: new Date(),
   });
   await dbService.translationTasks.syncCounts(taskId);
 
-  const targetLanguage = getLanguageByCode(languageCode);
+  const targetLanguage = await dbService.languages.findByCode(languageCode);
   if (!targetLanguage) {
     throw new Error(`Unsupported language code: ${languageCode}`);
   }
 
+  const task = await dbService.translationTasks.findById(taskId);
+  const sourceLanguage = task?.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE;
+  const sourceLanguageRecord = await dbService.languages.findByCode(
+    sourceLanguage
+  );
+  const sourceLanguageName = sourceLanguageRecord?.name ?? sourceLanguage;
+
   const instructions = reason
     ? `\n\nADDITIONAL CONTEXT FROM REVIEWER:\n${reason}`
     : '';
 
+  const glossaryTerms = await dbService.glossaryTerms.list(
+    translationRecord.workspaceId
+  );
+  const glossaryInstructions = buildGlossaryPrompt(
+    glossaryTerms,
+    languageCode,
+    `${subject}\n${htmlContent}\n${plainContent ?? ''}`
+  );
+
+  const formalityInstruction = buildFormalityInstruction(
+    targetLanguage.formality
+  );
+
+  const styleGuideSnapshot = toAppliedStyleGuides(
+    await dbService.styleGuides.findApplicable(
+      translationRecord.workspaceId,
+      languageCode,
+      translationRecord.templateId
+    )
+  );
+  const tone = resolveStyleGuideTone(styleGuideSnapshot);
+  const styleGuideInstructions = buildStyleGuidePrompt(styleGuideSnapshot);
+
   const systemPrompt = `You are a professional email template translator specializing in SendGrid dynamic templates.
 
 CRITICAL RULES:
 1. NEVER translate or modify Handlebars variables like {{name}}, {{email}}, {{unsubscribe_url}}
-2. NEVER translate or modify HTML tags, attributes, CSS classes, or IDs
+2. NEVER add HTML tags; segments are plain text extracted from the markup
 3. NEVER translate URLs, email addresses, or links
-4. Preserve all HTML structure and formatting exactly
-5. Translate ONLY human-readable text content and subject line
-6. Maintain professional email tone and marketing language
-7. Keep translations concise and natural for ${targetLanguage.name}
+4. Keep every Handlebars expression inside the segment it appears in
+5. Translate ONLY human-readable text content, the plain-text body, subject line and sample test data values
+6. ${tone ? `Write in this tone: ${tone}` : 'Maintain professional email tone and marketing language'}
+7. Keep translations concise and natural for ${targetLanguage.name}${
+    formalityInstruction ? `\n8. ${formalityInstruction}` : ''
+  }
+
+Translate the email template from ${sourceLanguageName} to ${targetLanguage.name} (${targetLanguage.nativeName}).${styleGuideInstructions}${glossaryInstructions}${instructions}`;
+
+  const previousTranslation =
+    await dbService.templateTranslations.findLatestCompletedByTemplateAndLanguage(
+      translationRecord.workspaceId,
+      translationRecord.templateId,
+      languageCode,
+      translationRecord.id
+    );
+  if (previousTranslation) {
+    // Stored under the language that run translated from, which may differ
+    const previousTask =
+      previousTranslation.taskId === taskId
+        ? task
+        : await dbService.translationTasks.findById(
+            previousTranslation.taskId
+          );
+    await ingestTranslationHistory(
+      previousTranslation,
+      previousTask?.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE
+    );
+  }
+
+  const document = segmentHtml(htmlContent);
+  const segments: TextSegment[] = [...document.segments];
+  if (isTranslatableText(subject)) {
+    segments.push({ id: SUBJECT_SEGMENT_ID, text: subject.trim() });
+  }
+  const plainDocument = plainContent ? segmentPlainText(plainContent) : null;
+  if (plainDocument) {
+    segments.push(...plainDocument.segments);
+  }
+  const testDataDocument = task?.testData
+    ? segmentTestData(task.testData)
+    : null;
+  if (testDataDocument) {
+    segments.push(...testDataDocument.segments);
+  }
+
+  const baseTranslation = baseTranslationId
+    ? await dbService.templateTranslations.findById(baseTranslationId)
+    : undefined;
+  const translations = baseTranslation
+    ? carryOverUnchangedSegments({
+        previous: baseTranslation,
+        html: document,
+        subject,
+        plain: plainDocument,
+        testData: testDataDocument,
+      })
+    : new Map<string, string>();
+  const unchangedSegments = translations.size;
+
+  const memory = await lookupMemory({
+    workspaceId: translationRecord.workspaceId,
+    sourceLanguage,
+    languageCode,
+    segments: segments.filter((segment) => !translations.has(segment.id)),
+  });
+
+  // Reviewer feedback asks for different wording, so exact matches are only
+  // offered as references instead of being reused verbatim
+  const reusedEntryIds: string[] = [];
+  if (!reason) {
+    memory.exact.forEach((entry, segmentId) => {
+      translations.set(segmentId, entry.targetText);
+      reusedEntryIds.push(entry.id);
+    });
+  } else {
+    memory.exact.forEach((entry, segmentId) => {
+      memory.fuzzy.set(segmentId, { entry, score: 1 });
+    });
+  }
+
+  const pendingSegments = segments.filter(
+    (segment) => !translations.has(segment.id)
+  );
 
-Translate the email template from English to ${targetLanguage.name} (${targetLanguage.nativeName}).${instructions}`;
+  const memoryStats = {
+    totalSegments: segments.length,
+    exactMatches:
+      segments.length - pendingSegments.length - unchangedSegments,
+    fuzzyMatches: pendingSegments.filter((segment) =>
+      memory.fuzzy.has(segment.id)
+    ).length,
+    modelSegments: pendingSegments.length,
+    ...(baseTranslation ? { unchangedSegments } : {}),
+  };
+
+  // Resolved inside the try, so a misconfigured engine fails the run instead
+  // of leaving it in processing
+  let engine: ResolvedTranslationEngine | null = null;
+  const runMetadata = () => ({
+    provider: engine?.provider.id ?? null,
+    model: engine?.model ?? null,
+    styleGuideSnapshot:
+      styleGuideSnapshot.length > 0 ? styleGuideSnapshot : null,
+  });
+
+  const usage = emptyUsage();
+  let latencyMs = 0;
+  // Recorded on failed runs too, since the provider calls were still billed
+  const usageMetadata = () => ({
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs,
+    estimatedCost: engine
+      ? estimateTranslationCost(engine.provider.id, engine.model, usage)
+      : null,
+  });
 
   try {
-    const translationResult = await generateObject({
-      model: openai('gpt-5'),
-      system: systemPrompt,
-      prompt: `Translate this SendGrid email template:
+    engine = resolveTranslationEngine(languageCode, {
+      provider: task?.provider,
+      model: task?.model,
+    });
 
-HTML:
-${htmlContent}
+    if (pendingSegments.length > 0) {
+      const apiKey = engine.provider.credential
+        ? await resolveSecretById(
+            translationRecord.workspaceId,
+            engine.provider.credential
+          )
+        : null;
+      if (!engine.provider.isAvailable(apiKey !== null)) {
+        throw new Error(
+          `Translation provider "${engine.provider.id}" is not configured`
+        );
+      }
 
-SUBJECT:
-${subject}
+      for (const batch of batchSegments(
+        pendingSegments,
+        SEGMENT_BATCH_LIMITS
+      )) {
+        const startedAt = Date.now();
+        const translationResult = await engine.provider.translateSegments({
+          segments: batch,
+          references: memory.fuzzy,
+          sourceLanguage,
+          targetLanguage: {
+            code: languageCode,
+            name: targetLanguage.name,
+            nativeName: targetLanguage.nativeName,
+            formality: targetLanguage.formality,
+          },
+          instructions: systemPrompt,
+          model: engine.model,
+          apiKey,
+        });
+        latencyMs += Date.now() - startedAt;
+        usage.inputTokens += translationResult.usage?.inputTokens ?? 0;
+        usage.outputTokens += translationResult.usage?.outputTokens ?? 0;
+        usage.characters += translationResult.usage?.characters ?? 0;
+
+        const returned = new Map(
+          translationResult.segments.map((segment) => [
+            segment.id,
+            segment.text,
+          ])
+        );
+        const missing = batch.filter((segment) => !returned.has(segment.id));
+        if (missing.length > 0) {
+          throw new Error(
+            `${engine.provider.id} response omitted ${missing.length} segment${
+              missing.length === 1 ? '' : 's'
+            }: ${missing.map((segment) => segment.id).join(', ')}`
+          );
+        }
+
+        batch.forEach((segment) => {
+          translations.set(segment.id, returned.get(segment.id)!);
+        });
+      }
+    }
 
-Provide clean translations while preserving all technical elements.`,
-      schema: translationOutputSchema,
+    const translatedHtml = applyTextDirection(
+      assembleHtml(document, translations),
+      {
+        from: sourceLanguageRecord?.direction ?? 'ltr',
+        to: targetLanguage.direction,
+        languageCode,
+      }
+    );
+    const translatedSubject = translations.get(SUBJECT_SEGMENT_ID) ?? subject;
+    const translatedPlainContent = plainDocument
+      ? assemblePlainText(plainDocument, translations)
+      : null;
+    const translatedTestData = testDataDocument
+      ? assembleTestData(testDataDocument, translations)
+      : null;
+
+    const validation = validatePlaceholders({
+      originalHtml: htmlContent,
+      translatedHtml,
+      originalSubject: subject,
+      translatedSubject,
+      originalPlainContent: plainContent,
+      translatedPlainContent,
+    });
+
+    if (!validation.valid) {
+      const errorMessage = summarizePlaceholderIssues(validation.issues);
+
+      // Keep the rejected output so reviewers can inspect what went wrong
+      await dbService.templateTranslations.update(translationRecord.id, {
+        translatedHtml,
+        translatedSubject,
+        translatedPlainContent,
+        translatedTestData,
+        status: 'failed',
+        errorMessage,
+        validationIssues: validation.issues,
+        memoryStats,
+        ...runMetadata(),
+        ...usageMetadata(),
+        retranslateReason: reason ?? translationRecord.retranslateReason,
+      });
+      await dbService.translationTasks.syncCounts(taskId);
+
+      console.error(
+        `Translation for ${languageCode} in task ${taskId} failed placeholder validation:`,
+        validation.issues
+      );
+
+      return {
+        success: false,
+        languageCode,
+        translationId: translationRecord.id,
+        retranslated: isRetranslate,
+        errorMessage,
+      };
+    }
+
+    // Terminology drift is surfaced to reviewers rather than failing the run,
+    // since inflected forms can legitimately differ from the glossary entry
+    const glossaryIssues = checkGlossaryCompliance({
+      terms: glossaryTerms,
+      languageCode,
+      originalHtml: htmlContent,
+      translatedHtml,
+      originalSubject: subject,
+      translatedSubject,
+      originalPlainContent: plainContent,
+      translatedPlainContent,
     });
 
     await dbService.templateTranslations.update(translationRecord.id, {
-      translatedHtml: translationResult.object.html,
-      translatedSubject: translationResult.object.subject,
+      translatedHtml,
+      translatedSubject,
+      translatedPlainContent,
+      translatedTestData,
+      glossaryIssues: glossaryIssues.length > 0 ? glossaryIssues : null,
+      memoryStats,
+      ...runMetadata(),
+      ...usageMetadata(),
       status: 'completed',
       retranslateReason: reason ?? translationRecord.retranslateReason,
     });
     await dbService.translationTasks.syncCounts(taskId);
 
+    await storeMemory({
+      workspaceId: translationRecord.workspaceId,
+      sourceLanguage,
+      languageCode,
+      pairs: pendingSegments.map((segment) => ({
+        source: segment.text,
+        target: translations.get(segment.id)!,
+      })),
+      templateId: translationRecord.templateId,
+      translationId: translationRecord.id,
+      // Retranslations replace the wording the reviewer rejected
+      overwrite: Boolean(reason),
+    });
+    await dbService.translationMemory.recordUsage(reusedEntryIds);
+
     return {
       success: true,
       languageCode,
@@ -185,6 +620,8 @@ Provide clean translations while preserving all technical elements.`,
     await dbService.templateTranslations.update(translationRecord.id, {
       status: 'failed',
       errorMessage,
+      ...runMetadata(),
+      ...usageMetadata(),
       retranslateReason: reason ?? translationRecord.retranslateReason,
     });
     await dbService.translationTasks.syncCounts(taskId);
@@ -222,6 +659,7 @@ export const translateLanguage = inngest.createFunction(
       languageCode,
       htmlContent,
       subject,
+      plainContent,
       totalLanguages,
     } = event.data as TranslateLanguageEvent['data'];
 
@@ -230,7 +668,7 @@ export const translateLanguage = inngest.createFunction(
     );
 
     await step.run('mark-task-processing', async () => {
-      await dbService.translationTasks.updateStatus(taskId, 'processing');
+      await markTaskProcessing(taskId);
     });
 
     const { translationId } = await step.run(
@@ -246,19 +684,32 @@ export const translateLanguage = inngest.createFunction(
           return { translationId: existing.id };
         }
 
+        const task = await dbService.translationTasks.findById(taskId);
+        if (!task) {
+          throw new Error(`Task ${taskId} not found`);
+        }
+
         const nextVersion = await dbService.templateTranslations.getNextVersion(
+          task.workspaceId,
           templateId,
           templateVersionId,
           languageCode
         );
 
         const created = await dbService.templateTranslations.create({
+          workspaceId: task.workspaceId,
           taskId,
           templateId,
           templateVersionId,
           languageCode,
           originalHtml: htmlContent,
           originalSubject: subject,
+          originalPlainContent: plainContent ?? null,
+          sourceHash: hashTranslationSource({
+            html: htmlContent,
+            subject,
+            plainContent,
+          }),
           status: 'processing',
           version: nextVersion,
         });
@@ -275,12 +726,19 @@ export const translateLanguage = inngest.createFunction(
         languageCode,
         htmlContent,
         subject,
+        plainContent,
         translationId,
         reason: undefined,
         isRetranslate: false,
       });
     });
 
+    if (result.success) {
+      await step.run(`auto-publish-${languageCode}`, async () => {
+        return await autoPublishTranslation(templateId, result.translationId);
+      });
+    }
+
     // Check if all translations are complete - WITH PROPER SYNCHRONIZATION
     await step.run('check-completion', async () => {
       // Use a small delay to avoid race conditions with database updates
@@ -311,9 +769,11 @@ export const retranslateLanguage = inngest.createFunction(
       languageCode,
       htmlContent,
       subject,
+      plainContent,
       totalLanguages,
       translationId,
       reason,
+      baseTranslationId,
     } = event.data as TranslateLanguageEvent['data'];
 
     console.log(
@@ -321,7 +781,7 @@ export const retranslateLanguage = inngest.createFunction(
     );
 
     await step.run('mark-task-processing', async () => {
-      await dbService.translationTasks.updateStatus(taskId, 'processing');
+      await markTaskProcessing(taskId);
     });
 
     const { translationId: resolvedTranslationId } = await step.run(
@@ -349,12 +809,20 @@ export const retranslateLanguage = inngest.createFunction(
         languageCode,
         htmlContent,
         subject,
+        plainContent,
         translationId: resolvedTranslationId,
         reason,
+        baseTranslationId,
         isRetranslate: true,
       });
     });
 
+    if (result.success) {
+      await step.run(`auto-publish-${languageCode}`, async () => {
+        return await autoPublishTranslation(templateId, result.translationId);
+      });
+    }
+
     await step.run('retranslate-check-completion', async () => {
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { currentUser } from '@clerk/nextjs/server';
+import { getUserAccess } from '@/lib/auth/access';
+import { dbService } from '@/lib/services/db-service';
+import type { UserRoleRecord } from '@/lib/db/schema';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+vi.mock('@/lib/services/db-service', () => ({
+  dbService: {
+    userRoles: {
+      findByUserId: vi.fn(),
+      countAdmins: vi.fn(),
+      createIfMissing: vi.fn(),
+    },
+    workspaces: { findBySlug: vi.fn(), addMember: vi.fn() },
+  },
+}));
+
+function signUp(email: string) {
+  vi.mocked(currentUser).mockResolvedValue({
+    id: 'user-1',
+    primaryEmailAddress: { emailAddress: email },
+  } as never);
+}
+
+describe('getUserAccess', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_EMAILS', 'Owner@example.com, ops@example.com');
+    vi.stubEnv('DEFAULT_USER_ROLE', '');
+    vi.mocked(dbService.userRoles.findByUserId).mockResolvedValue(undefined);
+    vi.mocked(dbService.userRoles.countAdmins).mockResolvedValue(0);
+    vi.mocked(dbService.userRoles.createIfMissing).mockImplementation(
+      async (data) =>
+        ({ ...data, reviewLanguages: [] }) as unknown as UserRoleRecord
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('registers emails listed in ADMIN_EMAILS as admins', async () => {
+    signUp('owner@example.com');
+
+    const access = await getUserAccess('user-1');
+
+    expect(access.role).toBe('admin');
+  });
+
+  it('does not make a new user admin just because no admin exists', async () => {
+    signUp('someone@example.com');
+
+    const access = await getUserAccess('user-1');
+
+    expect(access.role).toBe('viewer');
+    expect(dbService.userRoles.createIfMissing).toHaveBeenCalledWith({
+      userId: 'user-1',
+      email: 'someone@example.com',
+      role: 'viewer',
+    });
+  });
+
+  it('returns the stored role for users it has seen before', async () => {
+    vi.mocked(dbService.userRoles.findByUserId).mockResolvedValue({
+      userId: 'user-1',
+      email: 'owner@example.com',
+      role: 'reviewer',
+      reviewLanguages: ['de'],
+    } as UserRoleRecord);
+
+    const access = await getUserAccess('user-1');
+
+    expect(access).toEqual({
+      userId: 'user-1',
+      email: 'owner@example.com',
+      role: 'reviewer',
+      reviewLanguages: ['de'],
+    });
+    expect(dbService.userRoles.createIfMissing).not.toHaveBeenCalled();
+  });
+});
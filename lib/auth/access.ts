@@ -0,0 +1,67 @@
+import { currentUser } from '@clerk/nextjs/server';
+import { dbService } from '@/lib/services/db-service';
+import {
+  isUserRole,
+  type UserAccess,
+  type UserRole,
+} from '@/lib/constants/roles';
+import { DEFAULT_WORKSPACE_SLUG } from '@/lib/constants/workspaces';
+import type { UserRoleRecord } from '@/lib/db/schema';
+
+function parseAdminEmails() {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function getDefaultRole(): UserRole {
+  const role = process.env.DEFAULT_USER_ROLE?.trim();
+  return role && isUserRole(role) ? role : 'viewer';
+}
+
+export function toUserAccess(record: UserRoleRecord): UserAccess {
+  return {
+    userId: record.userId,
+    email: record.email,
+    role: record.role,
+    reviewLanguages: record.reviewLanguages,
+  };
+}
+
+/**
+ * Resolves the role of a signed-in user, registering them on first sight.
+ * Only emails listed in ADMIN_EMAILS start as admins, so neither concurrent
+ * first sign-ins nor a deployment that lost its last admin can hand admin to
+ * whoever signs up next; everyone else gets DEFAULT_USER_ROLE. New users join
+ * the default workspace until an admin adds them to others.
+ */
+export async function getUserAccess(userId: string): Promise<UserAccess> {
+  const existing = await dbService.userRoles.findByUserId(userId);
+  if (existing) {
+    return toUserAccess(existing);
+  }
+
+  const user = await currentUser();
+  const email =
+    user?.id === userId
+      ? (user.primaryEmailAddress?.emailAddress.toLowerCase() ?? null)
+      : null;
+
+  const isBootstrapAdmin = email !== null && parseAdminEmails().includes(email);
+
+  const record = await dbService.userRoles.createIfMissing({
+    userId,
+    email,
+    role: isBootstrapAdmin ? 'admin' : getDefaultRole(),
+  });
+
+  const defaultWorkspace = await dbService.workspaces.findBySlug(
+    DEFAULT_WORKSPACE_SLUG
+  );
+  if (defaultWorkspace) {
+    await dbService.workspaces.addMember(defaultWorkspace.id, record.userId);
+  }
+
+  return toUserAccess(record);
+}
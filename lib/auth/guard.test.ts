@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withRouteGuard, withUserRouteGuard } from '@/lib/auth/guard';
+import { dbService } from '@/lib/services/db-service';
+import { WORKSPACE_COOKIE } from '@/lib/constants/workspaces';
+import type { UserRole } from '@/lib/constants/roles';
+import type { UserRoleRecord, Workspace } from '@/lib/db/schema';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+vi.mock('@/lib/services/db-service', () => ({
+  dbService: {
+    userRoles: { findByUserId: vi.fn() },
+    workspaces: { list: vi.fn(), listForUser: vi.fn() },
+    secrets: { listForWorkspaces: vi.fn() },
+  },
+}));
+
+const defaultWorkspace = {
+  id: 'workspace-default',
+  name: 'Default',
+  slug: 'default',
+} as Workspace;
+
+const clientWorkspace = {
+  id: 'workspace-client',
+  name: 'Client',
+  slug: 'client',
+} as Workspace;
+
+function signIn(role: UserRole) {
+  vi.mocked(auth).mockResolvedValue({ userId: 'user-1' } as never);
+  vi.mocked(dbService.userRoles.findByUserId).mockResolvedValue({
+    userId: 'user-1',
+    email: 'user@example.com',
+    role,
+    reviewLanguages: [],
+  } as unknown as UserRoleRecord);
+}
+
+function buildRequest(activeWorkspaceId?: string) {
+  return new NextRequest('http://localhost/api/test', {
+    headers: activeWorkspaceId
+      ? { cookie: `${WORKSPACE_COOKIE}=${activeWorkspaceId}` }
+      : {},
+  });
+}
+
+const context = { params: Promise.resolve({ id: 'item-1' }) };
+
+describe('withUserRouteGuard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 when signed out', async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+    const handler = vi.fn();
+
+    const response = await withUserRouteGuard({}, handler)(
+      buildRequest(),
+      context
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'unauthorized' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 with the permission message when the role lacks it', async () => {
+    signIn('viewer');
+    const handler = vi.fn();
+
+    const response = await withUserRouteGuard(
+      { permission: 'translations:create' },
+      handler
+    )(buildRequest(), context);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'Your role cannot start translations',
+      code: 'forbidden',
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes the user and route params to the handler', async () => {
+    signIn('translator');
+    const handler = vi.fn(async () => new Response(null, { status: 204 }));
+
+    const response = await withUserRouteGuard(
+      { permission: 'translations:create' },
+      handler
+    )(buildRequest(), context);
+
+    expect(response.status).toBe(204);
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      expect.objectContaining({
+        params: context.params,
+        user: expect.objectContaining({
+          userId: 'user-1',
+          role: 'translator',
+        }),
+      })
+    );
+    expect(dbService.workspaces.listForUser).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the user cannot be resolved', async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: 'user-1' } as never);
+    vi.mocked(dbService.userRoles.findByUserId).mockRejectedValue(
+      new Error('Database unavailable')
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = vi.fn();
+
+    const response = await withUserRouteGuard({}, handler)(
+      buildRequest(),
+      context
+    );
+
+    expect(response.status).toBe(500);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('withRouteGuard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 when signed out', async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+    const handler = vi.fn();
+
+    const response = await withRouteGuard(
+      { permission: 'translations:view' },
+      handler
+    )(buildRequest(), context);
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('checks the permission before resolving a workspace', async () => {
+    signIn('reviewer');
+    const handler = vi.fn();
+
+    const response = await withRouteGuard(
+      { permission: 'settings:manage' },
+      handler
+    )(buildRequest(), context);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'Only admins can change these settings',
+      code: 'forbidden',
+    });
+    expect(dbService.workspaces.listForUser).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when the user belongs to no workspace', async () => {
+    signIn('translator');
+    vi.mocked(dbService.workspaces.listForUser).mockResolvedValue([]);
+    const handler = vi.fn();
+
+    const response = await withRouteGuard(
+      { permission: 'translations:view' },
+      handler
+    )(buildRequest(), context);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'You have not been added to a workspace yet',
+      code: 'forbidden',
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes the user and the workspace they switched to', async () => {
+    signIn('translator');
+    vi.mocked(dbService.workspaces.listForUser).mockResolvedValue([
+      defaultWorkspace,
+      clientWorkspace,
+    ]);
+    const handler = vi.fn(async () => new Response(null, { status: 204 }));
+
+    const response = await withRouteGuard(
+      { permission: 'translations:view' },
+      handler
+    )(buildRequest(clientWorkspace.id), context);
+
+    expect(response.status).toBe(204);
+    expect(dbService.workspaces.listForUser).toHaveBeenCalledWith('user-1');
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      expect.objectContaining({
+        params: context.params,
+        user: expect.objectContaining({ userId: 'user-1' }),
+        workspace: clientWorkspace,
+      })
+    );
+  });
+
+  it('falls back to the oldest workspace when the cookie is not accessible', async () => {
+    signIn('admin');
+    vi.mocked(dbService.workspaces.list).mockResolvedValue([
+      defaultWorkspace,
+      clientWorkspace,
+    ]);
+    const handler = vi.fn(async () => new Response(null, { status: 204 }));
+
+    await withRouteGuard({}, handler)(buildRequest('somewhere-else'), context);
+
+    expect(dbService.workspaces.list).toHaveBeenCalled();
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      expect.objectContaining({ workspace: defaultWorkspace })
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getUserAccess } from '@/lib/auth/access';
+import { resolveActiveWorkspace } from '@/lib/auth/workspace';
+import {
+  hasPermission,
+  type Permission,
+  type UserAccess,
+} from '@/lib/constants/roles';
+import { WORKSPACE_COOKIE } from '@/lib/constants/workspaces';
+import type { Workspace } from '@/lib/db/schema';
+
+interface RouteContext {
+  params: Promise<Record<string, string | string[]>>;
+}
+
+export type UserRouteContext<Context extends RouteContext = RouteContext> =
+  Context & {
+    // The acting user, for permission checks and attribution
+    user: UserAccess;
+  };
+
+export type GuardedRouteContext<Context extends RouteContext = RouteContext> =
+  UserRouteContext<Context> & {
+    // Every read and write of translation data is scoped to this workspace
+    workspace: Workspace;
+  };
+
+interface RouteGuardOptions {
+  // Omit to admit any signed-in user
+  permission?: Permission;
+}
+
+const FORBIDDEN_MESSAGES: Record<Permission, string> = {
+  'translations:view': 'You do not have access to translations',
+  'translations:create': 'Your role cannot start translations',
+  'translations:edit': 'Your role cannot edit translations',
+  'translations:review': 'Only reviewers can verify translations',
+  'translations:publish': 'Your role cannot publish translations',
+  'translations:delete': 'Your role cannot delete translations',
+  'settings:manage': 'Only admins can change these settings',
+  'users:manage': 'Only admins can manage roles',
+};
+
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'Unauthorized', code: 'unauthorized' },
+    { status: 401 }
+  );
+}
+
+export function forbiddenResponse(message = 'Forbidden') {
+  return NextResponse.json(
+    { error: message, code: 'forbidden' },
+    { status: 403 }
+  );
+}
+
+function serverError(message: string, error: unknown) {
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * Wraps a route handler that is not tied to a workspace, such as the user's
+ * own profile or the workspace switcher, so it only runs for a signed-in user
+ * holding the required permission.
+ */
+export function withUserRouteGuard<Context extends RouteContext = RouteContext>(
+  options: RouteGuardOptions,
+  handler: (
+    request: NextRequest,
+    context: UserRouteContext<Context>
+  ) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    let user: UserAccess;
+    try {
+      user = await getUserAccess(userId);
+    } catch (error) {
+      return serverError('Failed to resolve user access', error);
+    }
+
+    if (options.permission && !hasPermission(user.role, options.permission)) {
+      return forbiddenResponse(FORBIDDEN_MESSAGES[options.permission]);
+    }
+
+    return handler(request, { ...context, user });
+  };
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user holding the
+ * required permission, inside the workspace they last switched to. Every API
+ * route except the Inngest endpoint goes through here (or the user-only
+ * variant above) rather than calling `auth()` itself.
+ */
+export function withRouteGuard<Context extends RouteContext = RouteContext>(
+  options: RouteGuardOptions,
+  handler: (
+    request: NextRequest,
+    context: GuardedRouteContext<Context>
+  ) => Promise<Response>
+) {
+  return withUserRouteGuard<Context>(options, async (request, context) => {
+    let workspace: Workspace | undefined;
+    try {
+      workspace = await resolveActiveWorkspace(
+        context.user,
+        request.cookies.get(WORKSPACE_COOKIE)?.value
+      );
+    } catch (error) {
+      return serverError('Failed to resolve workspace', error);
+    }
+
+    if (!workspace) {
+      return forbiddenResponse('You have not been added to a workspace yet');
+    }
+
+    return handler(request, { ...context, workspace });
+  });
+}
@@ -0,0 +1,45 @@
+import { dbService } from '@/lib/services/db-service';
+import { describeSecrets } from '@/lib/services/secrets';
+import type { UserAccess } from '@/lib/constants/roles';
+import type { Workspace } from '@/lib/db/schema';
+import type { WorkspaceSummary } from '@/lib/types/workspace';
+
+export async function toWorkspaceSummaries(
+  workspaces: Workspace[]
+): Promise<WorkspaceSummary[]> {
+  const secrets = await describeSecrets(workspaces);
+
+  return workspaces.map((workspace) => ({
+    id: workspace.id,
+    name: workspace.name,
+    slug: workspace.slug,
+    hasSendGridApiKey: Boolean(
+      secrets.get(workspace.id)?.find((secret) => secret.kind === 'sendgrid')
+        ?.source
+    ),
+  }));
+}
+
+// Admins work across every client; everyone else only where they are a member
+export async function listAccessibleWorkspaces(
+  user: UserAccess
+): Promise<Workspace[]> {
+  return user.role === 'admin'
+    ? await dbService.workspaces.list()
+    : await dbService.workspaces.listForUser(user.userId);
+}
+
+/**
+ * The workspace a request acts on: the one the user switched to when they
+ * still have access to it, otherwise the oldest one they can use.
+ */
+export async function resolveActiveWorkspace(
+  user: UserAccess,
+  requestedId?: string | null
+): Promise<Workspace | undefined> {
+  const accessible = await listAccessibleWorkspaces(user);
+  return (
+    accessible.find((workspace) => workspace.id === requestedId) ??
+    accessible[0]
+  );
+}
@@ -0,0 +1,23 @@
+export const AUDIT_ACTIONS = [
+  'task.created',
+  'batch.created',
+  'translation.retranslate_requested',
+  'translation.source_updated',
+  'translation.edited',
+  'translation.verified',
+  'translation.published',
+  'translation.deleted',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'task.created': 'Started translation',
+  'batch.created': 'Started bulk translation',
+  'translation.retranslate_requested': 'Requested retranslation',
+  'translation.source_updated': 'Updated to new source',
+  'translation.edited': 'Edited translation',
+  'translation.verified': 'Verified translation',
+  'translation.published': 'Published to SendGrid',
+  'translation.deleted': 'Deleted translation',
+};
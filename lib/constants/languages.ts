@@ -1,34 +1,21 @@
-export const LANGUAGES = {
-  en: {
-    code: 'en',
-    name: 'English',
-    nativeName: 'English',
-  },
-  'en-GB': {
-    code: 'en-GB',
-    name: 'English (UK)',
-    nativeName: 'English (UK)',
-  },
-  'fr-CA': {
-    code: 'fr-CA',
-    name: 'French (Quebec)',
-    nativeName: 'Français (Québec)',
-  },
-  vi: {
-    code: 'vi',
-    name: 'Vietnamese',
-    nativeName: 'Tiếng Việt',
-  },
-} as const;
+import type { Language } from '@/lib/db/schema';
 
-export type LanguageCode = keyof typeof LANGUAGES;
-export type Language = (typeof LANGUAGES)[LanguageCode];
+export type { Language };
 
-export const SUPPORTED_LANGUAGES = Object.values(LANGUAGES);
-export const TARGET_LANGUAGES = Object.values(LANGUAGES).filter(
-  (lang) => lang.code !== 'en'
-);
+// Codes come from the languages table, so any tag an admin adds is valid
+export type LanguageCode = string;
 
-export function getLanguageByCode(code: string): Language | undefined {
-  return LANGUAGES[code as LanguageCode];
+export const DEFAULT_SOURCE_LANGUAGE: LanguageCode = 'en';
+
+export const TEXT_DIRECTIONS = ['ltr', 'rtl'] as const;
+export type TextDirection = (typeof TEXT_DIRECTIONS)[number];
+
+export const LANGUAGE_FORMALITIES = ['default', 'formal', 'informal'] as const;
+export type LanguageFormality = (typeof LANGUAGE_FORMALITIES)[number];
+
+export function getTargetLanguages<T extends { code: string }>(
+  languages: T[],
+  sourceLanguage: string
+): T[] {
+  return languages.filter((lang) => lang.code !== sourceLanguage);
 }
@@ -0,0 +1,111 @@
+export const USER_ROLES = [
+  'admin',
+  'translator',
+  'reviewer',
+  'viewer',
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type Permission =
+  | 'translations:view'
+  | 'translations:create'
+  | 'translations:edit'
+  | 'translations:review'
+  | 'translations:publish'
+  | 'translations:delete'
+  | 'settings:manage'
+  | 'users:manage';
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: [
+    'translations:view',
+    'translations:create',
+    'translations:edit',
+    'translations:review',
+    'translations:publish',
+    'translations:delete',
+    'settings:manage',
+    'users:manage',
+  ],
+  translator: [
+    'translations:view',
+    'translations:create',
+    'translations:edit',
+    'translations:delete',
+  ],
+  reviewer: [
+    'translations:view',
+    'translations:edit',
+    'translations:review',
+    'translations:publish',
+  ],
+  viewer: ['translations:view'],
+};
+
+export const ROLE_LABELS: Record<
+  UserRole,
+  { label: string; description: string }
+> = {
+  admin: {
+    label: 'Admin',
+    description: 'Everything, including settings, budgets and roles',
+  },
+  translator: {
+    label: 'Translator',
+    description: 'Starts, edits, retranslates and deletes translations',
+  },
+  reviewer: {
+    label: 'Reviewer',
+    description: 'Edits, verifies and publishes assigned languages',
+  },
+  viewer: {
+    label: 'Viewer',
+    description: 'Read-only access to templates and translations',
+  },
+};
+
+export interface UserAccess {
+  userId: string;
+  email: string | null;
+  role: UserRole;
+  // Languages a reviewer may verify and publish; empty means all of them
+  reviewLanguages: string[];
+}
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: UserRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether the user may verify or publish a language. Reviewers named in the
+ * template's settings for that language take precedence over the languages
+ * assigned to the user's role; admins may always review.
+ */
+export function canReviewLanguage(
+  access: UserAccess,
+  languageCode: string,
+  templateReviewers?: Record<string, string[]> | null
+) {
+  if (access.role === 'admin') {
+    return true;
+  }
+
+  if (!hasPermission(access.role, 'translations:review')) {
+    return false;
+  }
+
+  const assigned = templateReviewers?.[languageCode] ?? [];
+  if (assigned.length > 0) {
+    return Boolean(access.email && assigned.includes(access.email));
+  }
+
+  return (
+    access.reviewLanguages.length === 0 ||
+    access.reviewLanguages.includes(languageCode)
+  );
+}
@@ -0,0 +1,28 @@
+export const SECRET_KINDS = ['sendgrid', 'openai', 'deepl'] as const;
+
+export type SecretKind = (typeof SECRET_KINDS)[number];
+
+export function isSecretKind(value: string): value is SecretKind {
+  return (SECRET_KINDS as readonly string[]).includes(value);
+}
+
+export const SECRET_KIND_LABELS: Record<
+  SecretKind,
+  { label: string; envVar: string; placeholder: string }
+> = {
+  sendgrid: {
+    label: 'SendGrid',
+    envVar: 'SENDGRID_API_KEY',
+    placeholder: 'SG.…',
+  },
+  openai: {
+    label: 'OpenAI',
+    envVar: 'OPENAI_API_KEY',
+    placeholder: 'sk-…',
+  },
+  deepl: {
+    label: 'DeepL',
+    envVar: 'DEEPL_API_KEY',
+    placeholder: 'xxxxxxxx-xxxx-…:fx',
+  },
+};
@@ -0,0 +1,43 @@
+export const TRANSLATION_PROVIDER_IDS = ['openai', 'deepl', 'mock'] as const;
+
+export type TranslationProviderId = (typeof TRANSLATION_PROVIDER_IDS)[number];
+
+export interface TranslationEngineOption {
+  provider: TranslationProviderId;
+  model: string | null;
+  label: string;
+  description: string;
+}
+
+export const TRANSLATION_ENGINE_OPTIONS: TranslationEngineOption[] = [
+  {
+    provider: 'openai',
+    model: 'gpt-5',
+    label: 'OpenAI GPT-5',
+    description: 'Highest quality, follows style and glossary instructions',
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-5-mini',
+    label: 'OpenAI GPT-5 mini',
+    description: 'Faster and cheaper for simple transactional copy',
+  },
+  {
+    provider: 'deepl',
+    model: null,
+    label: 'DeepL',
+    description: 'Machine translation; ignores free-form reviewer guidance',
+  },
+  {
+    provider: 'mock',
+    model: null,
+    label: 'Mock',
+    description: 'Deterministic output for local testing, no API calls',
+  },
+];
+
+export function isTranslationProviderId(
+  value: string
+): value is TranslationProviderId {
+  return (TRANSLATION_PROVIDER_IDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,5 @@
+// Created by the workspaces migration to hold data from before workspaces
+export const DEFAULT_WORKSPACE_SLUG = 'default';
+
+// Remembers the workspace a user last switched to
+export const WORKSPACE_COOKIE = 'active_workspace';
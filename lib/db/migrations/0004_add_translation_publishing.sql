@@ -0,0 +1,2 @@
+ALTER TABLE "template_translations" ADD COLUMN "sendgrid_version_id" text;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "published_at" timestamp;
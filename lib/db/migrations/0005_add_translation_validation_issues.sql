@@ -0,0 +1 @@
+ALTER TABLE "template_translations" ADD COLUMN "validation_issues" jsonb;
@@ -0,0 +1,12 @@
+CREATE TABLE "glossary_terms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_term" text NOT NULL,
+	"translations" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"do_not_translate" boolean DEFAULT false NOT NULL,
+	"case_sensitive" boolean DEFAULT false NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "glossary_issues" jsonb;
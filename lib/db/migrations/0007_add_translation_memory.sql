@@ -0,0 +1,19 @@
+CREATE TABLE "translation_memory" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_language" text DEFAULT 'en' NOT NULL,
+	"language_code" text NOT NULL,
+	"source_hash" text NOT NULL,
+	"source_text" text NOT NULL,
+	"target_text" text NOT NULL,
+	"template_id" text,
+	"translation_id" uuid,
+	"verified" boolean DEFAULT false NOT NULL,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "translation_memory" ADD CONSTRAINT "translation_memory_translation_id_template_translations_id_fk" FOREIGN KEY ("translation_id") REFERENCES "public"."template_translations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "translation_memory_source_idx" ON "translation_memory" USING btree ("source_language","language_code","source_hash");--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "memory_stats" jsonb;
@@ -0,0 +1,4 @@
+ALTER TABLE "translation_tasks" ADD COLUMN "provider" text;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "model" text;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "provider" text;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "model" text;
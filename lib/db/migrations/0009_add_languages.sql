@@ -0,0 +1,20 @@
+CREATE TYPE "public"."language_formality" AS ENUM('default', 'formal', 'informal');--> statement-breakpoint
+CREATE TYPE "public"."text_direction" AS ENUM('ltr', 'rtl');--> statement-breakpoint
+CREATE TABLE "languages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"native_name" text NOT NULL,
+	"direction" "text_direction" DEFAULT 'ltr' NOT NULL,
+	"formality" "language_formality" DEFAULT 'default' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "languages_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+INSERT INTO "languages" ("code", "name", "native_name") VALUES
+	('en', 'English', 'English'),
+	('en-GB', 'English (UK)', 'English (UK)'),
+	('fr-CA', 'French (Quebec)', 'Français (Québec)'),
+	('vi', 'Vietnamese', 'Tiếng Việt');
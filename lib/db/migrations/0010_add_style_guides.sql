@@ -0,0 +1,13 @@
+CREATE TABLE "style_guides" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"language_code" text NOT NULL,
+	"template_id" text,
+	"template_name" text,
+	"tone" text,
+	"instructions" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "style_guides_scope_unique" UNIQUE NULLS NOT DISTINCT("language_code","template_id")
+);
+--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "style_guide_snapshot" jsonb;
@@ -0,0 +1,2 @@
+ALTER TABLE "template_translations" ADD COLUMN "original_plain_content" text;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "translated_plain_content" text;
@@ -0,0 +1,2 @@
+ALTER TABLE "translation_tasks" ADD COLUMN "test_data" jsonb;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "translated_test_data" jsonb;
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."translation_origin" AS ENUM('machine', 'human-edited');--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "origin" "translation_origin" DEFAULT 'machine' NOT NULL;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "edited_by" text;
@@ -0,0 +1,2 @@
+ALTER TABLE "template_translations" ADD COLUMN "source_hash" text;--> statement-breakpoint
+UPDATE "template_translations" SET "source_hash" = encode(sha256(convert_to(coalesce("original_subject", '') || chr(30) || "original_html" || chr(30) || coalesce("original_plain_content", ''), 'UTF8')), 'hex');
@@ -0,0 +1,21 @@
+CREATE TABLE "translation_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"source_language" text DEFAULT 'en' NOT NULL,
+	"target_languages" text[] NOT NULL,
+	"provider" text,
+	"model" text,
+	"status" "task_status" DEFAULT 'queued' NOT NULL,
+	"total_templates" integer NOT NULL,
+	"completed_templates" integer DEFAULT 0 NOT NULL,
+	"failed_templates" integer DEFAULT 0 NOT NULL,
+	"total_languages" integer DEFAULT 0 NOT NULL,
+	"completed_languages" integer DEFAULT 0 NOT NULL,
+	"failed_languages" integer DEFAULT 0 NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD CONSTRAINT "translation_tasks_batch_id_translation_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."translation_batches"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,12 @@
+CREATE TABLE "template_settings" (
+	"template_id" text PRIMARY KEY NOT NULL,
+	"template_name" text,
+	"source_language" text DEFAULT 'en' NOT NULL,
+	"target_languages" text[] DEFAULT '{}' NOT NULL,
+	"auto_translate" boolean DEFAULT false NOT NULL,
+	"last_synced_version_id" text,
+	"last_synced_hash" text,
+	"last_synced_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "template_settings" ADD COLUMN "reviewers" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "template_settings" ADD COLUMN "auto_publish" boolean DEFAULT false NOT NULL;
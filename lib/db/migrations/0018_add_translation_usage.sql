@@ -0,0 +1,14 @@
+ALTER TABLE "template_translations" ADD COLUMN "input_tokens" integer;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "output_tokens" integer;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "latency_ms" integer;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "estimated_cost" double precision;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "input_tokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "output_tokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "estimated_cost" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE TABLE "translation_budget" (
+	"id" text PRIMARY KEY DEFAULT 'default' NOT NULL,
+	"monthly_limit" double precision,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
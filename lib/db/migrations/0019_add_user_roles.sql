@@ -0,0 +1,10 @@
+CREATE TYPE "public"."user_role" AS ENUM('admin', 'translator', 'reviewer', 'viewer');--> statement-breakpoint
+CREATE TABLE "user_roles" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"email" text,
+	"role" "user_role" DEFAULT 'viewer' NOT NULL,
+	"review_languages" text[] DEFAULT '{}' NOT NULL,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
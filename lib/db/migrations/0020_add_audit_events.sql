@@ -0,0 +1,20 @@
+CREATE TYPE "public"."audit_action" AS ENUM('task.created', 'batch.created', 'translation.retranslate_requested', 'translation.source_updated', 'translation.edited', 'translation.verified', 'translation.published', 'translation.deleted');--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" text,
+	"actor_email" text,
+	"action" "audit_action" NOT NULL,
+	"template_id" text,
+	"task_id" uuid,
+	"translation_id" uuid,
+	"language_code" text,
+	"payload" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "created_by" text;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "verified_by" text;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_task_id_translation_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."translation_tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_translation_id_template_translations_id_fk" FOREIGN KEY ("translation_id") REFERENCES "public"."template_translations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_events_template_idx" ON "audit_events" USING btree ("template_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_actor_idx" ON "audit_events" USING btree ("actor_id","created_at");
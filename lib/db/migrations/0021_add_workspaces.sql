@@ -0,0 +1,56 @@
+CREATE TABLE "workspaces" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL,
+	"sendgrid_api_key_encrypted" text,
+	"sendgrid_api_key_hint" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspaces_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "workspace_members" (
+	"workspace_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspace_members_workspace_id_user_id_pk" PRIMARY KEY("workspace_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_user_id_user_roles_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_roles"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Existing data moves into a default workspace that keeps using SENDGRID_API_KEY
+INSERT INTO "workspaces" ("name", "slug") VALUES ('Default', 'default');--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id") SELECT (SELECT "id" FROM "workspaces" WHERE "slug" = 'default'), "user_id" FROM "user_roles";--> statement-breakpoint
+ALTER TABLE "translation_batches" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "translation_batches" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "translation_batches" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "translation_batches" ADD CONSTRAINT "translation_batches_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "translation_tasks" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "translation_tasks" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "translation_tasks" ADD CONSTRAINT "translation_tasks_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "template_translations" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "template_translations" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "template_translations" ADD CONSTRAINT "template_translations_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "template_settings" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "template_settings" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "template_settings" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "template_settings" ADD CONSTRAINT "template_settings_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "translation_memory" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "translation_memory" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "translation_memory" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "translation_memory" ADD CONSTRAINT "translation_memory_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "audit_events" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "audit_events" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "template_settings" DROP CONSTRAINT "template_settings_pkey";--> statement-breakpoint
+ALTER TABLE "template_settings" ADD CONSTRAINT "template_settings_workspace_id_template_id_pk" PRIMARY KEY("workspace_id","template_id");--> statement-breakpoint
+DROP INDEX "translation_memory_source_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "translation_memory_source_idx" ON "translation_memory" USING btree ("workspace_id","source_language","language_code","source_hash");--> statement-breakpoint
+DROP INDEX "audit_events_template_idx";--> statement-breakpoint
+CREATE INDEX "audit_events_template_idx" ON "audit_events" USING btree ("workspace_id","template_id","created_at");--> statement-breakpoint
+ALTER TABLE "translation_budget" ALTER COLUMN "id" DROP DEFAULT;--> statement-breakpoint
+UPDATE "translation_budget" SET "id" = (SELECT "id"::text FROM "workspaces" WHERE "slug" = 'default') WHERE "id" = 'default';
@@ -0,0 +1,24 @@
+CREATE TYPE "public"."secret_kind" AS ENUM('sendgrid', 'openai', 'deepl');--> statement-breakpoint
+CREATE TABLE "secrets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"kind" "secret_kind" NOT NULL,
+	"ciphertext" text NOT NULL,
+	"encrypted_data_key" text,
+	"hint" text NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_by" text,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "secrets_workspace_kind_unique" UNIQUE("workspace_id","kind")
+);
+--> statement-breakpoint
+ALTER TABLE "secrets" ADD CONSTRAINT "secrets_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Workspace SendGrid keys were sealed directly with the master key, so they move over without a data key
+INSERT INTO "secrets" ("workspace_id", "kind", "ciphertext", "hint", "created_by", "created_at", "updated_at")
+SELECT "id", 'sendgrid', "sendgrid_api_key_encrypted", coalesce("sendgrid_api_key_hint", ''), "created_by", "updated_at", "updated_at"
+FROM "workspaces"
+WHERE "sendgrid_api_key_encrypted" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspaces" DROP COLUMN "sendgrid_api_key_encrypted";--> statement-breakpoint
+ALTER TABLE "workspaces" DROP COLUMN "sendgrid_api_key_hint";
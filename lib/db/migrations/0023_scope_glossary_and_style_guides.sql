@@ -0,0 +1,11 @@
+-- Existing glossary terms and style guides belong to the default workspace
+ALTER TABLE "glossary_terms" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "glossary_terms" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "glossary_terms" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "glossary_terms" ADD CONSTRAINT "glossary_terms_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "style_guides" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+UPDATE "style_guides" SET "workspace_id" = (SELECT "id" FROM "workspaces" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "style_guides" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "style_guides" ADD CONSTRAINT "style_guides_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "style_guides" DROP CONSTRAINT "style_guides_scope_unique";--> statement-breakpoint
+ALTER TABLE "style_guides" ADD CONSTRAINT "style_guides_scope_unique" UNIQUE NULLS NOT DISTINCT("workspace_id","language_code","template_id");
@@ -5,9 +5,27 @@ import {
   integer,
   timestamp,
   pgEnum,
+  jsonb,
+  boolean,
+  doublePrecision,
+  uniqueIndex,
+  index,
+  unique,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { relations } from 'drizzle-orm';
+import { LANGUAGE_FORMALITIES, TEXT_DIRECTIONS } from '../constants/languages';
+import { USER_ROLES } from '../constants/roles';
+import { AUDIT_ACTIONS } from '../constants/audit';
+import { SECRET_KINDS } from '../constants/secrets';
+import type {
+  AppliedStyleGuide,
+  GlossaryIssue,
+  MemoryStats,
+  PlaceholderIssue,
+  TestDataValue,
+} from '@/lib/types/translation';
 
 // Enums
 export const taskStatusEnum = pgEnum('task_status', [
@@ -25,19 +43,102 @@ export const translationStatusEnum = pgEnum('translation_status', [
   'failed',
 ]);
 
+export const translationOriginEnum = pgEnum('translation_origin', [
+  'machine',
+  'human-edited',
+]);
+
+export const textDirectionEnum = pgEnum('text_direction', TEXT_DIRECTIONS);
+
+export const languageFormalityEnum = pgEnum(
+  'language_formality',
+  LANGUAGE_FORMALITIES
+);
+
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+
+export const auditActionEnum = pgEnum('audit_action', AUDIT_ACTIONS);
+
+export const secretKindEnum = pgEnum('secret_kind', SECRET_KINDS);
+
+// Workspaces Table
+export const workspaces = pgTable('workspaces', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(),
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Languages Table
+export const languages = pgTable('languages', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  code: text('code').notNull().unique(),
+  name: text('name').notNull(),
+  nativeName: text('native_name').notNull(),
+  direction: textDirectionEnum('direction').notNull().default('ltr'),
+  formality: languageFormalityEnum('formality').notNull().default('default'),
+  enabled: boolean('enabled').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Translation Batches Table
+export const translationBatches = pgTable('translation_batches', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
+  name: text('name').notNull(),
+  sourceLanguage: text('source_language').notNull().default('en'),
+  targetLanguages: text('target_languages').array().notNull(),
+  provider: text('provider'),
+  model: text('model'),
+  status: taskStatusEnum('status').notNull().default('queued'),
+  // Rolled up from the batch's tasks by syncProgress
+  totalTemplates: integer('total_templates').notNull(),
+  completedTemplates: integer('completed_templates').notNull().default(0),
+  failedTemplates: integer('failed_templates').notNull().default(0),
+  totalLanguages: integer('total_languages').notNull().default(0),
+  completedLanguages: integer('completed_languages').notNull().default(0),
+  failedLanguages: integer('failed_languages').notNull().default(0),
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Translation Tasks Table
 export const translationTasks = pgTable('translation_tasks', {
   id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
+  // Set when the task was queued as part of a bulk translation
+  batchId: uuid('batch_id').references(() => translationBatches.id, {
+    onDelete: 'set null',
+  }),
   templateId: text('template_id').notNull(),
   templateName: text('template_name').notNull(),
   templateVersionId: text('template_version_id').notNull(),
   sourceLanguage: text('source_language').notNull().default('en'),
   targetLanguages: text('target_languages').array().notNull(),
+  // Engine override for every language in the task; null uses per-language defaults
+  provider: text('provider'),
+  model: text('model'),
+  // Source test_data to localize alongside the template; null skips it
+  testData: jsonb('test_data').$type<Record<string, TestDataValue>>(),
   status: taskStatusEnum('status').notNull().default('pending'),
   totalLanguages: integer('total_languages').notNull(),
   completedLanguages: integer('completed_languages').notNull().default(0),
   failedLanguages: integer('failed_languages').notNull().default(0),
+  // Summed over every run in the task, retranslations included
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  estimatedCost: doublePrecision('estimated_cost').notNull().default(0),
   errorMessage: text('error_message'),
+  // Clerk user id; null for tasks queued by the scheduled sync
+  createdBy: text('created_by'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -45,6 +146,9 @@ export const translationTasks = pgTable('translation_tasks', {
 // Template Translations Table
 export const templateTranslations = pgTable('template_translations', {
   id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
   taskId: uuid('task_id')
     .references(() => translationTasks.id, { onDelete: 'cascade' })
     .notNull(),
@@ -56,20 +160,270 @@ export const templateTranslations = pgTable('template_translations', {
   translatedHtml: text('translated_html'),
   originalSubject: text('original_subject'),
   translatedSubject: text('translated_subject'),
+  // Only set for versions with a hand-written text part (generate_plain_content off)
+  originalPlainContent: text('original_plain_content'),
+  translatedPlainContent: text('translated_plain_content'),
+  // Hash of the source copy, compared with the live SendGrid version to spot edits
+  sourceHash: text('source_hash'),
+  // Preview fixture with human-readable sample values in the target language
+  translatedTestData: jsonb('translated_test_data').$type<
+    Record<string, TestDataValue>
+  >(),
   status: translationStatusEnum('status').notNull().default('pending'),
   errorMessage: text('error_message'),
+  validationIssues: jsonb('validation_issues').$type<PlaceholderIssue[]>(),
+  glossaryIssues: jsonb('glossary_issues').$type<GlossaryIssue[]>(),
+  memoryStats: jsonb('memory_stats').$type<MemoryStats>(),
+  // Guides as they read when this version was produced
+  styleGuideSnapshot: jsonb('style_guide_snapshot').$type<
+    AppliedStyleGuide[]
+  >(),
+  provider: text('provider'),
+  model: text('model'),
+  // Provider usage for this run; the cost is estimated from list prices in USD
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  latencyMs: integer('latency_ms'),
+  estimatedCost: doublePrecision('estimated_cost'),
+  // Versions saved from the review view are hand-corrected copies of a machine run
+  origin: translationOriginEnum('origin').notNull().default('machine'),
+  editedBy: text('edited_by'),
   retranslateReason: text('retranslate_reason'),
   retranslateAttempts: integer('retranslate_attempts').notNull().default(0),
   verifiedAt: timestamp('verified_at'),
+  verifiedBy: text('verified_by'),
+  sendgridVersionId: text('sendgrid_version_id'),
+  publishedAt: timestamp('published_at'),
   deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Glossary Terms Table
+export const glossaryTerms = pgTable('glossary_terms', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
+  sourceTerm: text('source_term').notNull(),
+  // Language code -> approved target term
+  translations: jsonb('translations')
+    .$type<Record<string, string>>()
+    .notNull()
+    .default({}),
+  doNotTranslate: boolean('do_not_translate').notNull().default(false),
+  caseSensitive: boolean('case_sensitive').notNull().default(false),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Style Guides Table
+export const styleGuides = pgTable(
+  'style_guides',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    languageCode: text('language_code').notNull(),
+    // Null applies to every template; set to scope the guide to one template
+    templateId: text('template_id'),
+    templateName: text('template_name'),
+    tone: text('tone'),
+    instructions: text('instructions').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('style_guides_scope_unique')
+      .on(table.workspaceId, table.languageCode, table.templateId)
+      .nullsNotDistinct(),
+  ]
+);
+
+// Template Settings Table
+export const templateSettings = pgTable(
+  'template_settings',
+  {
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    templateId: text('template_id').notNull(),
+    templateName: text('template_name'),
+    sourceLanguage: text('source_language').notNull().default('en'),
+    targetLanguages: text('target_languages').array().notNull().default([]),
+    // Language code -> emails of the people who review that language
+    reviewers: jsonb('reviewers')
+      .$type<Record<string, string[]>>()
+      .notNull()
+      .default({}),
+    // Opts the template into the scheduled SendGrid sync
+    autoTranslate: boolean('auto_translate').notNull().default(false),
+    // Pushes clean translations to SendGrid for languages without a reviewer
+    autoPublish: boolean('auto_publish').notNull().default(false),
+    // Active version and copy the sync last queued (or found) translations for
+    lastSyncedVersionId: text('last_synced_version_id'),
+    lastSyncedHash: text('last_synced_hash'),
+    lastSyncedAt: timestamp('last_synced_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.workspaceId, table.templateId] })]
+);
+
+// Translation Budget Table
+export const translationBudget = pgTable('translation_budget', {
+  // One row per workspace, keyed by the workspace id
+  id: text('id').primaryKey(),
+  // USD per calendar month; null means no limit
+  monthlyLimit: doublePrecision('monthly_limit'),
+  updatedBy: text('updated_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// User Roles Table
+export const userRoles = pgTable('user_roles', {
+  // Clerk user id
+  userId: text('user_id').primaryKey(),
+  email: text('email'),
+  role: userRoleEnum('role').notNull().default('viewer'),
+  // Languages a reviewer is assigned to; empty means all languages
+  reviewLanguages: text('review_languages').array().notNull().default([]),
+  updatedBy: text('updated_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Workspace Members Table
+export const workspaceMembers = pgTable(
+  'workspace_members',
+  {
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: text('user_id')
+      .references(() => userRoles.userId, { onDelete: 'cascade' })
+      .notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.workspaceId, table.userId] })]
+);
+
+// Translation Memory Table
+export const translationMemory = pgTable(
+  'translation_memory',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    // Client copy is never offered to another client's translations
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    sourceLanguage: text('source_language').notNull().default('en'),
+    languageCode: text('language_code').notNull(),
+    sourceHash: text('source_hash').notNull(),
+    sourceText: text('source_text').notNull(),
+    targetText: text('target_text').notNull(),
+    templateId: text('template_id'),
+    translationId: uuid('translation_id').references(
+      () => templateTranslations.id,
+      { onDelete: 'set null' }
+    ),
+    verified: boolean('verified').notNull().default(false),
+    usageCount: integer('usage_count').notNull().default(0),
+    lastUsedAt: timestamp('last_used_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('translation_memory_source_idx').on(
+      table.workspaceId,
+      table.sourceLanguage,
+      table.languageCode,
+      table.sourceHash
+    ),
+  ]
+);
+
+// Audit Events Table
+export const auditEvents = pgTable(
+  'audit_events',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    // Clerk user id and email at the time; null for background jobs
+    actorId: text('actor_id'),
+    actorEmail: text('actor_email'),
+    action: auditActionEnum('action').notNull(),
+    templateId: text('template_id'),
+    taskId: uuid('task_id').references(() => translationTasks.id, {
+      onDelete: 'set null',
+    }),
+    translationId: uuid('translation_id').references(
+      () => templateTranslations.id,
+      { onDelete: 'set null' }
+    ),
+    languageCode: text('language_code'),
+    // Action details such as a retranslation reason or the edited segments
+    payload: jsonb('payload').$type<Record<string, unknown>>(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('audit_events_template_idx').on(
+      table.workspaceId,
+      table.templateId,
+      table.createdAt
+    ),
+    index('audit_events_actor_idx').on(table.actorId, table.createdAt),
+  ]
+);
+
+// Secrets Table
+export const secrets = pgTable(
+  'secrets',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    workspaceId: uuid('workspace_id')
+      .references(() => workspaces.id, { onDelete: 'cascade' })
+      .notNull(),
+    kind: secretKindEnum('kind').notNull(),
+    // Value sealed with a per-secret data key; never sent to the browser
+    ciphertext: text('ciphertext').notNull(),
+    // The data key, wrapped with the master key. Null for values carried over
+    // from before envelope encryption, which are sealed with the master key
+    encryptedDataKey: text('encrypted_data_key'),
+    // Last characters of the value so admins can tell keys apart
+    hint: text('hint').notNull(),
+    // Bumped on every rotation
+    version: integer('version').notNull().default(1),
+    createdBy: text('created_by'),
+    updatedBy: text('updated_by'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('secrets_workspace_kind_unique').on(table.workspaceId, table.kind),
+  ]
+);
+
 // Relations
+export const translationBatchesRelations = relations(
+  translationBatches,
+  ({ many }) => ({
+    tasks: many(translationTasks),
+  })
+);
+
 export const translationTasksRelations = relations(
   translationTasks,
-  ({ many }) => ({
+  ({ one, many }) => ({
+    batch: one(translationBatches, {
+      fields: [translationTasks.batchId],
+      references: [translationBatches.id],
+    }),
     translations: many(templateTranslations),
   })
 );
@@ -85,16 +439,57 @@ export const templateTranslationsRelations = relations(
 );
 
 // Zod Schemas for validation
+export const insertTranslationBatchSchema =
+  createInsertSchema(translationBatches);
+export const selectTranslationBatchSchema =
+  createSelectSchema(translationBatches);
 export const insertTranslationTaskSchema = createInsertSchema(translationTasks);
 export const selectTranslationTaskSchema = createSelectSchema(translationTasks);
 export const insertTemplateTranslationSchema =
   createInsertSchema(templateTranslations);
 export const selectTemplateTranslationSchema =
   createSelectSchema(templateTranslations);
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms);
+export const selectGlossaryTermSchema = createSelectSchema(glossaryTerms);
+export const insertLanguageSchema = createInsertSchema(languages);
+export const selectLanguageSchema = createSelectSchema(languages);
+export const insertStyleGuideSchema = createInsertSchema(styleGuides);
+export const selectStyleGuideSchema = createSelectSchema(styleGuides);
+export const insertTemplateSettingsSchema =
+  createInsertSchema(templateSettings);
+export const selectTemplateSettingsSchema =
+  createSelectSchema(templateSettings);
+export const insertTranslationMemorySchema =
+  createInsertSchema(translationMemory);
+export const selectTranslationMemorySchema =
+  createSelectSchema(translationMemory);
 
 // TypeScript Types
+export type TranslationBatch = typeof translationBatches.$inferSelect;
+export type InsertTranslationBatch = typeof translationBatches.$inferInsert;
 export type TranslationTask = typeof translationTasks.$inferSelect;
 export type InsertTranslationTask = typeof translationTasks.$inferInsert;
 export type TemplateTranslation = typeof templateTranslations.$inferSelect;
 export type InsertTemplateTranslation =
   typeof templateTranslations.$inferInsert;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = typeof glossaryTerms.$inferInsert;
+export type Language = typeof languages.$inferSelect;
+export type InsertLanguage = typeof languages.$inferInsert;
+export type StyleGuide = typeof styleGuides.$inferSelect;
+export type InsertStyleGuide = typeof styleGuides.$inferInsert;
+export type TemplateSettings = typeof templateSettings.$inferSelect;
+export type InsertTemplateSettings = typeof templateSettings.$inferInsert;
+export type TranslationBudget = typeof translationBudget.$inferSelect;
+export type UserRoleRecord = typeof userRoles.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = typeof workspaces.$inferInsert;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type Secret = typeof secrets.$inferSelect;
+export type InsertSecret = typeof secrets.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type InsertUserRoleRecord = typeof userRoles.$inferInsert;
+export type TranslationMemoryEntry = typeof translationMemory.$inferSelect;
+export type InsertTranslationMemoryEntry =
+  typeof translationMemory.$inferInsert;
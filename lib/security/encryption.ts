@@ -0,0 +1,92 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+const FORMAT_VERSION = 'v1';
+
+export interface SealedSecret {
+  ciphertext: string;
+  // Null for values sealed directly with the master key
+  encryptedDataKey: string | null;
+}
+
+/**
+ * Derives the master key from SECRETS_ENCRYPTION_KEY. Any string works, but
+ * it must stay the same for as long as encrypted values are stored.
+ */
+function getMasterKey(): Buffer {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('SECRETS_ENCRYPTION_KEY is not set');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function isEncryptionConfigured(): boolean {
+  return Boolean(process.env.SECRETS_ENCRYPTION_KEY);
+}
+
+// Serialized as version:iv:tag:ciphertext, each part base64
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+function decrypt(key: Buffer, payload: string): Buffer {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Envelope encryption: each value gets its own random data key, and only the
+ * data key is encrypted with the master key. Replacing the master key then
+ * means rewrapping data keys rather than touching every stored value.
+ */
+export function sealSecret(plaintext: string): SealedSecret {
+  const dataKey = randomBytes(DATA_KEY_LENGTH);
+
+  return {
+    ciphertext: encrypt(dataKey, Buffer.from(plaintext, 'utf8')),
+    encryptedDataKey: encrypt(getMasterKey(), dataKey),
+  };
+}
+
+export function openSecret({
+  ciphertext,
+  encryptedDataKey,
+}: SealedSecret): string {
+  const masterKey = getMasterKey();
+  const key = encryptedDataKey
+    ? decrypt(masterKey, encryptedDataKey)
+    : masterKey;
+  return decrypt(key, ciphertext).toString('utf8');
+}
+
+// Shown in place of a stored secret so admins can tell keys apart
+export function secretHint(plaintext: string): string {
+  return plaintext.slice(-4);
+}
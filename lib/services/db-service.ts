@@ -1,13 +1,88 @@
 import { db } from '@/lib/db';
 import {
+  translationBatches,
   translationTasks,
   templateTranslations,
+  glossaryTerms,
+  translationMemory,
+  languages,
+  styleGuides,
+  templateSettings,
+  translationBudget,
+  userRoles,
+  auditEvents,
+  workspaces,
+  workspaceMembers,
+  secrets,
+  type InsertTranslationBatch,
   type InsertTranslationTask,
   type InsertTemplateTranslation,
+  type InsertGlossaryTerm,
+  type TranslationBatch,
   type TranslationTask,
   type TemplateTranslation,
+  type GlossaryTerm,
+  type InsertTranslationMemoryEntry,
+  type TranslationMemoryEntry,
+  type Language,
+  type InsertLanguage,
+  type StyleGuide,
+  type InsertStyleGuide,
+  type TemplateSettings,
+  type InsertTemplateSettings,
+  type TranslationBudget,
+  type UserRoleRecord,
+  type InsertUserRoleRecord,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type Workspace,
+  type InsertWorkspace,
+  type Secret,
+  type InsertSecret,
 } from '@/lib/db/schema';
-import { eq, and, desc, sql, inArray, isNull } from 'drizzle-orm';
+import type { AuditEventFilters, UsageTotals } from '@/lib/types/translation';
+import type { SecretKind } from '@/lib/constants/secrets';
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  sql,
+  inArray,
+  isNull,
+  isNotNull,
+  between,
+  gte,
+  lt,
+  ne,
+  or,
+} from 'drizzle-orm';
+
+/**
+ * Keyset condition for paging back from an event. The cursor row is compared
+ * in SQL because created_at keeps microseconds that a JS Date would drop, and
+ * the id breaks ties between events recorded in the same instant.
+ */
+function olderThanEvent(eventId: string) {
+  return sql`(${auditEvents.createdAt}, ${auditEvents.id}) < (select "created_at", "id" from ${auditEvents} where "id" = ${eventId})`;
+}
+
+// Sums over machine runs; human-edited versions carry no usage
+const usageTotals = {
+  translations: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum(${templateTranslations.inputTokens}), 0)::int`,
+  outputTokens: sql<number>`coalesce(sum(${templateTranslations.outputTokens}), 0)::int`,
+  estimatedCost: sql<number>`coalesce(sum(${templateTranslations.estimatedCost}), 0)::float8`,
+};
+
+function usageBetween(workspaceId: string, from: Date, to: Date) {
+  return and(
+    eq(templateTranslations.workspaceId, workspaceId),
+    isNotNull(templateTranslations.estimatedCost),
+    gte(templateTranslations.createdAt, from),
+    lt(templateTranslations.createdAt, to)
+  );
+}
 
 export const dbService = {
   translationTasks: {
@@ -24,11 +99,19 @@ export const dbService = {
       return task;
     },
 
-    async findByTemplateId(templateId: string): Promise<TranslationTask[]> {
+    async findByTemplateId(
+      workspaceId: string,
+      templateId: string
+    ): Promise<TranslationTask[]> {
       return await db
         .select()
         .from(translationTasks)
-        .where(eq(translationTasks.templateId, templateId))
+        .where(
+          and(
+            eq(translationTasks.workspaceId, workspaceId),
+            eq(translationTasks.templateId, templateId)
+          )
+        )
         .orderBy(desc(translationTasks.createdAt));
     },
 
@@ -104,6 +187,23 @@ export const dbService = {
         .where(eq(translationTasks.id, id));
     },
 
+    async syncUsage(id: string): Promise<void> {
+      const [usage] = await db
+        .select(usageTotals)
+        .from(templateTranslations)
+        .where(eq(templateTranslations.taskId, id));
+
+      await db
+        .update(translationTasks)
+        .set({
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          estimatedCost: usage.estimatedCost,
+          updatedAt: new Date(),
+        })
+        .where(eq(translationTasks.id, id));
+    },
+
     async getAllActive(): Promise<TranslationTask[]> {
       return await db
         .select()
@@ -112,13 +212,116 @@ export const dbService = {
         .orderBy(desc(translationTasks.createdAt));
     },
 
-    async getRecent(limit = 20): Promise<TranslationTask[]> {
+    // Batched tasks are listed under their batch, so callers can leave them out
+    async getRecent(
+      workspaceId: string,
+      limit = 20,
+      options: { excludeBatched?: boolean } = {}
+    ): Promise<TranslationTask[]> {
       return await db
         .select()
         .from(translationTasks)
+        .where(
+          and(
+            eq(translationTasks.workspaceId, workspaceId),
+            options.excludeBatched
+              ? isNull(translationTasks.batchId)
+              : undefined
+          )
+        )
         .orderBy(desc(translationTasks.createdAt))
         .limit(limit);
     },
+
+    async findByBatchIds(
+      batchIds: string[]
+    ): Promise<Record<string, TranslationTask[]>> {
+      if (batchIds.length === 0) {
+        return {};
+      }
+
+      const rows = await db
+        .select()
+        .from(translationTasks)
+        .where(inArray(translationTasks.batchId, batchIds))
+        .orderBy(asc(translationTasks.templateName));
+
+      return rows.reduce<Record<string, TranslationTask[]>>((acc, task) => {
+        const bucket = acc[task.batchId!] || [];
+        bucket.push(task);
+        acc[task.batchId!] = bucket;
+        return acc;
+      }, {});
+    },
+  },
+
+  translationBatches: {
+    async create(data: InsertTranslationBatch): Promise<TranslationBatch> {
+      const [batch] = await db
+        .insert(translationBatches)
+        .values(data)
+        .returning();
+      return batch;
+    },
+
+    async getRecent(
+      workspaceId: string,
+      limit = 10
+    ): Promise<TranslationBatch[]> {
+      return await db
+        .select()
+        .from(translationBatches)
+        .where(eq(translationBatches.workspaceId, workspaceId))
+        .orderBy(desc(translationBatches.createdAt))
+        .limit(limit);
+    },
+
+    /**
+     * Rolls the language counts of every task in the batch up onto the batch.
+     * A template counts as done once each of its languages has finished, and
+     * as failed when any of them failed or its jobs could not be queued.
+     */
+    async syncProgress(id: string): Promise<void> {
+      const finished = sql`(${translationTasks.completedLanguages} + ${translationTasks.failedLanguages} >= ${translationTasks.totalLanguages} or ${translationTasks.status} = 'failed')`;
+
+      const [progress] = await db
+        .select({
+          totalTemplates: sql<number>`count(*)::int`,
+          finishedTemplates: sql<number>`count(*) filter (where ${finished})::int`,
+          failedTemplates: sql<number>`count(*) filter (where ${finished} and (${translationTasks.failedLanguages} > 0 or ${translationTasks.status} = 'failed'))::int`,
+          startedTemplates: sql<number>`count(*) filter (where ${translationTasks.status} <> 'queued' or ${translationTasks.completedLanguages} + ${translationTasks.failedLanguages} > 0)::int`,
+          totalLanguages: sql<number>`coalesce(sum(${translationTasks.totalLanguages}), 0)::int`,
+          completedLanguages: sql<number>`coalesce(sum(${translationTasks.completedLanguages}), 0)::int`,
+          failedLanguages: sql<number>`coalesce(sum(${translationTasks.failedLanguages}), 0)::int`,
+        })
+        .from(translationTasks)
+        .where(eq(translationTasks.batchId, id));
+
+      const status =
+        progress.totalTemplates > 0 &&
+        progress.finishedTemplates === progress.totalTemplates
+          ? progress.failedTemplates > 0
+            ? 'failed'
+            : 'completed'
+          : progress.startedTemplates > 0
+            ? 'processing'
+            : 'queued';
+
+      await db
+        .update(translationBatches)
+        .set({
+          status,
+          totalTemplates: progress.totalTemplates,
+          completedTemplates:
+            progress.finishedTemplates - progress.failedTemplates,
+          failedTemplates: progress.failedTemplates,
+          totalLanguages: progress.totalLanguages,
+          completedLanguages: progress.completedLanguages,
+          failedLanguages: progress.failedLanguages,
+          updatedAt: new Date(),
+        })
+        .where(eq(translationBatches.id, id));
+    },
   },
 
   templateTranslations: {
@@ -132,12 +335,16 @@ export const dbService = {
       return translation;
     },
 
-    async findByTemplateId(templateId: string): Promise<TemplateTranslation[]> {
+    async findByTemplateId(
+      workspaceId: string,
+      templateId: string
+    ): Promise<TemplateTranslation[]> {
       return await db
         .select()
         .from(templateTranslations)
         .where(
           and(
+            eq(templateTranslations.workspaceId, workspaceId),
             eq(templateTranslations.templateId, templateId),
             isNull(templateTranslations.deletedAt)
           )
@@ -224,6 +431,56 @@ export const dbService = {
       return translation;
     },
 
+    /**
+     * Source hash of the newest version per template version and language,
+     * across the workspace's templates, for flagging translations of edited
+     * copy.
+     */
+    async findLatestSourceHashes(
+      workspaceId: string
+    ): Promise<
+      Array<
+        Pick<
+          TemplateTranslation,
+          | 'id'
+          | 'templateId'
+          | 'templateVersionId'
+          | 'languageCode'
+          | 'sourceHash'
+        >
+      >
+    > {
+      const rows = await db
+        .select({
+          id: templateTranslations.id,
+          templateId: templateTranslations.templateId,
+          templateVersionId: templateTranslations.templateVersionId,
+          languageCode: templateTranslations.languageCode,
+          sourceHash: templateTranslations.sourceHash,
+        })
+        .from(templateTranslations)
+        .where(
+          and(
+            eq(templateTranslations.workspaceId, workspaceId),
+            isNull(templateTranslations.deletedAt)
+          )
+        )
+        .orderBy(
+          desc(templateTranslations.version),
+          desc(templateTranslations.createdAt)
+        );
+
+      const seen = new Set<string>();
+      return rows.filter((row) => {
+        const key = `${row.templateVersionId}:${row.languageCode}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    },
+
     async findById(id: string): Promise<TemplateTranslation | undefined> {
       const [translation] = await db
         .select()
@@ -254,6 +511,30 @@ export const dbService = {
       return translation;
     },
 
+    async findLatestCompletedByTemplateAndLanguage(
+      workspaceId: string,
+      templateId: string,
+      languageCode: string,
+      excludeId?: string
+    ): Promise<TemplateTranslation | undefined> {
+      const [translation] = await db
+        .select()
+        .from(templateTranslations)
+        .where(
+          and(
+            eq(templateTranslations.workspaceId, workspaceId),
+            eq(templateTranslations.templateId, templateId),
+            eq(templateTranslations.languageCode, languageCode),
+            eq(templateTranslations.status, 'completed'),
+            isNull(templateTranslations.deletedAt),
+            excludeId ? ne(templateTranslations.id, excludeId) : undefined
+          )
+        )
+        .orderBy(desc(templateTranslations.updatedAt))
+        .limit(1);
+      return translation;
+    },
+
     async update(
       id: string,
       data: Partial<InsertTemplateTranslation>
@@ -279,9 +560,20 @@ export const dbService = {
         .where(eq(templateTranslations.id, id));
     },
 
+    /**
+     * Queues a new version of a translation. Passing `source` rebases it on
+     * updated SendGrid copy instead of the copy the previous version used.
+     */
     async requestRetranslate(
       id: string,
-      reason: string
+      reason: string | null,
+      source?: Pick<
+        InsertTemplateTranslation,
+        | 'originalHtml'
+        | 'originalSubject'
+        | 'originalPlainContent'
+        | 'sourceHash'
+      >
     ): Promise<
       | {
           newTranslation: TemplateTranslation;
@@ -303,6 +595,7 @@ export const dbService = {
       const now = new Date();
 
       const nextVersion = await this.getNextVersion(
+        existing.workspaceId,
         existing.templateId,
         existing.templateVersionId,
         existing.languageCode
@@ -311,12 +604,16 @@ export const dbService = {
       const [newTranslation] = await db
         .insert(templateTranslations)
         .values({
+          workspaceId: existing.workspaceId,
           taskId: existing.taskId,
           templateId: existing.templateId,
           templateVersionId: existing.templateVersionId,
           languageCode: existing.languageCode,
           originalHtml: existing.originalHtml,
           originalSubject: existing.originalSubject,
+          originalPlainContent: existing.originalPlainContent,
+          sourceHash: existing.sourceHash,
+          ...source,
           status: 'processing',
           retranslateReason: reason,
           retranslateAttempts: 0,
@@ -363,7 +660,52 @@ export const dbService = {
       };
     },
 
+    async createEditedVersion(
+      existing: TemplateTranslation,
+      data: Pick<
+        InsertTemplateTranslation,
+        | 'translatedHtml'
+        | 'translatedSubject'
+        | 'translatedPlainContent'
+        | 'glossaryIssues'
+        | 'editedBy'
+      >
+    ): Promise<TemplateTranslation> {
+      const nextVersion = await this.getNextVersion(
+        existing.workspaceId,
+        existing.templateId,
+        existing.templateVersionId,
+        existing.languageCode
+      );
+
+      const [translation] = await db
+        .insert(templateTranslations)
+        .values({
+          workspaceId: existing.workspaceId,
+          taskId: existing.taskId,
+          templateId: existing.templateId,
+          templateVersionId: existing.templateVersionId,
+          languageCode: existing.languageCode,
+          originalHtml: existing.originalHtml,
+          originalSubject: existing.originalSubject,
+          originalPlainContent: existing.originalPlainContent,
+          sourceHash: existing.sourceHash,
+          translatedTestData: existing.translatedTestData,
+          styleGuideSnapshot: existing.styleGuideSnapshot,
+          provider: existing.provider,
+          model: existing.model,
+          ...data,
+          status: 'completed',
+          origin: 'human-edited',
+          version: nextVersion,
+        })
+        .returning();
+
+      return translation;
+    },
+
     async getNextVersion(
+      workspaceId: string,
       templateId: string,
       templateVersionId: string,
       languageCode: string
@@ -375,6 +717,7 @@ export const dbService = {
         .from(templateTranslations)
         .where(
           and(
+            eq(templateTranslations.workspaceId, workspaceId),
             eq(templateTranslations.templateId, templateId),
             eq(templateTranslations.templateVersionId, templateVersionId),
             eq(templateTranslations.languageCode, languageCode)
@@ -385,11 +728,12 @@ export const dbService = {
       return maxVersion + 1;
     },
 
-    async markVerified(id: string): Promise<void> {
+    async markVerified(id: string, verifiedBy: string): Promise<void> {
       await db
         .update(templateTranslations)
         .set({
           verifiedAt: new Date(),
+          verifiedBy,
           updatedAt: new Date(),
         })
         .where(
@@ -400,6 +744,38 @@ export const dbService = {
         );
     },
 
+    async findPublishedByTemplateAndLanguage(
+      workspaceId: string,
+      templateId: string,
+      languageCode: string
+    ): Promise<TemplateTranslation | undefined> {
+      const [translation] = await db
+        .select()
+        .from(templateTranslations)
+        .where(
+          and(
+            eq(templateTranslations.workspaceId, workspaceId),
+            eq(templateTranslations.templateId, templateId),
+            eq(templateTranslations.languageCode, languageCode),
+            isNotNull(templateTranslations.sendgridVersionId)
+          )
+        )
+        .orderBy(desc(templateTranslations.publishedAt))
+        .limit(1);
+      return translation;
+    },
+
+    async markPublished(id: string, sendgridVersionId: string): Promise<void> {
+      await db
+        .update(templateTranslations)
+        .set({
+          sendgridVersionId,
+          publishedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(templateTranslations.id, id));
+    },
+
     async softDelete(id: string): Promise<void> {
       await db
         .update(templateTranslations)
@@ -410,4 +786,741 @@ export const dbService = {
         .where(eq(templateTranslations.id, id));
     },
   },
+
+  glossaryTerms: {
+    async list(workspaceId: string): Promise<GlossaryTerm[]> {
+      return await db
+        .select()
+        .from(glossaryTerms)
+        .where(eq(glossaryTerms.workspaceId, workspaceId))
+        .orderBy(asc(glossaryTerms.sourceTerm));
+    },
+
+    async findById(
+      workspaceId: string,
+      id: string
+    ): Promise<GlossaryTerm | undefined> {
+      const [term] = await db
+        .select()
+        .from(glossaryTerms)
+        .where(
+          and(
+            eq(glossaryTerms.workspaceId, workspaceId),
+            eq(glossaryTerms.id, id)
+          )
+        );
+      return term;
+    },
+
+    async create(data: InsertGlossaryTerm): Promise<GlossaryTerm> {
+      const [term] = await db.insert(glossaryTerms).values(data).returning();
+      return term;
+    },
+
+    async update(
+      workspaceId: string,
+      id: string,
+      data: Partial<Omit<InsertGlossaryTerm, 'workspaceId'>>
+    ): Promise<GlossaryTerm | undefined> {
+      const [term] = await db
+        .update(glossaryTerms)
+        .set({ ...data, updatedAt: new Date() })
+        .where(
+          and(
+            eq(glossaryTerms.workspaceId, workspaceId),
+            eq(glossaryTerms.id, id)
+          )
+        )
+        .returning();
+      return term;
+    },
+
+    async delete(workspaceId: string, id: string): Promise<void> {
+      await db
+        .delete(glossaryTerms)
+        .where(
+          and(
+            eq(glossaryTerms.workspaceId, workspaceId),
+            eq(glossaryTerms.id, id)
+          )
+        );
+    },
+  },
+
+  languages: {
+    async list(): Promise<Language[]> {
+      return await db.select().from(languages).orderBy(asc(languages.name));
+    },
+
+    async listEnabled(): Promise<Language[]> {
+      return await db
+        .select()
+        .from(languages)
+        .where(eq(languages.enabled, true))
+        .orderBy(asc(languages.name));
+    },
+
+    async findByCode(code: string): Promise<Language | undefined> {
+      const [language] = await db
+        .select()
+        .from(languages)
+        .where(eq(languages.code, code));
+      return language;
+    },
+
+    async findByCodes(codes: string[]): Promise<Language[]> {
+      if (codes.length === 0) {
+        return [];
+      }
+
+      return await db
+        .select()
+        .from(languages)
+        .where(inArray(languages.code, codes));
+    },
+
+    async create(data: InsertLanguage): Promise<Language> {
+      const [language] = await db.insert(languages).values(data).returning();
+      return language;
+    },
+
+    async update(
+      code: string,
+      data: Partial<Omit<InsertLanguage, 'code'>>
+    ): Promise<Language | undefined> {
+      const [language] = await db
+        .update(languages)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(languages.code, code))
+        .returning();
+      return language;
+    },
+  },
+
+  styleGuides: {
+    /**
+     * Lists language-wide guides when `templateId` is null, otherwise the
+     * guides scoped to that template.
+     */
+    async list(
+      workspaceId: string,
+      templateId: string | null
+    ): Promise<StyleGuide[]> {
+      return await db
+        .select()
+        .from(styleGuides)
+        .where(
+          and(
+            eq(styleGuides.workspaceId, workspaceId),
+            templateId
+              ? eq(styleGuides.templateId, templateId)
+              : isNull(styleGuides.templateId)
+          )
+        )
+        .orderBy(asc(styleGuides.languageCode));
+    },
+
+    async findById(
+      workspaceId: string,
+      id: string
+    ): Promise<StyleGuide | undefined> {
+      const [guide] = await db
+        .select()
+        .from(styleGuides)
+        .where(
+          and(eq(styleGuides.workspaceId, workspaceId), eq(styleGuides.id, id))
+        );
+      return guide;
+    },
+
+    async findApplicable(
+      workspaceId: string,
+      languageCode: string,
+      templateId: string
+    ): Promise<StyleGuide[]> {
+      return await db
+        .select()
+        .from(styleGuides)
+        .where(
+          and(
+            eq(styleGuides.workspaceId, workspaceId),
+            eq(styleGuides.languageCode, languageCode),
+            or(
+              isNull(styleGuides.templateId),
+              eq(styleGuides.templateId, templateId)
+            )
+          )
+        );
+    },
+
+    async findByScope(
+      workspaceId: string,
+      languageCode: string,
+      templateId: string | null
+    ): Promise<StyleGuide | undefined> {
+      const [guide] = await db
+        .select()
+        .from(styleGuides)
+        .where(
+          and(
+            eq(styleGuides.workspaceId, workspaceId),
+            eq(styleGuides.languageCode, languageCode),
+            templateId
+              ? eq(styleGuides.templateId, templateId)
+              : isNull(styleGuides.templateId)
+          )
+        );
+      return guide;
+    },
+
+    async create(data: InsertStyleGuide): Promise<StyleGuide> {
+      const [guide] = await db.insert(styleGuides).values(data).returning();
+      return guide;
+    },
+
+    async update(
+      workspaceId: string,
+      id: string,
+      data: Partial<Omit<InsertStyleGuide, 'workspaceId'>>
+    ): Promise<StyleGuide | undefined> {
+      const [guide] = await db
+        .update(styleGuides)
+        .set({ ...data, updatedAt: new Date() })
+        .where(
+          and(eq(styleGuides.workspaceId, workspaceId), eq(styleGuides.id, id))
+        )
+        .returning();
+      return guide;
+    },
+
+    async delete(workspaceId: string, id: string): Promise<void> {
+      await db
+        .delete(styleGuides)
+        .where(
+          and(eq(styleGuides.workspaceId, workspaceId), eq(styleGuides.id, id))
+        );
+    },
+  },
+
+  templateSettings: {
+    async findByTemplateId(
+      workspaceId: string,
+      templateId: string
+    ): Promise<TemplateSettings | undefined> {
+      const [settings] = await db
+        .select()
+        .from(templateSettings)
+        .where(
+          and(
+            eq(templateSettings.workspaceId, workspaceId),
+            eq(templateSettings.templateId, templateId)
+          )
+        );
+      return settings;
+    },
+
+    // Across every workspace, for the scheduled sync
+    async listAutoTranslate(): Promise<TemplateSettings[]> {
+      return await db
+        .select()
+        .from(templateSettings)
+        .where(eq(templateSettings.autoTranslate, true))
+        .orderBy(
+          asc(templateSettings.workspaceId),
+          asc(templateSettings.templateId)
+        );
+    },
+
+    async upsert(
+      data: Omit<
+        InsertTemplateSettings,
+        | 'lastSyncedVersionId'
+        | 'lastSyncedHash'
+        | 'lastSyncedAt'
+        | 'createdAt'
+        | 'updatedAt'
+      >
+    ): Promise<TemplateSettings> {
+      const [settings] = await db
+        .insert(templateSettings)
+        .values(data)
+        .onConflictDoUpdate({
+          target: [templateSettings.workspaceId, templateSettings.templateId],
+          // Languages may have changed, so the next sync re-checks the version
+          set: {
+            ...data,
+            lastSyncedVersionId: null,
+            lastSyncedHash: null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return settings;
+    },
+
+    async markSynced(
+      workspaceId: string,
+      templateId: string,
+      synced: { versionId: string; hash: string; templateName?: string }
+    ): Promise<void> {
+      await db
+        .update(templateSettings)
+        .set({
+          lastSyncedVersionId: synced.versionId,
+          lastSyncedHash: synced.hash,
+          lastSyncedAt: new Date(),
+          ...(synced.templateName ? { templateName: synced.templateName } : {}),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(templateSettings.workspaceId, workspaceId),
+            eq(templateSettings.templateId, templateId)
+          )
+        );
+    },
+  },
+
+  usage: {
+    async totalsByTemplate(
+      workspaceId: string,
+      from: Date,
+      to: Date
+    ): Promise<
+      Array<UsageTotals & { templateId: string; templateName: string }>
+    > {
+      return await db
+        .select({
+          templateId: templateTranslations.templateId,
+          templateName: sql<string>`max(${translationTasks.templateName})`,
+          ...usageTotals,
+        })
+        .from(templateTranslations)
+        .innerJoin(
+          translationTasks,
+          eq(templateTranslations.taskId, translationTasks.id)
+        )
+        .where(usageBetween(workspaceId, from, to))
+        .groupBy(templateTranslations.templateId)
+        .orderBy(desc(usageTotals.estimatedCost));
+    },
+
+    async totalsByLanguage(
+      workspaceId: string,
+      from: Date,
+      to: Date
+    ): Promise<Array<UsageTotals & { languageCode: string }>> {
+      return await db
+        .select({
+          languageCode: templateTranslations.languageCode,
+          ...usageTotals,
+        })
+        .from(templateTranslations)
+        .where(usageBetween(workspaceId, from, to))
+        .groupBy(templateTranslations.languageCode)
+        .orderBy(desc(usageTotals.estimatedCost));
+    },
+
+    async totalsByMonth(
+      workspaceId: string,
+      from: Date,
+      to: Date
+    ): Promise<Array<UsageTotals & { month: string }>> {
+      const month = sql<string>`to_char(date_trunc('month', ${templateTranslations.createdAt}), 'YYYY-MM-DD')`;
+
+      return await db
+        .select({ month, ...usageTotals })
+        .from(templateTranslations)
+        .where(usageBetween(workspaceId, from, to))
+        .groupBy(month)
+        .orderBy(desc(month));
+    },
+
+    async totalCost(
+      workspaceId: string,
+      from: Date,
+      to: Date
+    ): Promise<number> {
+      const [usage] = await db
+        .select({ estimatedCost: usageTotals.estimatedCost })
+        .from(templateTranslations)
+        .where(usageBetween(workspaceId, from, to));
+      return usage?.estimatedCost ?? 0;
+    },
+  },
+
+  translationBudget: {
+    async get(workspaceId: string): Promise<TranslationBudget | undefined> {
+      const [budget] = await db
+        .select()
+        .from(translationBudget)
+        .where(eq(translationBudget.id, workspaceId));
+      return budget;
+    },
+
+    async setMonthlyLimit(
+      workspaceId: string,
+      monthlyLimit: number | null,
+      updatedBy: string
+    ): Promise<TranslationBudget> {
+      const [budget] = await db
+        .insert(translationBudget)
+        .values({ id: workspaceId, monthlyLimit, updatedBy })
+        .onConflictDoUpdate({
+          target: translationBudget.id,
+          set: { monthlyLimit, updatedBy, updatedAt: new Date() },
+        })
+        .returning();
+      return budget;
+    },
+  },
+
+  userRoles: {
+    async findByUserId(userId: string): Promise<UserRoleRecord | undefined> {
+      const [record] = await db
+        .select()
+        .from(userRoles)
+        .where(eq(userRoles.userId, userId));
+      return record;
+    },
+
+    async list(): Promise<UserRoleRecord[]> {
+      return await db
+        .select()
+        .from(userRoles)
+        .orderBy(asc(userRoles.email), asc(userRoles.createdAt));
+    },
+
+    async countAdmins(): Promise<number> {
+      const [result] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(userRoles)
+        .where(eq(userRoles.role, 'admin'));
+      return result?.count ?? 0;
+    },
+
+    // Concurrent first requests from the same user keep whichever row won
+    async createIfMissing(
+      data: Pick<InsertUserRoleRecord, 'userId' | 'email' | 'role'>
+    ): Promise<UserRoleRecord> {
+      await db.insert(userRoles).values(data).onConflictDoNothing();
+      const [record] = await db
+        .select()
+        .from(userRoles)
+        .where(eq(userRoles.userId, data.userId));
+      return record;
+    },
+
+    async update(
+      userId: string,
+      data: Partial<
+        Pick<
+          InsertUserRoleRecord,
+          'email' | 'role' | 'reviewLanguages' | 'updatedBy'
+        >
+      >
+    ): Promise<UserRoleRecord | undefined> {
+      const [record] = await db
+        .update(userRoles)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(userRoles.userId, userId))
+        .returning();
+      return record;
+    },
+  },
+
+  workspaces: {
+    async list(): Promise<Workspace[]> {
+      return await db
+        .select()
+        .from(workspaces)
+        .orderBy(asc(workspaces.createdAt));
+    },
+
+    async listForUser(userId: string): Promise<Workspace[]> {
+      const rows = await db
+        .select({ workspace: workspaces })
+        .from(workspaces)
+        .innerJoin(
+          workspaceMembers,
+          eq(workspaceMembers.workspaceId, workspaces.id)
+        )
+        .where(eq(workspaceMembers.userId, userId))
+        .orderBy(asc(workspaces.createdAt));
+      return rows.map((row) => row.workspace);
+    },
+
+    async findById(id: string): Promise<Workspace | undefined> {
+      const [workspace] = await db
+        .select()
+        .from(workspaces)
+        .where(eq(workspaces.id, id));
+      return workspace;
+    },
+
+    async findBySlug(slug: string): Promise<Workspace | undefined> {
+      const [workspace] = await db
+        .select()
+        .from(workspaces)
+        .where(eq(workspaces.slug, slug));
+      return workspace;
+    },
+
+    async create(data: InsertWorkspace): Promise<Workspace> {
+      const [workspace] = await db.insert(workspaces).values(data).returning();
+      return workspace;
+    },
+
+    // Members, secrets and workspace data go with it through ON DELETE CASCADE
+    async delete(id: string): Promise<void> {
+      await db.delete(workspaces).where(eq(workspaces.id, id));
+    },
+
+    async update(
+      id: string,
+      data: Partial<Pick<InsertWorkspace, 'name'>>
+    ): Promise<Workspace | undefined> {
+      const [workspace] = await db
+        .update(workspaces)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(workspaces.id, id))
+        .returning();
+      return workspace;
+    },
+
+    async listMemberIds(workspaceId: string): Promise<string[]> {
+      const rows = await db
+        .select({ userId: workspaceMembers.userId })
+        .from(workspaceMembers)
+        .where(eq(workspaceMembers.workspaceId, workspaceId));
+      return rows.map((row) => row.userId);
+    },
+
+    async addMember(workspaceId: string, userId: string): Promise<void> {
+      await db
+        .insert(workspaceMembers)
+        .values({ workspaceId, userId })
+        .onConflictDoNothing();
+    },
+
+    async removeMember(workspaceId: string, userId: string): Promise<void> {
+      await db
+        .delete(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.userId, userId)
+          )
+        );
+    },
+  },
+
+  secrets: {
+    async listForWorkspaces(workspaceIds: string[]): Promise<Secret[]> {
+      if (workspaceIds.length === 0) {
+        return [];
+      }
+
+      return await db
+        .select()
+        .from(secrets)
+        .where(inArray(secrets.workspaceId, workspaceIds));
+    },
+
+    async find(
+      workspaceId: string,
+      kind: SecretKind
+    ): Promise<Secret | undefined> {
+      const [secret] = await db
+        .select()
+        .from(secrets)
+        .where(
+          and(eq(secrets.workspaceId, workspaceId), eq(secrets.kind, kind))
+        );
+      return secret;
+    },
+
+    // Stores a new value, or rotates the existing one to the next version
+    async upsert(
+      data: Pick<
+        InsertSecret,
+        | 'workspaceId'
+        | 'kind'
+        | 'ciphertext'
+        | 'encryptedDataKey'
+        | 'hint'
+        | 'updatedBy'
+      >
+    ): Promise<Secret> {
+      const [secret] = await db
+        .insert(secrets)
+        .values({ ...data, createdBy: data.updatedBy })
+        .onConflictDoUpdate({
+          target: [secrets.workspaceId, secrets.kind],
+          set: {
+            ciphertext: data.ciphertext,
+            encryptedDataKey: data.encryptedDataKey,
+            hint: data.hint,
+            updatedBy: data.updatedBy,
+            version: sql`${secrets.version} + 1`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return secret;
+    },
+
+    async delete(workspaceId: string, kind: SecretKind): Promise<void> {
+      await db
+        .delete(secrets)
+        .where(
+          and(eq(secrets.workspaceId, workspaceId), eq(secrets.kind, kind))
+        );
+    },
+  },
+
+  auditEvents: {
+    async record(data: InsertAuditEvent): Promise<AuditEvent> {
+      const [event] = await db.insert(auditEvents).values(data).returning();
+      return event;
+    },
+
+    async list(
+      workspaceId: string,
+      filters: AuditEventFilters
+    ): Promise<AuditEvent[]> {
+      return await db
+        .select()
+        .from(auditEvents)
+        .where(
+          and(
+            eq(auditEvents.workspaceId, workspaceId),
+            filters.templateId
+              ? eq(auditEvents.templateId, filters.templateId)
+              : undefined,
+            filters.taskId ? eq(auditEvents.taskId, filters.taskId) : undefined,
+            filters.translationId
+              ? eq(auditEvents.translationId, filters.translationId)
+              : undefined,
+            filters.actorId
+              ? eq(auditEvents.actorId, filters.actorId)
+              : undefined,
+            filters.languageCode
+              ? eq(auditEvents.languageCode, filters.languageCode)
+              : undefined,
+            filters.actions?.length
+              ? inArray(auditEvents.action, filters.actions)
+              : undefined,
+            filters.from ? gte(auditEvents.createdAt, filters.from) : undefined,
+            filters.to ? lt(auditEvents.createdAt, filters.to) : undefined,
+            filters.before ? olderThanEvent(filters.before) : undefined
+          )
+        )
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(filters.limit);
+    },
+  },
+
+  translationMemory: {
+    async findByHashes(
+      workspaceId: string,
+      sourceLanguage: string,
+      languageCode: string,
+      sourceHashes: string[]
+    ): Promise<TranslationMemoryEntry[]> {
+      if (sourceHashes.length === 0) {
+        return [];
+      }
+
+      return await db
+        .select()
+        .from(translationMemory)
+        .where(
+          and(
+            eq(translationMemory.workspaceId, workspaceId),
+            eq(translationMemory.sourceLanguage, sourceLanguage),
+            eq(translationMemory.languageCode, languageCode),
+            inArray(translationMemory.sourceHash, sourceHashes)
+          )
+        );
+    },
+
+    async findCandidates(
+      workspaceId: string,
+      sourceLanguage: string,
+      languageCode: string,
+      minLength: number,
+      maxLength: number,
+      limit = 500
+    ): Promise<TranslationMemoryEntry[]> {
+      return await db
+        .select()
+        .from(translationMemory)
+        .where(
+          and(
+            eq(translationMemory.workspaceId, workspaceId),
+            eq(translationMemory.sourceLanguage, sourceLanguage),
+            eq(translationMemory.languageCode, languageCode),
+            between(
+              sql`char_length(${translationMemory.sourceText})`,
+              minLength,
+              maxLength
+            )
+          )
+        )
+        .orderBy(
+          desc(translationMemory.verified),
+          desc(translationMemory.usageCount),
+          desc(translationMemory.updatedAt)
+        )
+        .limit(limit);
+    },
+
+    async upsert(
+      entries: InsertTranslationMemoryEntry[],
+      { overwrite }: { overwrite: boolean }
+    ): Promise<void> {
+      if (entries.length === 0) {
+        return;
+      }
+
+      const query = db.insert(translationMemory).values(entries);
+      const target = [
+        translationMemory.workspaceId,
+        translationMemory.sourceLanguage,
+        translationMemory.languageCode,
+        translationMemory.sourceHash,
+      ];
+
+      if (!overwrite) {
+        await query.onConflictDoNothing({ target });
+        return;
+      }
+
+      await query.onConflictDoUpdate({
+        target,
+        set: {
+          targetText: sql`excluded.target_text`,
+          templateId: sql`excluded.template_id`,
+          translationId: sql`excluded.translation_id`,
+          verified: sql`excluded.verified`,
+          updatedAt: new Date(),
+        },
+      });
+    },
+
+    async recordUsage(ids: string[]): Promise<void> {
+      if (ids.length === 0) {
+        return;
+      }
+
+      await db
+        .update(translationMemory)
+        .set({
+          usageCount: sql`${translationMemory.usageCount} + 1`,
+          lastUsedAt: new Date(),
+        })
+        .where(inArray(translationMemory.id, ids));
+    },
+  },
 };
@@ -0,0 +1,173 @@
+import { dbService } from '@/lib/services/db-service';
+import { SENDGRID_API_BASE_URL } from '@/lib/services/sendgrid-service';
+import { getDeepLApiBaseUrl } from '@/lib/translation/providers/deepl';
+import { openSecret, sealSecret, secretHint } from '@/lib/security/encryption';
+import {
+  SECRET_KINDS,
+  SECRET_KIND_LABELS,
+  type SecretKind,
+} from '@/lib/constants/secrets';
+import { DEFAULT_WORKSPACE_SLUG } from '@/lib/constants/workspaces';
+import type { Secret, Workspace } from '@/lib/db/schema';
+import type { SecretStatus, SecretTestResult } from '@/lib/types/secret';
+
+type WorkspaceRef = Pick<Workspace, 'id' | 'slug'>;
+
+const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+
+const TEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Keys from the environment predate the secrets store. SENDGRID_API_KEY
+ * belongs to the default workspace only, so a client workspace without its
+ * own key can never reach another account's templates; the translation
+ * engine keys are shared by every workspace that has not stored its own.
+ */
+function environmentSecret(
+  workspace: WorkspaceRef,
+  kind: SecretKind
+): string | null {
+  if (kind === 'sendgrid' && workspace.slug !== DEFAULT_WORKSPACE_SLUG) {
+    return null;
+  }
+  return process.env[SECRET_KIND_LABELS[kind].envVar] || null;
+}
+
+function toSecretStatus(
+  workspace: WorkspaceRef,
+  kind: SecretKind,
+  stored: Secret | undefined
+): SecretStatus {
+  if (stored) {
+    return {
+      kind,
+      source: 'workspace',
+      hint: stored.hint,
+      version: stored.version,
+      updatedAt: stored.updatedAt,
+      updatedBy: stored.updatedBy,
+    };
+  }
+
+  return {
+    kind,
+    source: environmentSecret(workspace, kind) ? 'environment' : null,
+    hint: null,
+    version: null,
+    updatedAt: null,
+    updatedBy: null,
+  };
+}
+
+// The workspace's own key, falling back to the environment
+export async function resolveSecret(
+  workspace: WorkspaceRef,
+  kind: SecretKind
+): Promise<string | null> {
+  const stored = await dbService.secrets.find(workspace.id, kind);
+  return stored ? openSecret(stored) : environmentSecret(workspace, kind);
+}
+
+// For background jobs, which only carry the workspace id
+export async function resolveSecretById(
+  workspaceId: string,
+  kind: SecretKind
+): Promise<string | null> {
+  const workspace = await dbService.workspaces.findById(workspaceId);
+  return workspace ? await resolveSecret(workspace, kind) : null;
+}
+
+// Where each kind of key comes from per workspace, without decrypting any
+export async function describeSecrets(
+  workspaces: WorkspaceRef[]
+): Promise<Map<string, SecretStatus[]>> {
+  const stored = await dbService.secrets.listForWorkspaces(
+    workspaces.map((workspace) => workspace.id)
+  );
+
+  return new Map(
+    workspaces.map((workspace) => [
+      workspace.id,
+      SECRET_KINDS.map((kind) =>
+        toSecretStatus(
+          workspace,
+          kind,
+          stored.find(
+            (secret) =>
+              secret.workspaceId === workspace.id && secret.kind === kind
+          )
+        )
+      ),
+    ])
+  );
+}
+
+// Adds the key, or rotates it when the workspace already has one
+export async function storeSecret(
+  workspaceId: string,
+  kind: SecretKind,
+  value: string,
+  updatedBy: string | null
+): Promise<Secret> {
+  return await dbService.secrets.upsert({
+    workspaceId,
+    kind,
+    ...sealSecret(value),
+    hint: secretHint(value),
+    updatedBy,
+  });
+}
+
+function buildTestRequest(kind: SecretKind, value: string) {
+  switch (kind) {
+    case 'sendgrid':
+      return {
+        url: `${SENDGRID_API_BASE_URL}/v3/scopes`,
+        headers: { Authorization: `Bearer ${value}` },
+      };
+    case 'openai':
+      return {
+        url: `${OPENAI_API_BASE_URL}/models`,
+        headers: { Authorization: `Bearer ${value}` },
+      };
+    case 'deepl':
+      return {
+        url: `${getDeepLApiBaseUrl(value)}/v2/usage`,
+        headers: { Authorization: `DeepL-Auth-Key ${value}` },
+      };
+  }
+}
+
+/**
+ * Makes a cheap read-only call with the key, so a typo or a revoked key shows
+ * up in settings rather than in the next translation or sync.
+ */
+export async function testSecret(
+  kind: SecretKind,
+  value: string
+): Promise<SecretTestResult> {
+  const { label } = SECRET_KIND_LABELS[kind];
+  const { url, headers } = buildTestRequest(kind, value);
+
+  try {
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { ok: true, message: `${label} accepted the key` };
+    }
+
+    return {
+      ok: false,
+      message:
+        response.status === 401 || response.status === 403
+          ? `${label} rejected the key`
+          : `${label} returned an unexpected status: ${response.status}`,
+    };
+  } catch (error) {
+    console.error(`Failed to reach ${label}:`, error);
+    return { ok: false, message: `Could not reach ${label}` };
+  }
+}
@@ -0,0 +1,145 @@
+import type {
+  SendGridTemplate,
+  SendGridTemplateVersion,
+} from '@/lib/types/sendgrid';
+
+// Overridable so local environments can point at a stubbed SendGrid endpoint
+export const SENDGRID_API_BASE_URL = (
+  process.env.SENDGRID_API_BASE_URL || 'https://api.sendgrid.com'
+).replace(/\/+$/, '');
+
+export interface TemplateVersionPayload {
+  name: string;
+  subject: string;
+  html_content: string;
+  plain_content?: string;
+  generate_plain_content?: boolean;
+  active?: 0 | 1;
+}
+
+async function request<T>(
+  apiKey: string,
+  path: string,
+  init: RequestInit = {}
+): Promise<
+  { ok: true; data: T } | { ok: false; status: number; error: string }
+> {
+  const response = await fetch(`${SENDGRID_API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response
+      .json()
+      .catch(() => ({ error: 'Unknown error' }));
+
+    return {
+      ok: false,
+      status: response.status,
+      error:
+        errorData.errors?.[0]?.message ||
+        `SendGrid API error: ${response.status}`,
+    };
+  }
+
+  const data = (await response.json()) as T;
+  return { ok: true, data };
+}
+
+export const sendgridService = {
+  // Includes every version; resolves to undefined when the template is gone
+  async getTemplate(
+    apiKey: string,
+    templateId: string
+  ): Promise<SendGridTemplate | undefined> {
+    const result = await request<SendGridTemplate>(
+      apiKey,
+      `/v3/templates/${templateId}`
+    );
+
+    if (!result.ok) {
+      if (result.status === 404) {
+        return undefined;
+      }
+      throw new Error(result.error);
+    }
+
+    return { ...result.data, versions: result.data.versions ?? [] };
+  },
+
+  // Resolves to undefined when the version no longer exists on SendGrid
+  async getTemplateVersion(
+    apiKey: string,
+    templateId: string,
+    versionId: string
+  ): Promise<SendGridTemplateVersion | undefined> {
+    const result = await request<SendGridTemplateVersion>(
+      apiKey,
+      `/v3/templates/${templateId}/versions/${versionId}`
+    );
+
+    if (!result.ok) {
+      if (result.status === 404) {
+        return undefined;
+      }
+      throw new Error(result.error);
+    }
+
+    return result.data;
+  },
+
+  async createTemplateVersion(
+    apiKey: string,
+    templateId: string,
+    payload: TemplateVersionPayload
+  ): Promise<SendGridTemplateVersion> {
+    const result = await request<SendGridTemplateVersion>(
+      apiKey,
+      `/v3/templates/${templateId}/versions`,
+      {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      }
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+
+    return result.data;
+  },
+
+  /**
+   * Updates an existing version in place. Resolves to undefined when the
+   * version no longer exists on SendGrid so callers can recreate it.
+   */
+  async updateTemplateVersion(
+    apiKey: string,
+    templateId: string,
+    versionId: string,
+    payload: Partial<TemplateVersionPayload>
+  ): Promise<SendGridTemplateVersion | undefined> {
+    const result = await request<SendGridTemplateVersion>(
+      apiKey,
+      `/v3/templates/${templateId}/versions/${versionId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      }
+    );
+
+    if (!result.ok) {
+      if (result.status === 404) {
+        return undefined;
+      }
+      throw new Error(result.error);
+    }
+
+    return result.data;
+  },
+};
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { dbService } from '@/lib/services/db-service';
+import { AUDIT_ACTIONS, type AuditAction } from '@/lib/constants/audit';
+import type { UserAccess } from '@/lib/constants/roles';
+import type { AuditEvent, TemplateTranslation } from '@/lib/db/schema';
+import type { AuditEventFilters } from '@/lib/types/translation';
+
+// Null when a background job acted on its own, e.g. the scheduled sync
+export type AuditActor = Pick<UserAccess, 'userId' | 'email'> | null;
+
+interface AuditEventInput {
+  workspaceId: string;
+  action: AuditAction;
+  templateId?: string | null;
+  taskId?: string | null;
+  translationId?: string | null;
+  languageCode?: string | null;
+  payload?: Record<string, unknown> | null;
+}
+
+export async function recordAuditEvent(
+  actor: AuditActor,
+  event: AuditEventInput
+): Promise<AuditEvent> {
+  return await dbService.auditEvents.record({
+    ...event,
+    actorId: actor?.userId ?? null,
+    actorEmail: actor?.email ?? null,
+  });
+}
+
+/** Fills the targets of an event about one translation version. */
+export function translationTarget(translation: TemplateTranslation) {
+  return {
+    workspaceId: translation.workspaceId,
+    templateId: translation.templateId,
+    taskId: translation.taskId,
+    translationId: translation.id,
+    languageCode: translation.languageCode,
+  };
+}
+
+const optionalDate = z.string().trim().min(1).pipe(z.coerce.date()).optional();
+
+export const auditEventQuerySchema = z
+  .object({
+    templateId: z.string().trim().min(1).optional(),
+    taskId: z.string().uuid().optional(),
+    translationId: z.string().uuid().optional(),
+    actorId: z.string().trim().min(1).optional(),
+    languageCode: z.string().trim().min(1).optional(),
+    // Comma-separated list of actions
+    action: z
+      .string()
+      .trim()
+      .transform((value) => value.split(',').filter(Boolean))
+      .pipe(z.array(z.enum(AUDIT_ACTIONS)))
+      .optional(),
+    from: optionalDate,
+    to: optionalDate,
+    before: z.string().uuid().optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .transform(({ action, ...filters }): AuditEventFilters => ({
+    ...filters,
+    actions: action,
+  }));
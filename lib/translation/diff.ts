@@ -0,0 +1,223 @@
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type {
+  DiffChange,
+  ReviewSegment,
+  SegmentDiff,
+  TranslationDiff,
+} from '@/lib/types/translation';
+import { matchUnchangedSegments } from '@/lib/translation/incremental';
+import { buildReviewSegments } from '@/lib/translation/review';
+import {
+  assembleHtml,
+  projectHtmlTranslation,
+  segmentHtml,
+} from '@/lib/translation/segments';
+
+// Above this many DP cells the two sides are reported as one replacement
+export const MAX_DIFF_CELLS = 250_000;
+
+const BASE_MARK_STYLE = 'background:#fee2e2;text-decoration:line-through;';
+const COMPARE_MARK_STYLE = 'background:#dcfce7;';
+
+function pushChange(
+  changes: DiffChange[],
+  type: DiffChange['type'],
+  value: string
+) {
+  const last = changes[changes.length - 1];
+  if (last?.type === type) {
+    last.value += value;
+  } else {
+    changes.push({ type, value });
+  }
+}
+
+/**
+ * Longest-common-subsequence diff over tokens. Inputs are single segments or
+ * template lines, so the quadratic table stays small.
+ */
+export function diffTokens(before: string[], after: string[]): DiffChange[] {
+  const changes: DiffChange[] = [];
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    pushChange(changes, 'removed', before.join(''));
+    pushChange(changes, 'added', after.join(''));
+    return changes.filter((change) => change.value.length > 0);
+  }
+
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      table[i * cols + j] =
+        before[i] === after[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      pushChange(changes, 'equal', before[i]);
+      i += 1;
+      j += 1;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      pushChange(changes, 'removed', before[i]);
+      i += 1;
+    } else {
+      pushChange(changes, 'added', after[j]);
+      j += 1;
+    }
+  }
+  before.slice(i).forEach((token) => pushChange(changes, 'removed', token));
+  after.slice(j).forEach((token) => pushChange(changes, 'added', token));
+
+  return changes;
+}
+
+export function diffWords(before: string, after: string) {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+  return diffTokens(tokenize(before), tokenize(after));
+}
+
+export function diffLines(before: string, after: string) {
+  const tokenize = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  return diffTokens(tokenize(before), tokenize(after));
+}
+
+/**
+ * Wraps the given text segments of a translation in <mark> so the rendered
+ * preview shows where the copy changed. Attribute segments are left alone
+ * since markup cannot be nested inside them.
+ */
+function highlightSegments(
+  translation: TemplateTranslation,
+  segmentIds: Set<string>,
+  style: string
+) {
+  const document = projectHtmlTranslation(
+    segmentHtml(translation.originalHtml),
+    translation.translatedHtml ?? ''
+  );
+  if (!document) {
+    return translation.translatedHtml ?? '';
+  }
+
+  const marked = new Map<string, string>();
+  document.segments.forEach((segment) => {
+    if (segmentIds.has(segment.id) && !segment.id.startsWith('a')) {
+      marked.set(segment.id, `<mark style="${style}">${segment.text}</mark>`);
+    }
+  });
+
+  // The marks are markup and the wrapped copy is already HTML
+  return assembleHtml(document, marked, { escapeText: false });
+}
+
+/**
+ * Compare segment id -> base segment id with the same source text. Versions
+ * translated from different source revisions are aligned per field with the
+ * same matcher incremental retranslation uses, so an edited or inserted
+ * paragraph does not shift every segment after it.
+ */
+function alignSegments(
+  baseSegments: ReviewSegment[],
+  compareSegments: ReviewSegment[]
+): Map<string, string> {
+  const aligned = new Map<string, string>();
+  const fields = new Set(compareSegments.map((segment) => segment.field));
+
+  fields.forEach((field) => {
+    const toSource = (segment: ReviewSegment) => ({
+      id: segment.id,
+      text: segment.source,
+    });
+    matchUnchangedSegments(
+      baseSegments.filter((segment) => segment.field === field).map(toSource),
+      compareSegments.filter((segment) => segment.field === field).map(toSource)
+    ).forEach((baseId, compareId) => aligned.set(compareId, baseId));
+  });
+
+  return aligned;
+}
+
+export function diffTranslations(
+  base: TemplateTranslation,
+  compare: TemplateTranslation
+): TranslationDiff {
+  const result = {
+    base: { id: base.id, version: base.version },
+    compare: { id: compare.id, version: compare.version },
+  };
+
+  const baseSegments = buildReviewSegments(base);
+  const compareSegments = buildReviewSegments(compare);
+
+  // Last resort for versions that no longer line up with their own source
+  if (!baseSegments || !compareSegments) {
+    return {
+      ...result,
+      segments: null,
+      unchangedSegments: 0,
+      lines: diffLines(base.translatedHtml ?? '', compare.translatedHtml ?? ''),
+      highlightedHtml: {
+        base: base.translatedHtml ?? '',
+        compare: compare.translatedHtml ?? '',
+      },
+    };
+  }
+
+  const aligned =
+    base.originalHtml === compare.originalHtml
+      ? new Map(compareSegments.map((segment) => [segment.id, segment.id]))
+      : alignSegments(baseSegments, compareSegments);
+  const baseTargets = new Map(
+    baseSegments.map((segment) => [segment.id, segment.target])
+  );
+
+  // Base segments whose source text is gone are marked as removed, and
+  // compare segments with new source text diff against nothing
+  const alignedBaseIds = new Set(aligned.values());
+  const segments: SegmentDiff[] = [];
+  const baseChangedIds = new Set(
+    baseSegments
+      .map((segment) => segment.id)
+      .filter((id) => !alignedBaseIds.has(id))
+  );
+  compareSegments.forEach((segment) => {
+    const baseId = aligned.get(segment.id);
+    const previous = baseId ? (baseTargets.get(baseId) ?? '') : '';
+    if (previous !== segment.target) {
+      segments.push({
+        id: segment.id,
+        field: segment.field,
+        source: segment.source,
+        changes: diffWords(previous, segment.target),
+      });
+      if (baseId) {
+        baseChangedIds.add(baseId);
+      }
+    }
+  });
+
+  const compareChangedIds = new Set(segments.map((segment) => segment.id));
+
+  return {
+    ...result,
+    segments,
+    unchangedSegments: compareSegments.length - segments.length,
+    lines: null,
+    highlightedHtml: {
+      base: highlightSegments(base, baseChangedIds, BASE_MARK_STYLE),
+      compare: highlightSegments(
+        compare,
+        compareChangedIds,
+        COMPARE_MARK_STYLE
+      ),
+    },
+  };
+}
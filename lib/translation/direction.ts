@@ -0,0 +1,67 @@
+import type { TextDirection } from '@/lib/constants/languages';
+import { tokenizeHtml } from '@/lib/translation/segments';
+
+// Block-level elements email clients consult for direction; Outlook in
+// particular ignores `dir` on <html> and <body> alone
+const DIRECTIONAL_TAG_REGEX =
+  /^<(html|body|table|td|th|div|p|h[1-6]|ul|ol|li|center|blockquote)\b/i;
+
+const DIR_ATTRIBUTE_REGEX = /\sdir\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/i;
+const LANG_ATTRIBUTE_REGEX = /\slang\s*=/i;
+
+const ALIGNMENT_REGEX =
+  /(text-align\s*:\s*|float\s*:\s*|\balign\s*=\s*["']?)(left|right)\b/gi;
+
+function mirrorAlignment(markup: string) {
+  return markup.replace(
+    ALIGNMENT_REGEX,
+    (_match, prefix: string, side: string) => {
+      const mirrored = side.toLowerCase() === 'left' ? 'right' : 'left';
+      return `${prefix}${side === side.toUpperCase() ? mirrored.toUpperCase() : mirrored}`;
+    }
+  );
+}
+
+function setDirection(tag: string, direction: TextDirection) {
+  const withoutDir = tag.replace(DIR_ATTRIBUTE_REGEX, '');
+  return withoutDir.replace(DIRECTIONAL_TAG_REGEX, `$& dir="${direction}"`);
+}
+
+/**
+ * Flips a document written for `from` into `to`: sets `dir` on block-level
+ * elements, adds `lang` to <html>, and mirrors left/right alignment in
+ * attributes and inline or embedded CSS. Only markup changes, so the text
+ * nodes still line up one-to-one with the source document.
+ */
+export function applyTextDirection(
+  html: string,
+  {
+    from,
+    to,
+    languageCode,
+  }: { from: TextDirection; to: TextDirection; languageCode: string }
+): string {
+  if (from === to) {
+    return html;
+  }
+
+  return tokenizeHtml(html)
+    .map((part) => {
+      if (part.type !== 'markup' || part.value.startsWith('<!--')) {
+        return part.value;
+      }
+
+      let markup = mirrorAlignment(part.value);
+
+      if (DIRECTIONAL_TAG_REGEX.test(markup)) {
+        markup = setDirection(markup, to);
+
+        if (/^<html\b/i.test(markup) && !LANG_ATTRIBUTE_REGEX.test(markup)) {
+          markup = markup.replace(/^<html\b/i, `$& lang="${languageCode}"`);
+        }
+      }
+
+      return markup;
+    })
+    .join('');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { GlossaryTerm } from '@/lib/db/schema';
+import { checkGlossaryCompliance } from '@/lib/translation/glossary';
+
+function term(overrides: Partial<GlossaryTerm>): GlossaryTerm {
+  return {
+    id: 'term-1',
+    workspaceId: 'workspace-1',
+    sourceTerm: 'Checkout',
+    translations: {},
+    doNotTranslate: false,
+    caseSensitive: false,
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('checkGlossaryCompliance', () => {
+  it('ignores terms that only appear in markup, URLs or placeholders', () => {
+    const issues = checkGlossaryCompliance({
+      terms: [term({ translations: { de: 'Kasse' } })],
+      languageCode: 'de',
+      originalHtml:
+        '<a class="checkout" href="https://shop.example/checkout">{{checkout_url}} Pay now</a>',
+      translatedHtml:
+        '<a class="checkout" href="https://shop.example/checkout">{{checkout_url}} Jetzt zahlen</a>',
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('does not accept a rendering that only appears in markup', () => {
+    const issues = checkGlossaryCompliance({
+      terms: [term({ translations: { de: 'Kasse' } })],
+      languageCode: 'de',
+      originalHtml: '<p>Go to Checkout</p>',
+      translatedHtml: '<p class="kasse">Zur Bezahlung</p>',
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ field: 'html', expected: 'Kasse' }),
+    ]);
+  });
+
+  it('matches terms against decoded copy and alt text', () => {
+    const issues = checkGlossaryCompliance({
+      terms: [term({ sourceTerm: 'R&D', doNotTranslate: true })],
+      languageCode: 'fr',
+      originalHtml: '<img alt="Our R&amp;D team">',
+      translatedHtml: '<img alt="Notre équipe R&amp;D">',
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('reports violations in the plain-text version', () => {
+    const issues = checkGlossaryCompliance({
+      terms: [term({ translations: { de: 'Kasse' } })],
+      languageCode: 'de',
+      originalHtml: '<p>Go to Checkout</p>',
+      translatedHtml: '<p>Zur Kasse</p>',
+      originalPlainContent: 'Go to Checkout: {{checkout_url}}',
+      translatedPlainContent: 'Zur Bezahlung: {{checkout_url}}',
+    });
+
+    expect(issues).toEqual([
+      {
+        termId: 'term-1',
+        sourceTerm: 'Checkout',
+        expected: 'Kasse',
+        field: 'plain',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import type { GlossaryTerm } from '@/lib/db/schema';
+import type { GlossaryIssue } from '@/lib/types/translation';
+import {
+  extractCopy,
+  segmentHtml,
+  segmentPlainText,
+} from '@/lib/translation/segments';
+
+export const glossaryTermInputSchema = z.object({
+  sourceTerm: z.string().trim().min(1).max(200),
+  translations: z.record(z.string(), z.string().trim().max(200)).default({}),
+  doNotTranslate: z.boolean().default(false),
+  caseSensitive: z.boolean().default(false),
+  notes: z.string().trim().max(500).nullish(),
+});
+
+// Drop blank per-language entries so they don't read as "translate to nothing"
+export function compactTranslations(translations: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(translations).filter(([, value]) => value.length > 0)
+  );
+}
+
+interface GlossaryRule {
+  term: GlossaryTerm;
+  expected: string;
+  keepAsIs: boolean;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string, caseSensitive: boolean) {
+  if (!term.trim()) {
+    return false;
+  }
+
+  // Unicode-aware word boundaries so "Pro" does not match inside "Product"
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+    caseSensitive ? 'u' : 'iu'
+  );
+  return pattern.test(text);
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Enough to match terms such as "R&D" against the escaped copy
+function decodeEntities(text: string) {
+  return text.replace(
+    /&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));/gi,
+    (match, decimal?: string, hex?: string, name?: string) => {
+      if (decimal || hex) {
+        return String.fromCodePoint(
+          parseInt(decimal ?? hex!, decimal ? 10 : 16)
+        );
+      }
+      return NAMED_ENTITIES[name!.toLowerCase()] ?? match;
+    }
+  );
+}
+
+function htmlCopy(html: string) {
+  return decodeEntities(extractCopy(segmentHtml(html)));
+}
+
+/**
+ * Resolves which glossary entries constrain a given target language. Terms
+ * without a do-not-translate flag or an approved target for the language are
+ * left to the model.
+ */
+export function resolveGlossaryRules(
+  terms: GlossaryTerm[],
+  languageCode: string
+): GlossaryRule[] {
+  return terms.flatMap((term) => {
+    if (term.doNotTranslate) {
+      return [{ term, expected: term.sourceTerm, keepAsIs: true }];
+    }
+
+    const target = term.translations[languageCode]?.trim();
+    if (!target) {
+      return [];
+    }
+
+    return [{ term, expected: target, keepAsIs: target === term.sourceTerm }];
+  });
+}
+
+export function buildGlossaryPrompt(
+  terms: GlossaryTerm[],
+  languageCode: string,
+  sourceText: string
+): string {
+  const rules = resolveGlossaryRules(terms, languageCode).filter(({ term }) =>
+    containsTerm(sourceText, term.sourceTerm, term.caseSensitive)
+  );
+
+  if (rules.length === 0) {
+    return '';
+  }
+
+  const lines = rules.map(({ term, expected, keepAsIs }) => {
+    const casing = term.caseSensitive ? ' (match casing exactly)' : '';
+    const note = term.notes ? ` — ${term.notes}` : '';
+    return keepAsIs
+      ? `- "${term.sourceTerm}": keep as-is, do not translate${casing}${note}`
+      : `- "${term.sourceTerm}": always translate as "${expected}"${casing}${note}`;
+  });
+
+  return `\n\nGLOSSARY (mandatory terminology):\n${lines.join('\n')}`;
+}
+
+/**
+ * Flags glossary terms that appear in the source but whose approved rendering
+ * is missing from the translation. Only the copy is searched, never the
+ * markup around it.
+ */
+export function checkGlossaryCompliance({
+  terms,
+  languageCode,
+  originalHtml,
+  translatedHtml,
+  originalSubject,
+  translatedSubject,
+  originalPlainContent,
+  translatedPlainContent,
+}: {
+  terms: GlossaryTerm[];
+  languageCode: string;
+  originalHtml: string;
+  translatedHtml: string;
+  originalSubject?: string | null;
+  translatedSubject?: string | null;
+  originalPlainContent?: string | null;
+  translatedPlainContent?: string | null;
+}): GlossaryIssue[] {
+  const rules = resolveGlossaryRules(terms, languageCode);
+  const fields: Array<{
+    field: GlossaryIssue['field'];
+    source: string;
+    target: string;
+  }> = [
+    {
+      field: 'html',
+      source: htmlCopy(originalHtml),
+      target: htmlCopy(translatedHtml),
+    },
+    {
+      field: 'subject',
+      source: originalSubject ?? '',
+      target: translatedSubject ?? '',
+    },
+  ];
+
+  if (originalPlainContent && translatedPlainContent) {
+    fields.push({
+      field: 'plain',
+      source: extractCopy(segmentPlainText(originalPlainContent)),
+      target: extractCopy(segmentPlainText(translatedPlainContent)),
+    });
+  }
+
+  return fields.flatMap(({ field, source, target }) =>
+    rules
+      .filter(
+        ({ term, expected }) =>
+          containsTerm(source, term.sourceTerm, term.caseSensitive) &&
+          !containsTerm(target, expected, term.caseSensitive)
+      )
+      .map(({ term, expected }) => ({
+        termId: term.id,
+        sourceTerm: term.sourceTerm,
+        expected,
+        field,
+      }))
+  );
+}
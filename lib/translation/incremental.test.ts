@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import {
+  carryOverUnchangedSegments,
+  matchUnchangedSegments,
+} from '@/lib/translation/incremental';
+import {
+  segmentHtml,
+  SUBJECT_SEGMENT_ID,
+  type TextSegment,
+} from '@/lib/translation/segments';
+
+function previousVersion(
+  overrides: Partial<TemplateTranslation>
+): TemplateTranslation {
+  return {
+    status: 'completed',
+    originalHtml: '<p>Hello</p>',
+    translatedHtml: '<p>Hallo</p>',
+    originalSubject: null,
+    translatedSubject: null,
+    originalPlainContent: null,
+    translatedPlainContent: null,
+    translatedTestData: null,
+    ...overrides,
+  } as TemplateTranslation;
+}
+
+function segments(texts: string[]): TextSegment[] {
+  return texts.map((text, index) => ({ id: `s${index}`, text }));
+}
+
+describe('matchUnchangedSegments', () => {
+  it('keeps matching segments after an inserted paragraph', () => {
+    const matches = matchUnchangedSegments(
+      segments(['Welcome', 'Your order shipped', 'Thanks']),
+      segments(['Welcome', 'New: free returns', 'Your order shipped', 'Thanks'])
+    );
+
+    expect(Object.fromEntries(matches)).toEqual({
+      s0: 's0',
+      s2: 's1',
+      s3: 's2',
+    });
+  });
+
+  it('matches nothing when the documents exceed the diff size cap', () => {
+    const texts = Array.from({ length: 501 }, (_, index) => `Line ${index}`);
+
+    expect(matchUnchangedSegments(segments(texts), segments(texts)).size).toBe(
+      0
+    );
+  });
+});
+
+describe('carryOverUnchangedSegments', () => {
+  it('keeps the verified wording of segments whose source did not change', () => {
+    const previous = previousVersion({
+      originalHtml:
+        '<h1>Your order shipped</h1><p>Track it below.</p><p>Thanks!</p>',
+      // A reviewer replaced the machine wording of the heading
+      translatedHtml:
+        '<h1>Ihre Bestellung ist unterwegs</h1><p>Verfolgen Sie sie unten.</p><p>Danke!</p>',
+      originalSubject: 'Shipped',
+      translatedSubject: 'Versendet',
+    });
+    const html = segmentHtml(
+      '<h1>Your order shipped</h1><p>Track it with the link below.</p><p>Thanks!</p>'
+    );
+
+    const carried = carryOverUnchangedSegments({
+      previous,
+      html,
+      subject: 'Shipped',
+      plain: null,
+      testData: null,
+    });
+
+    expect(Object.fromEntries(carried)).toEqual({
+      s0: 'Ihre Bestellung ist unterwegs',
+      s2: 'Danke!',
+      [SUBJECT_SEGMENT_ID]: 'Versendet',
+    });
+  });
+
+  it('carries nothing over from a version that did not complete', () => {
+    const carried = carryOverUnchangedSegments({
+      previous: previousVersion({ status: 'failed' }),
+      html: segmentHtml('<p>Hello</p>'),
+      subject: '',
+      plain: null,
+      testData: null,
+    });
+
+    expect(carried.size).toBe(0);
+  });
+});
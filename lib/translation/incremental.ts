@@ -0,0 +1,164 @@
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type { TestDataValue } from '@/lib/types/translation';
+import { MAX_DIFF_CELLS } from '@/lib/translation/diff';
+import {
+  normalizeSegmentText,
+  projectHtmlTranslation,
+  projectPlainTextTranslation,
+  segmentHtml,
+  segmentPlainText,
+  SUBJECT_SEGMENT_ID,
+  type SegmentedDocument,
+  type TextSegment,
+} from '@/lib/translation/segments';
+import type { TestDataDocument } from '@/lib/translation/test-data';
+
+/**
+ * Pairs each new segment with an old one whose source text is identical,
+ * using the longest common subsequence so an inserted or removed paragraph
+ * does not shift every following match. Above the diff size cap nothing is
+ * matched and the whole document is translated again.
+ */
+export function matchUnchangedSegments(
+  previous: TextSegment[],
+  next: TextSegment[]
+): Map<string, string> {
+  const matches = new Map<string, string>();
+  if (previous.length * next.length > MAX_DIFF_CELLS) {
+    return matches;
+  }
+
+  const before = previous.map((segment) => normalizeSegmentText(segment.text));
+  const after = next.map((segment) => normalizeSegmentText(segment.text));
+  const cols = after.length + 1;
+  const table = new Uint32Array((before.length + 1) * cols);
+
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      table[i * cols + j] =
+        before[i] === after[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  // New segment id -> old segment id
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      matches.set(next[j].id, previous[i].id);
+      i += 1;
+      j += 1;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+
+  return matches;
+}
+
+function carryDocument(
+  previousSource: SegmentedDocument,
+  previousTranslation: SegmentedDocument | null,
+  next: SegmentedDocument,
+  carried: Map<string, string>
+) {
+  if (!previousTranslation) {
+    return;
+  }
+
+  const translatedById = new Map(
+    previousTranslation.segments.map((segment) => [segment.id, segment.text])
+  );
+  matchUnchangedSegments(previousSource.segments, next.segments).forEach(
+    (previousId, nextId) => {
+      const text = translatedById.get(previousId);
+      if (text) {
+        carried.set(nextId, text);
+      }
+    }
+  );
+}
+
+function readPath(data: TestDataValue, path: Array<string | number>) {
+  return path.reduce<TestDataValue | undefined>(
+    (value, key) =>
+      value && typeof value === 'object'
+        ? (value as Record<string | number, TestDataValue>)[key]
+        : undefined,
+    data
+  );
+}
+
+/**
+ * Collects the translated text of every segment whose source did not change
+ * since `previous` was produced. Those segments skip the memory and the model
+ * so wording a reviewer approved on the previous version stays as it was.
+ */
+export function carryOverUnchangedSegments({
+  previous,
+  html,
+  subject,
+  plain,
+  testData,
+}: {
+  previous: TemplateTranslation;
+  html: SegmentedDocument;
+  subject: string;
+  plain: SegmentedDocument | null;
+  testData: TestDataDocument | null;
+}): Map<string, string> {
+  const carried = new Map<string, string>();
+
+  if (previous.status !== 'completed' || !previous.translatedHtml) {
+    return carried;
+  }
+
+  const previousHtml = segmentHtml(previous.originalHtml);
+  carryDocument(
+    previousHtml,
+    projectHtmlTranslation(previousHtml, previous.translatedHtml),
+    html,
+    carried
+  );
+
+  if (
+    plain &&
+    previous.originalPlainContent &&
+    previous.translatedPlainContent
+  ) {
+    const previousPlain = segmentPlainText(previous.originalPlainContent);
+    carryDocument(
+      previousPlain,
+      projectPlainTextTranslation(
+        previousPlain,
+        previous.translatedPlainContent
+      ),
+      plain,
+      carried
+    );
+  }
+
+  if (
+    previous.translatedSubject &&
+    normalizeSegmentText(previous.originalSubject ?? '') ===
+      normalizeSegmentText(subject)
+  ) {
+    carried.set(SUBJECT_SEGMENT_ID, previous.translatedSubject);
+  }
+
+  // Fixtures belong to the task and never change between its versions
+  if (testData && previous.translatedTestData) {
+    testData.paths.forEach((path, segmentId) => {
+      const translated = readPath(previous.translatedTestData!, path);
+      if (typeof translated === 'string') {
+        carried.set(segmentId, translated);
+      }
+    });
+  }
+
+  return carried;
+}
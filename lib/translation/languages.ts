@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import {
+  LANGUAGE_FORMALITIES,
+  TEXT_DIRECTIONS,
+  type LanguageFormality,
+} from '@/lib/constants/languages';
+
+// BCP 47 style tags such as "vi", "fr-CA" or "zh-Hant"
+const LANGUAGE_CODE_REGEX = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+export const languageInputSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(LANGUAGE_CODE_REGEX, 'Use a language tag such as "de" or "pt-BR"'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  nativeName: z.string().trim().min(1, 'Native name is required').max(100),
+  direction: z.enum(TEXT_DIRECTIONS).default('ltr'),
+  formality: z.enum(LANGUAGE_FORMALITIES).default('default'),
+  enabled: z.boolean().default(true),
+});
+
+export const languageUpdateSchema = languageInputSchema.omit({ code: true });
+
+export function buildFormalityInstruction(formality: LanguageFormality) {
+  switch (formality) {
+    case 'formal':
+      return 'Use a formal register and the polite form of address throughout.';
+    case 'informal':
+      return 'Use an informal, friendly register and the familiar form of address throughout.';
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,238 @@
+import { createHash } from 'crypto';
+import { dbService } from '@/lib/services/db-service';
+import type {
+  TemplateTranslation,
+  TranslationMemoryEntry,
+} from '@/lib/db/schema';
+import {
+  alignPlainText,
+  alignSegments,
+  normalizeSegmentText,
+  type TextSegment,
+} from '@/lib/translation/segments';
+
+// Minimum similarity for a stored pair to be offered to the model as a reference
+export const FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Candidates outside this length ratio can never reach the threshold
+const FUZZY_LENGTH_RATIO = 0.6;
+
+export interface FuzzyMatch {
+  entry: TranslationMemoryEntry;
+  score: number;
+}
+
+export function hashSegment(text: string) {
+  return createHash('sha256').update(normalizeSegmentText(text)).digest('hex');
+}
+
+function tokenize(text: string) {
+  return normalizeSegmentText(text)
+    .toLowerCase()
+    .split(/[\s.,;:!?()"'«»“”]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Dice coefficient over word tokens: cheap enough to score hundreds of
+ * candidates per segment and tolerant of reordered or inserted words.
+ */
+export function segmentSimilarity(a: string, b: string) {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const remaining = new Map<string, number>();
+  tokensB.forEach((token) => {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1);
+  });
+
+  let shared = 0;
+  tokensA.forEach((token) => {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      remaining.set(token, count - 1);
+    }
+  });
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+export async function lookupMemory({
+  workspaceId,
+  sourceLanguage,
+  languageCode,
+  segments,
+}: {
+  workspaceId: string;
+  sourceLanguage: string;
+  languageCode: string;
+  segments: TextSegment[];
+}): Promise<{
+  exact: Map<string, TranslationMemoryEntry>;
+  fuzzy: Map<string, FuzzyMatch>;
+}> {
+  const exact = new Map<string, TranslationMemoryEntry>();
+  const fuzzy = new Map<string, FuzzyMatch>();
+
+  if (segments.length === 0) {
+    return { exact, fuzzy };
+  }
+
+  const hashes = new Map(
+    segments.map((segment) => [segment.id, hashSegment(segment.text)])
+  );
+  const entries = await dbService.translationMemory.findByHashes(
+    workspaceId,
+    sourceLanguage,
+    languageCode,
+    Array.from(new Set(hashes.values()))
+  );
+  const entriesByHash = new Map(
+    entries.map((entry) => [entry.sourceHash, entry])
+  );
+
+  const unmatched: TextSegment[] = [];
+  segments.forEach((segment) => {
+    const entry = entriesByHash.get(hashes.get(segment.id)!);
+    if (entry) {
+      exact.set(segment.id, entry);
+    } else {
+      unmatched.push(segment);
+    }
+  });
+
+  if (unmatched.length === 0) {
+    return { exact, fuzzy };
+  }
+
+  const lengths = unmatched.map(
+    (segment) => normalizeSegmentText(segment.text).length
+  );
+  const candidates = await dbService.translationMemory.findCandidates(
+    workspaceId,
+    sourceLanguage,
+    languageCode,
+    Math.floor(Math.min(...lengths) * FUZZY_LENGTH_RATIO),
+    Math.ceil(Math.max(...lengths) / FUZZY_LENGTH_RATIO)
+  );
+
+  unmatched.forEach((segment, index) => {
+    const length = lengths[index];
+    let best: FuzzyMatch | undefined;
+
+    candidates.forEach((entry) => {
+      const ratio =
+        Math.min(length, entry.sourceText.length) /
+        Math.max(length, entry.sourceText.length);
+      if (ratio < FUZZY_LENGTH_RATIO) {
+        return;
+      }
+
+      const score = segmentSimilarity(segment.text, entry.sourceText);
+      if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { entry, score };
+      }
+    });
+
+    if (best) {
+      fuzzy.set(segment.id, best);
+    }
+  });
+
+  return { exact, fuzzy };
+}
+
+export async function storeMemory({
+  workspaceId,
+  sourceLanguage,
+  languageCode,
+  pairs,
+  templateId,
+  translationId,
+  verified = false,
+  overwrite = false,
+}: {
+  workspaceId: string;
+  sourceLanguage: string;
+  languageCode: string;
+  pairs: Array<{ source: string; target: string }>;
+  templateId: string;
+  translationId: string;
+  verified?: boolean;
+  overwrite?: boolean;
+}): Promise<void> {
+  // A single upsert may not touch the same row twice, so dedupe by hash first
+  const entries = new Map<string, { source: string; target: string }>();
+  pairs.forEach((pair) => {
+    const source = normalizeSegmentText(pair.source);
+    const target = pair.target.trim();
+    if (source && target) {
+      entries.set(hashSegment(source), { source, target });
+    }
+  });
+
+  await dbService.translationMemory.upsert(
+    Array.from(entries.entries()).map(([sourceHash, pair]) => ({
+      workspaceId,
+      sourceLanguage,
+      languageCode,
+      sourceHash,
+      sourceText: pair.source,
+      targetText: pair.target,
+      templateId,
+      translationId,
+      verified,
+    })),
+    { overwrite }
+  );
+}
+
+/**
+ * Seeds the memory from an earlier completed translation so segments that
+ * were translated before the memory existed are still reused.
+ */
+export async function ingestTranslationHistory(
+  translation: TemplateTranslation,
+  sourceLanguage: string,
+  options: { verified?: boolean; overwrite?: boolean } = {}
+): Promise<void> {
+  if (translation.status !== 'completed' || !translation.translatedHtml) {
+    return;
+  }
+
+  const pairs = alignSegments(
+    translation.originalHtml,
+    translation.translatedHtml
+  );
+
+  if (translation.originalPlainContent && translation.translatedPlainContent) {
+    pairs.push(
+      ...alignPlainText(
+        translation.originalPlainContent,
+        translation.translatedPlainContent
+      )
+    );
+  }
+
+  if (translation.originalSubject && translation.translatedSubject) {
+    pairs.push({
+      source: translation.originalSubject,
+      target: translation.translatedSubject,
+    });
+  }
+
+  await storeMemory({
+    workspaceId: translation.workspaceId,
+    sourceLanguage,
+    languageCode: translation.languageCode,
+    pairs,
+    templateId: translation.templateId,
+    translationId: translation.id,
+    ...options,
+  });
+}
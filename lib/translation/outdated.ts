@@ -0,0 +1,28 @@
+import type { TemplateTranslation } from '@/lib/db/schema';
+
+type SourceFingerprint = Pick<
+  TemplateTranslation,
+  'templateVersionId' | 'sourceHash'
+>;
+
+/**
+ * A translation is outdated when the SendGrid version it was made from now
+ * hashes differently. Versions that were deleted or not loaded are not
+ * flagged, and neither are rows without a stored hash.
+ */
+export function isTranslationOutdated(
+  translation: SourceFingerprint,
+  versions: Array<{ id: string; content_hash?: string }>
+) {
+  if (!translation.sourceHash) {
+    return false;
+  }
+
+  const version = versions.find(
+    (candidate) => candidate.id === translation.templateVersionId
+  );
+
+  return Boolean(
+    version?.content_hash && version.content_hash !== translation.sourceHash
+  );
+}
@@ -0,0 +1,267 @@
+import Handlebars from 'handlebars';
+import type {
+  PlaceholderCategory,
+  PlaceholderIssue,
+  PlaceholderValidationResult,
+} from '@/lib/types/translation';
+
+type TokenCounts = Map<
+  string,
+  { category: PlaceholderCategory; count: number }
+>;
+
+// SendGrid renders partials through the `insert` helper rather than `{{> }}`
+const PARTIAL_HELPERS = new Set(['insert']);
+
+const URL_ATTRIBUTE_REGEX = /\b(?:href|src)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+
+// Plain-text bodies carry links inline rather than in attributes
+const BARE_URL_REGEX = /https?:\/\/[^\s<>"']+/gi;
+
+type UrlMode = 'attributes' | 'bare' | 'none';
+
+function addToken(
+  counts: TokenCounts,
+  category: PlaceholderCategory,
+  token: string
+) {
+  const key = `${category}:${token}`;
+  const existing = counts.get(key);
+  if (existing) {
+    existing.count += 1;
+  } else {
+    counts.set(key, { category, count: 1 });
+  }
+}
+
+function describeExpression(node: hbs.AST.Expression): string {
+  switch (node.type) {
+    case 'PathExpression':
+      return (node as hbs.AST.PathExpression).original;
+    case 'StringLiteral':
+      return JSON.stringify((node as hbs.AST.StringLiteral).value);
+    case 'NumberLiteral':
+    case 'BooleanLiteral':
+      return String(
+        (node as hbs.AST.NumberLiteral | hbs.AST.BooleanLiteral).value
+      );
+    case 'SubExpression': {
+      const sub = node as hbs.AST.SubExpression;
+      return `(${describeCall(sub.path, sub.params, sub.hash)})`;
+    }
+    case 'NullLiteral':
+      return 'null';
+    case 'UndefinedLiteral':
+      return 'undefined';
+    default:
+      return node.type;
+  }
+}
+
+function describeCall(
+  path: hbs.AST.Expression,
+  params: hbs.AST.Expression[],
+  hash?: hbs.AST.Hash
+): string {
+  const parts = [describeExpression(path), ...params.map(describeExpression)];
+  hash?.pairs.forEach((pair) => {
+    parts.push(`${pair.key}=${describeExpression(pair.value)}`);
+  });
+  return parts.join(' ');
+}
+
+function collectFromProgram(
+  program: hbs.AST.Program | undefined,
+  counts: TokenCounts
+) {
+  program?.body.forEach((statement) => {
+    switch (statement.type) {
+      case 'MustacheStatement': {
+        const mustache = statement as hbs.AST.MustacheStatement;
+        const call = describeCall(
+          mustache.path,
+          mustache.params,
+          mustache.hash
+        );
+        const helperName =
+          mustache.path.type === 'PathExpression'
+            ? (mustache.path as hbs.AST.PathExpression).original
+            : '';
+        const category = PARTIAL_HELPERS.has(helperName)
+          ? 'partial'
+          : 'variable';
+        addToken(
+          counts,
+          category,
+          mustache.escaped ? `{{${call}}}` : `{{{${call}}}}`
+        );
+        break;
+      }
+      case 'BlockStatement': {
+        const block = statement as hbs.AST.BlockStatement;
+        addToken(
+          counts,
+          'block',
+          `{{#${describeCall(block.path, block.params, block.hash)}}}`
+        );
+        collectFromProgram(block.program, counts);
+        if (block.inverse) {
+          addToken(counts, 'block', '{{else}}');
+          collectFromProgram(block.inverse, counts);
+        }
+        break;
+      }
+      case 'PartialStatement':
+      case 'PartialBlockStatement': {
+        const partial = statement as
+          hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement;
+        addToken(
+          counts,
+          'partial',
+          `{{> ${describeCall(partial.name, partial.params, partial.hash)}}}`
+        );
+        if (statement.type === 'PartialBlockStatement') {
+          collectFromProgram(
+            (partial as hbs.AST.PartialBlockStatement).program,
+            counts
+          );
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+}
+
+function collectUrls(source: string, mode: UrlMode, counts: TokenCounts) {
+  const regex = new RegExp(
+    mode === 'bare' ? BARE_URL_REGEX.source : URL_ATTRIBUTE_REGEX.source,
+    'gi'
+  );
+  let match;
+
+  while ((match = regex.exec(source)) !== null) {
+    const url = (
+      mode === 'bare' ? match[0] : (match[1] ?? match[2] ?? '')
+    ).trim();
+    if (url) {
+      addToken(counts, 'url', url);
+    }
+  }
+}
+
+function collectTokens(
+  source: string,
+  urlMode: UrlMode
+): { counts: TokenCounts; parseError?: string } {
+  const counts: TokenCounts = new Map();
+
+  if (urlMode !== 'none') {
+    collectUrls(source, urlMode, counts);
+  }
+
+  try {
+    collectFromProgram(Handlebars.parse(source), counts);
+  } catch (error) {
+    return {
+      counts,
+      parseError: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return { counts };
+}
+
+function compareField(
+  field: PlaceholderIssue['field'],
+  original: string,
+  translated: string
+): PlaceholderIssue[] {
+  const urlMode: UrlMode =
+    field === 'html' ? 'attributes' : field === 'plain' ? 'bare' : 'none';
+  const source = collectTokens(original, urlMode);
+  const target = collectTokens(translated, urlMode);
+
+  // An unparseable source is not something the translator can be blamed for
+  if (source.parseError) {
+    return [];
+  }
+
+  if (target.parseError) {
+    return [
+      {
+        category: 'syntax',
+        field,
+        token: target.parseError,
+        sourceCount: 0,
+        translatedCount: 0,
+      },
+    ];
+  }
+
+  const issues: PlaceholderIssue[] = [];
+  const keys = new Set([...source.counts.keys(), ...target.counts.keys()]);
+
+  keys.forEach((key) => {
+    const sourceEntry = source.counts.get(key);
+    const targetEntry = target.counts.get(key);
+    const sourceCount = sourceEntry?.count ?? 0;
+    const translatedCount = targetEntry?.count ?? 0;
+
+    if (sourceCount !== translatedCount) {
+      const category = (sourceEntry ?? targetEntry)!.category;
+      issues.push({
+        category,
+        field,
+        token: key.slice(category.length + 1),
+        sourceCount,
+        translatedCount,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Compares the Handlebars expressions, block helpers, partials and link
+ * targets of a translation against its source. Each entry in `issues` is a
+ * token whose occurrence count differs between the two.
+ */
+export function validatePlaceholders({
+  originalHtml,
+  translatedHtml,
+  originalSubject,
+  translatedSubject,
+  originalPlainContent,
+  translatedPlainContent,
+}: {
+  originalHtml: string;
+  translatedHtml: string;
+  originalSubject?: string | null;
+  translatedSubject?: string | null;
+  originalPlainContent?: string | null;
+  translatedPlainContent?: string | null;
+}): PlaceholderValidationResult {
+  const issues = [
+    ...compareField('html', originalHtml, translatedHtml),
+    ...compareField('subject', originalSubject ?? '', translatedSubject ?? ''),
+    ...compareField(
+      'plain',
+      originalPlainContent ?? '',
+      translatedPlainContent ?? ''
+    ),
+  ];
+
+  return {
+    valid: issues.length === 0,
+    issues,
+  };
+}
+
+export function summarizePlaceholderIssues(issues: PlaceholderIssue[]) {
+  return `Placeholder integrity check failed: ${issues.length} mismatch${
+    issues.length === 1 ? '' : 'es'
+  }`;
+}
@@ -0,0 +1,160 @@
+import type { TranslationProvider } from '@/lib/translation/providers/types';
+
+const DEEPL_FREE_API_BASE_URL = 'https://api-free.deepl.com';
+const DEEPL_PRO_API_BASE_URL = 'https://api.deepl.com';
+
+/**
+ * Free-plan keys end in ":fx" and only work against the free host; Pro keys
+ * only work against the Pro host. DEEPL_API_BASE_URL overrides both.
+ */
+export function getDeepLApiBaseUrl(apiKey: string): string {
+  const configured = process.env.DEEPL_API_BASE_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+  return apiKey.endsWith(':fx')
+    ? DEEPL_FREE_API_BASE_URL
+    : DEEPL_PRO_API_BASE_URL;
+}
+
+// DeepL caps a single request at 50 texts
+const MAX_TEXTS_PER_REQUEST = 50;
+
+// Target variants DeepL distinguishes; every other locale maps to its base language
+const REGIONAL_TARGETS = new Set([
+  'EN-GB',
+  'EN-US',
+  'PT-BR',
+  'PT-PT',
+  'ES-419',
+  'ZH-HANS',
+  'ZH-HANT',
+]);
+
+const PROTECTED_REGEX = /\{\{\{?[\s\S]*?\}?\}\}|&[a-zA-Z0-9#]+;/g;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Wraps Handlebars expressions and HTML entities in an ignored tag so DeepL
+ * passes them through verbatim.
+ */
+function protectText(text: string) {
+  let result = '';
+  let lastIndex = 0;
+  const regex = new RegExp(PROTECTED_REGEX.source, 'g');
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    result += escapeXml(text.slice(lastIndex, match.index));
+    result += `<x>${escapeXml(match[0])}</x>`;
+    lastIndex = match.index + match[0].length;
+  }
+
+  return result + escapeXml(text.slice(lastIndex));
+}
+
+function restoreText(text: string) {
+  return unescapeXml(text.replace(/<\/?x>/g, ''));
+}
+
+export function toDeepLLanguage(code: string, { target }: { target: boolean }) {
+  const upper = code.toUpperCase();
+  if (target && REGIONAL_TARGETS.has(upper)) {
+    return upper;
+  }
+  return upper.split('-')[0];
+}
+
+export const deeplProvider: TranslationProvider = {
+  id: 'deepl',
+  defaultModel: 'default',
+  credential: 'deepl',
+
+  isAvailable(hasCredential) {
+    return hasCredential;
+  },
+
+  async translateSegments({
+    segments,
+    sourceLanguage,
+    targetLanguage,
+    apiKey,
+  }) {
+    if (!apiKey) {
+      throw new Error('No DeepL API key is configured');
+    }
+
+    const baseUrl = getDeepLApiBaseUrl(apiKey);
+
+    const translated: Array<{ id: string; text: string }> = [];
+
+    for (
+      let offset = 0;
+      offset < segments.length;
+      offset += MAX_TEXTS_PER_REQUEST
+    ) {
+      const batch = segments.slice(offset, offset + MAX_TEXTS_PER_REQUEST);
+      const response = await fetch(`${baseUrl}/v2/translate`, {
+        method: 'POST',
+        headers: {
+          Authorization: `DeepL-Auth-Key ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: batch.map((segment) => protectText(segment.text)),
+          source_lang: toDeepLLanguage(sourceLanguage, { target: false }),
+          target_lang: toDeepLLanguage(targetLanguage.code, { target: true }),
+          // Only honoured for languages DeepL supports formality on
+          ...(targetLanguage.formality !== 'default' && {
+            formality:
+              targetLanguage.formality === 'formal'
+                ? 'prefer_more'
+                : 'prefer_less',
+          }),
+          tag_handling: 'xml',
+          ignore_tags: ['x'],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          errorData.message || `DeepL API error: ${response.status}`
+        );
+      }
+
+      const data: { translations: Array<{ text: string }> } =
+        await response.json();
+
+      batch.forEach((segment, index) => {
+        const result = data.translations[index];
+        if (result) {
+          translated.push({ id: segment.id, text: restoreText(result.text) });
+        }
+      });
+    }
+
+    return {
+      segments: translated,
+      usage: {
+        characters: segments.reduce(
+          (total, segment) => total + segment.text.length,
+          0
+        ),
+      },
+    };
+  },
+};
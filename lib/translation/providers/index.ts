@@ -0,0 +1,88 @@
+import {
+  isTranslationProviderId,
+  type TranslationProviderId,
+} from '@/lib/constants/translation-engines';
+import { deeplProvider } from '@/lib/translation/providers/deepl';
+import { mockProvider } from '@/lib/translation/providers/mock';
+import { openaiProvider } from '@/lib/translation/providers/openai';
+import type { TranslationProvider } from '@/lib/translation/providers/types';
+
+export type {
+  SegmentTranslationRequest,
+  SegmentTranslationResult,
+  TranslationProvider,
+} from '@/lib/translation/providers/types';
+
+const PROVIDERS: Record<TranslationProviderId, TranslationProvider> = {
+  openai: openaiProvider,
+  deepl: deeplProvider,
+  mock: mockProvider,
+};
+
+const FALLBACK_ENGINE = 'openai:gpt-5';
+
+export interface ResolvedTranslationEngine {
+  provider: TranslationProvider;
+  model: string;
+}
+
+export function getTranslationProvider(id: string): TranslationProvider {
+  if (!isTranslationProviderId(id)) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  return PROVIDERS[id];
+}
+
+export function listTranslationProviders(): TranslationProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+/**
+ * Per-language defaults come from TRANSLATION_ENGINE_DEFAULTS, a JSON map of
+ * language code (or "*") to "provider" or "provider:model", e.g.
+ * {"*":"openai:gpt-5","vi":"deepl"}.
+ */
+function readEngineDefaults(): Record<string, string> {
+  const raw = process.env.TRANSLATION_ENGINE_DEFAULTS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.error('Ignoring malformed TRANSLATION_ENGINE_DEFAULTS:', error);
+    return {};
+  }
+}
+
+function parseEngine(value: string): {
+  provider: string;
+  model: string | null;
+} {
+  const [provider, ...modelParts] = value.split(':');
+  const model = modelParts.join(':').trim();
+  return { provider: provider.trim(), model: model || null };
+}
+
+export function resolveTranslationEngine(
+  languageCode: string,
+  override?: { provider?: string | null; model?: string | null }
+): ResolvedTranslationEngine {
+  const defaults = readEngineDefaults();
+  const configured = parseEngine(
+    defaults[languageCode] ?? defaults['*'] ?? FALLBACK_ENGINE
+  );
+
+  const providerId = override?.provider || configured.provider;
+  const provider = getTranslationProvider(providerId);
+
+  // A task-level provider override without a model should not inherit the
+  // language default's model, which may belong to a different provider
+  const model = override?.provider
+    ? override.model || provider.defaultModel
+    : override?.model || configured.model || provider.defaultModel;
+
+  return { provider, model };
+}
@@ -0,0 +1,29 @@
+import type { TranslationProvider } from '@/lib/translation/providers/types';
+
+/**
+ * Echoes each segment back tagged with the target language. Handlebars,
+ * glossary terms and whitespace survive untouched, so the rest of the
+ * pipeline can be exercised without network access.
+ */
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  defaultModel: 'echo',
+  credential: null,
+
+  isAvailable() {
+    return (
+      process.env.NODE_ENV !== 'production' ||
+      process.env.TRANSLATION_ALLOW_MOCK === 'true'
+    );
+  },
+
+  async translateSegments({ segments, targetLanguage }) {
+    return {
+      segments: segments.map((segment) => ({
+        id: segment.id,
+        text: `[${targetLanguage.code}] ${segment.text}`,
+      })),
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  },
+};
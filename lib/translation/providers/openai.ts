@@ -0,0 +1,87 @@
+import { generateObject } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { z } from 'zod';
+import type { FuzzyMatch } from '@/lib/translation/memory';
+import type { TextSegment } from '@/lib/translation/segments';
+import type { TranslationProvider } from '@/lib/translation/providers/types';
+
+const translationOutputSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        id: z.string().describe('The id of the source segment'),
+        text: z
+          .string()
+          .describe('The translated segment with Handlebars intact'),
+      })
+    )
+    .describe('One entry per source segment, in any order'),
+  notes: z.array(z.string()).optional().describe('Optional translation notes'),
+});
+
+function buildSegmentPrompt(
+  segments: TextSegment[],
+  references: Map<string, FuzzyMatch>
+): string {
+  const referenceLines = segments
+    .filter((segment) => references.has(segment.id))
+    .map((segment) => {
+      const { entry } = references.get(segment.id)!;
+      return `- ${segment.id}: ${JSON.stringify(entry.sourceText)} => ${JSON.stringify(entry.targetText)}`;
+    });
+
+  const referenceBlock =
+    referenceLines.length > 0
+      ? `
+
+TRANSLATION MEMORY (approved wording for similar source text; reuse it where the meaning matches):
+${referenceLines.join('\n')}`
+      : '';
+
+  return `Translate these text segments extracted from a SendGrid email template.
+
+Segments are listed in document order. Consecutive segments may be fragments of one sentence split by inline markup, so keep them coherent, but return each segment separately under its original id. Return every id exactly once.
+
+Segments whose id starts with "a" are image alt text or link titles; keep them short and on a single line. Large templates are sent in several batches, so a batch may start or end mid-sentence.
+
+SEGMENTS:
+${JSON.stringify(segments, null, 2)}${referenceBlock}`;
+}
+
+export const openaiProvider: TranslationProvider = {
+  id: 'openai',
+  defaultModel: 'gpt-5',
+  credential: 'openai',
+
+  isAvailable(hasCredential) {
+    return hasCredential;
+  },
+
+  async translateSegments({
+    segments,
+    references,
+    instructions,
+    model,
+    apiKey,
+  }) {
+    if (!apiKey) {
+      throw new Error('No OpenAI API key is configured');
+    }
+
+    const openai = createOpenAI({ apiKey });
+    const result = await generateObject({
+      model: openai(model),
+      system: instructions,
+      prompt: buildSegmentPrompt(segments, references),
+      schema: translationOutputSchema,
+    });
+
+    return {
+      segments: result.object.segments,
+      usage: {
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+      },
+    };
+  },
+};
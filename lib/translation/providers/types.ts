@@ -0,0 +1,44 @@
+import type { LanguageFormality } from '@/lib/constants/languages';
+import type { SecretKind } from '@/lib/constants/secrets';
+import type { TranslationProviderId } from '@/lib/constants/translation-engines';
+import type { FuzzyMatch } from '@/lib/translation/memory';
+import type { TextSegment } from '@/lib/translation/segments';
+
+export interface SegmentTranslationRequest {
+  segments: TextSegment[];
+  // Segment id -> similar approved translation from the memory
+  references: Map<string, FuzzyMatch>;
+  sourceLanguage: string;
+  targetLanguage: {
+    code: string;
+    name: string;
+    nativeName: string;
+    formality: LanguageFormality;
+  };
+  // Full system prompt; engines without prompting support may ignore it
+  instructions: string;
+  model: string;
+  // The workspace's key for the provider's credential, when it has one
+  apiKey: string | null;
+}
+
+export interface SegmentTranslationResult {
+  segments: Array<{ id: string; text: string }>;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    // For engines that bill by source characters rather than tokens
+    characters?: number;
+  };
+}
+
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  defaultModel: string;
+  // The secret the engine authenticates with; null when it needs none
+  credential: SecretKind | null;
+  isAvailable(hasCredential: boolean): boolean;
+  translateSegments(
+    request: SegmentTranslationRequest
+  ): Promise<SegmentTranslationResult>;
+}
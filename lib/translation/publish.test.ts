@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dbService } from '@/lib/services/db-service';
+import { publishTranslation } from '@/lib/translation/publish';
+import type { TemplateTranslation } from '@/lib/db/schema';
+
+vi.hoisted(() => {
+  process.env.SENDGRID_API_BASE_URL = 'https://sendgrid.test';
+});
+
+vi.mock('@/lib/services/db-service', () => ({
+  dbService: {
+    templateTranslations: {
+      findPublishedByTemplateAndLanguage: vi.fn(),
+      markPublished: vi.fn(),
+    },
+  },
+}));
+
+// Template versions SendGrid knows about, by id
+let versions: Map<string, Record<string, unknown>>;
+const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+  const body = JSON.parse(String(init.body));
+  const match = url.match(
+    /^https:\/\/sendgrid\.test\/v3\/templates\/([^/]+)\/versions(?:\/([^/]+))?$/
+  );
+  if (!match) {
+    return Response.json(
+      { errors: [{ message: 'Unknown route' }] },
+      { status: 400 }
+    );
+  }
+
+  const [, templateId, versionId] = match;
+  if (init.method === 'PATCH') {
+    const existing = versions.get(versionId);
+    if (!existing) {
+      return Response.json(
+        { errors: [{ message: 'Version not found' }] },
+        { status: 404 }
+      );
+    }
+    Object.assign(existing, body);
+    return Response.json(existing);
+  }
+
+  const created = {
+    ...body,
+    id: `version-${versions.size + 1}`,
+    template_id: templateId,
+  };
+  versions.set(created.id, created);
+  return Response.json(created, { status: 201 });
+});
+
+function translation(
+  overrides: Partial<TemplateTranslation> = {}
+): TemplateTranslation & { translatedHtml: string } {
+  return {
+    id: 'translation-1',
+    workspaceId: 'workspace-1',
+    templateId: 'd-template',
+    languageCode: 'de',
+    originalSubject: 'Your order',
+    translatedSubject: 'Ihre Bestellung',
+    translatedPlainContent: null,
+    sendgridVersionId: null,
+    ...overrides,
+    translatedHtml: '<p>Hallo</p>',
+  } as TemplateTranslation & { translatedHtml: string };
+}
+
+describe('publishTranslation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    versions = new Map();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.mocked(
+      dbService.templateTranslations.findPublishedByTemplateAndLanguage
+    ).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates an inactive version for a language published for the first time', async () => {
+    const version = await publishTranslation(
+      'SG.key',
+      translation(),
+      'Order confirmation'
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://sendgrid.test/v3/templates/d-template/versions',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(version).toMatchObject({
+      id: 'version-1',
+      name: 'Order confirmation [de]',
+      subject: 'Ihre Bestellung',
+      html_content: '<p>Hallo</p>',
+      generate_plain_content: true,
+      active: 0,
+    });
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      'translation-1',
+      'version-1'
+    );
+  });
+
+  it('updates the version an earlier translation of the language published', async () => {
+    versions.set('version-7', { id: 'version-7', name: 'Old [de]' });
+    vi.mocked(
+      dbService.templateTranslations.findPublishedByTemplateAndLanguage
+    ).mockResolvedValue(
+      translation({ id: 'translation-0', sendgridVersionId: 'version-7' })
+    );
+
+    const version = await publishTranslation(
+      'SG.key',
+      translation({ translatedPlainContent: 'Hallo' }),
+      'Order confirmation'
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://sendgrid.test/v3/templates/d-template/versions/version-7',
+      expect.objectContaining({ method: 'PATCH' })
+    );
+    expect(version).toMatchObject({
+      id: 'version-7',
+      name: 'Order confirmation [de]',
+      plain_content: 'Hallo',
+      generate_plain_content: false,
+    });
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      'translation-1',
+      'version-7'
+    );
+  });
+
+  it('recreates the version when it was deleted on SendGrid', async () => {
+    const version = await publishTranslation(
+      'SG.key',
+      translation({ sendgridVersionId: 'version-deleted' }),
+      'Order confirmation'
+    );
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual([
+      'PATCH',
+      'POST',
+    ]);
+    expect(
+      dbService.templateTranslations.findPublishedByTemplateAndLanguage
+    ).not.toHaveBeenCalled();
+    expect(version.id).toBe('version-1');
+    expect(dbService.templateTranslations.markPublished).toHaveBeenCalledWith(
+      'translation-1',
+      'version-1'
+    );
+  });
+
+  it('keeps version names within the SendGrid limit', async () => {
+    const version = await publishTranslation(
+      'SG.key',
+      translation(),
+      'A'.repeat(120)
+    );
+
+    expect(version.name).toHaveLength(100);
+    expect(version.name.endsWith(' [de]')).toBe(true);
+  });
+});
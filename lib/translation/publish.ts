@@ -0,0 +1,71 @@
+import { dbService } from '@/lib/services/db-service';
+import { sendgridService } from '@/lib/services/sendgrid-service';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type { SendGridTemplateVersion } from '@/lib/types/sendgrid';
+
+// SendGrid rejects version names longer than 100 characters
+const MAX_VERSION_NAME_LENGTH = 100;
+
+function buildVersionName(templateName: string, languageCode: string) {
+  const suffix = ` [${languageCode}]`;
+  return (
+    templateName.slice(0, MAX_VERSION_NAME_LENGTH - suffix.length) + suffix
+  );
+}
+
+/**
+ * Pushes a completed translation to SendGrid as an inactive version of its
+ * template and records the version on the translation.
+ */
+export async function publishTranslation(
+  apiKey: string,
+  translation: TemplateTranslation & { translatedHtml: string },
+  templateName: string
+): Promise<SendGridTemplateVersion> {
+  const payload = {
+    name: buildVersionName(templateName, translation.languageCode),
+    subject: translation.translatedSubject ?? translation.originalSubject ?? '',
+    html_content: translation.translatedHtml,
+    // Keep a hand-written text part rather than letting SendGrid derive one
+    ...(translation.translatedPlainContent
+      ? {
+          plain_content: translation.translatedPlainContent,
+          generate_plain_content: false,
+        }
+      : { generate_plain_content: true }),
+  };
+
+  // Reuse the language's existing SendGrid version so republishing updates
+  // it in place rather than piling up new versions on the template.
+  const previouslyPublished = translation.sendgridVersionId
+    ? translation
+    : await dbService.templateTranslations.findPublishedByTemplateAndLanguage(
+        translation.workspaceId,
+        translation.templateId,
+        translation.languageCode
+      );
+
+  let version = previouslyPublished?.sendgridVersionId
+    ? await sendgridService.updateTemplateVersion(
+        apiKey,
+        translation.templateId,
+        previouslyPublished.sendgridVersionId,
+        payload
+      )
+    : undefined;
+
+  if (!version) {
+    version = await sendgridService.createTemplateVersion(
+      apiKey,
+      translation.templateId,
+      { ...payload, active: 0 }
+    );
+  }
+
+  await dbService.templateTranslations.markPublished(
+    translation.id,
+    version.id
+  );
+
+  return version;
+}
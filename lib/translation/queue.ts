@@ -0,0 +1,110 @@
+import { inngest } from '@/inngest/client';
+import { dbService } from '@/lib/services/db-service';
+import type { TranslationTask } from '@/lib/db/schema';
+import type { LanguageCode } from '@/lib/constants/languages';
+import type { TestData } from '@/lib/translation/test-data';
+import { recordAuditEvent, type AuditActor } from '@/lib/translation/audit';
+
+export interface QueueTranslationInput {
+  workspaceId: string;
+  templateId: string;
+  templateName: string;
+  templateVersionId: string;
+  htmlContent: string;
+  subject: string;
+  plainContent?: string;
+  generatePlainContent?: boolean;
+  sourceLanguage: string;
+  targetLanguages: string[];
+  provider?: string;
+  model?: string;
+  testData?: TestData | null;
+  batchId?: string;
+  actor: AuditActor;
+}
+
+/** Codes that are not enabled in the languages table. */
+export async function findUnsupportedLanguages(codes: string[]) {
+  const enabledCodes = new Set(
+    (await dbService.languages.listEnabled()).map((language) => language.code)
+  );
+  return codes.filter((code) => !enabledCodes.has(code));
+}
+
+/**
+ * Creates a queued task and fans out one translate-language job per target.
+ * The task is marked failed, and the error rethrown, when the jobs cannot be
+ * sent.
+ */
+export async function queueTranslationTask(
+  input: QueueTranslationInput
+): Promise<TranslationTask> {
+  const task = await dbService.translationTasks.create({
+    workspaceId: input.workspaceId,
+    batchId: input.batchId ?? null,
+    templateId: input.templateId,
+    templateName: input.templateName,
+    templateVersionId: input.templateVersionId,
+    sourceLanguage: input.sourceLanguage,
+    targetLanguages: input.targetLanguages as LanguageCode[],
+    provider: input.provider ?? null,
+    model: input.provider ? (input.model ?? null) : null,
+    testData: input.testData ?? null,
+    status: 'queued',
+    totalLanguages: input.targetLanguages.length,
+    completedLanguages: 0,
+    failedLanguages: 0,
+    createdBy: input.actor?.userId ?? null,
+  });
+
+  await recordAuditEvent(input.actor, {
+    workspaceId: task.workspaceId,
+    action: 'task.created',
+    templateId: task.templateId,
+    taskId: task.id,
+    payload: {
+      templateVersionId: task.templateVersionId,
+      sourceLanguage: task.sourceLanguage,
+      targetLanguages: task.targetLanguages,
+      provider: task.provider,
+      model: task.model,
+      batchId: task.batchId,
+    },
+  });
+
+  // SendGrid derives the text part from the HTML unless the version opts out
+  const plainContent =
+    input.generatePlainContent === false && input.plainContent?.trim()
+      ? input.plainContent
+      : undefined;
+
+  try {
+    // Leave the task queued until a worker picks up one of its languages
+    await Promise.all(
+      input.targetLanguages.map((languageCode) =>
+        inngest.send({
+          name: 'translation/translate-language',
+          data: {
+            taskId: task.id,
+            templateId: input.templateId,
+            templateVersionId: input.templateVersionId,
+            languageCode: languageCode as LanguageCode,
+            htmlContent: input.htmlContent,
+            subject: input.subject,
+            plainContent,
+            totalLanguages: input.targetLanguages.length,
+          },
+        })
+      )
+    );
+  } catch (error) {
+    await dbService.translationTasks.updateStatus(
+      task.id,
+      'failed',
+      'Failed to enqueue translation job'
+    );
+    throw error;
+  }
+
+  return task;
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import type { TemplateTranslation } from '@/lib/db/schema';
+import type { ReviewSegment } from '@/lib/types/translation';
+import {
+  assembleHtml,
+  assemblePlainText,
+  isTranslatableText,
+  projectHtmlTranslation,
+  projectPlainTextTranslation,
+  segmentHtml,
+  segmentPlainText,
+  SUBJECT_SEGMENT_ID,
+  type SegmentedDocument,
+} from '@/lib/translation/segments';
+
+export const segmentEditsSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        text: z.string().trim().min(1),
+      })
+    )
+    .min(1),
+});
+
+interface ReviewDocuments {
+  sourceHtml: SegmentedDocument;
+  sourcePlain: SegmentedDocument | null;
+  html: SegmentedDocument;
+  plain: SegmentedDocument | null;
+  hasSubject: boolean;
+}
+
+/**
+ * Re-segments the source and maps each segment onto the stored translation.
+ * Returns null when the translated markup no longer lines up with the source,
+ * e.g. for versions produced before segment-level translation.
+ */
+function projectTranslation(
+  translation: TemplateTranslation
+): ReviewDocuments | null {
+  if (!translation.translatedHtml) {
+    return null;
+  }
+
+  const sourceHtml = segmentHtml(translation.originalHtml);
+  const html = projectHtmlTranslation(sourceHtml, translation.translatedHtml);
+  if (!html) {
+    return null;
+  }
+
+  let sourcePlain: SegmentedDocument | null = null;
+  let plain: SegmentedDocument | null = null;
+  if (translation.originalPlainContent && translation.translatedPlainContent) {
+    sourcePlain = segmentPlainText(translation.originalPlainContent);
+    plain = projectPlainTextTranslation(
+      sourcePlain,
+      translation.translatedPlainContent
+    );
+    if (!plain) {
+      return null;
+    }
+  }
+
+  return {
+    sourceHtml,
+    sourcePlain,
+    html,
+    plain,
+    hasSubject: isTranslatableText(translation.originalSubject ?? ''),
+  };
+}
+
+export function buildReviewSegments(
+  translation: TemplateTranslation
+): ReviewSegment[] | null {
+  const documents = projectTranslation(translation);
+  if (!documents) {
+    return null;
+  }
+
+  const segments: ReviewSegment[] = [];
+
+  if (documents.hasSubject) {
+    segments.push({
+      id: SUBJECT_SEGMENT_ID,
+      field: 'subject',
+      source: translation.originalSubject!.trim(),
+      target: translation.translatedSubject ?? '',
+    });
+  }
+
+  documents.sourceHtml.segments.forEach((segment, index) => {
+    segments.push({
+      id: segment.id,
+      field: 'html',
+      source: segment.text,
+      target: documents.html.segments[index].text,
+    });
+  });
+
+  documents.sourcePlain?.segments.forEach((segment, index) => {
+    segments.push({
+      id: segment.id,
+      field: 'plain',
+      source: segment.text,
+      target: documents.plain!.segments[index].text,
+    });
+  });
+
+  return segments;
+}
+
+/**
+ * Writes reviewer edits back into the translated subject, HTML and text part.
+ * Markup and untouched segments are carried over byte for byte. Edits for ids
+ * that `buildReviewSegments` did not return are ignored.
+ */
+export function applySegmentEdits(
+  translation: TemplateTranslation,
+  edits: Map<string, string>
+): {
+  translatedHtml: string;
+  translatedSubject: string | null;
+  translatedPlainContent: string | null;
+} | null {
+  const documents = projectTranslation(translation);
+  if (!documents) {
+    return null;
+  }
+
+  return {
+    translatedHtml: assembleHtml(documents.html, edits),
+    translatedSubject:
+      documents.hasSubject && edits.has(SUBJECT_SEGMENT_ID)
+        ? edits.get(SUBJECT_SEGMENT_ID)!.trim()
+        : translation.translatedSubject,
+    translatedPlainContent: documents.plain
+      ? assemblePlainText(documents.plain, edits)
+      : translation.translatedPlainContent,
+  };
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assembleHtml,
+  assemblePlainText,
+  segmentHtml,
+  segmentPlainText,
+  tokenizeHtml,
+} from '@/lib/translation/segments';
+
+const TEMPLATE = [
+  '<!DOCTYPE html>\r\n',
+  '<html><head><title>Spring sale</title>',
+  '<style>td > a { color: #333; } /* Not copy */</style>',
+  '<script>if (a < b && c > d) { greet("Hello"); }</script>',
+  '</head><body>',
+  '<!-- Header copy starts here -->',
+  '<table><tr><td align="left">',
+  '  Hi {{first_name}}, save 20% &amp; more\r\n  today.',
+  '</td></tr></table>',
+  '{{#if vip}}<p>Thanks for being a VIP</p>{{/if}}',
+  '{{> footer}}',
+  '<img src="{{logo_url}}" alt=\'Our logo\' title="Back to the shop">',
+  '<a href="https://example.com/?a=1&b=2" class="button">Shop now</a>',
+  '</body></html>',
+].join('');
+
+function translateAll(html: string, translate: (text: string) => string) {
+  const document = segmentHtml(html);
+  return assembleHtml(
+    document,
+    new Map(
+      document.segments.map((segment) => [segment.id, translate(segment.text)])
+    )
+  );
+}
+
+describe('segmentHtml', () => {
+  it('extracts text nodes and alt/title values as segments', () => {
+    expect(segmentHtml(TEMPLATE).segments).toEqual([
+      { id: 's0', text: 'Spring sale' },
+      { id: 's1', text: 'Hi {{first_name}}, save 20% &amp; more\r\n  today.' },
+      { id: 's2', text: 'Thanks for being a VIP' },
+      { id: 'a0', text: 'Our logo' },
+      { id: 'a1', text: 'Back to the shop' },
+      { id: 's3', text: 'Shop now' },
+    ]);
+  });
+
+  it('leaves style, script, comment and Handlebars blocks untouched', () => {
+    const texts = segmentHtml(TEMPLATE).segments.map((segment) => segment.text);
+
+    expect(texts.join('\n')).not.toMatch(/color|greet|Header copy|footer/);
+    expect(tokenizeHtml(TEMPLATE)).toContainEqual({
+      type: 'markup',
+      value: '<style>td > a { color: #333; } /* Not copy */</style>',
+    });
+    expect(tokenizeHtml(TEMPLATE)).toContainEqual({
+      type: 'markup',
+      value: '<script>if (a < b && c > d) { greet("Hello"); }</script>',
+    });
+  });
+
+  it('treats a bare < in copy as text', () => {
+    expect(segmentHtml('<p>Orders < $50 ship free</p>').segments).toEqual([
+      { id: 's0', text: 'Orders < $50 ship free' },
+    ]);
+  });
+});
+
+describe('tokenizeHtml', () => {
+  it('joins back into the input byte for byte', () => {
+    const inputs = [
+      TEMPLATE,
+      '<p>Unclosed <b>tags and a stray </i> end',
+      '<div class="a',
+      '<style>p { color: red; }',
+      '<script src="x.js"/>Not rendered</script><p>Rendered</p>',
+    ];
+
+    inputs.forEach((html) => {
+      expect(
+        tokenizeHtml(html)
+          .map((part) => part.value)
+          .join('')
+      ).toBe(html);
+    });
+  });
+});
+
+describe('assembleHtml', () => {
+  it('returns the input unchanged without translations', () => {
+    expect(assembleHtml(segmentHtml(TEMPLATE), new Map())).toBe(TEMPLATE);
+  });
+
+  it('returns the input unchanged when every segment maps to itself', () => {
+    expect(translateAll(TEMPLATE, (text) => text)).toBe(TEMPLATE);
+  });
+
+  it('only changes the copy, keeping markup and surrounding whitespace', () => {
+    const translated = translateAll(TEMPLATE, (text) => `[${text}]`);
+    const [before, after] = [TEMPLATE, translated].map((html) =>
+      tokenizeHtml(html)
+        .filter((part) => part.type === 'markup')
+        .map((part) => part.value.replace(/(alt|title)=(["'])[^"']*\2/g, ''))
+    );
+
+    expect(after).toEqual(before);
+    expect(translated).toContain('<td align="left">  [Hi {{first_name}}');
+    expect(translated).toContain('<a href="https://example.com/?a=1&b=2"');
+  });
+
+  it('escapes markup characters in translated text', () => {
+    const document = segmentHtml('<p>Terms</p><p>Sale</p>');
+
+    expect(
+      assembleHtml(
+        document,
+        new Map([
+          ['s0', 'Terms <b>& conditions</b>'],
+          ['s1', 'Prices &lt; 5 € & more &#8364; &eur;'],
+        ])
+      )
+    ).toBe(
+      '<p>Terms &lt;b&gt;&amp; conditions&lt;/b&gt;</p>' +
+        '<p>Prices &lt; 5 € &amp; more &#8364; &eur;</p>'
+    );
+  });
+
+  it('keeps Handlebars expressions in translated text as they are', () => {
+    const document = segmentHtml('<p>Hello {{name}}</p>');
+
+    expect(
+      assembleHtml(
+        document,
+        new Map([['s0', 'Hallo {{name}} {{> signature}} {{{raw_html}}}']])
+      )
+    ).toBe('<p>Hallo {{name}} {{> signature}} {{{raw_html}}}</p>');
+  });
+
+  it('escapes the enclosing quote in translated attribute values', () => {
+    const document = segmentHtml(`<img alt="Logo" title='Shop'><p>Copy</p>`);
+
+    expect(
+      assembleHtml(
+        document,
+        new Map([
+          ['a0', 'The "best" logo'],
+          ['a1', "Shop's home"],
+        ])
+      )
+    ).toBe(
+      `<img alt="The &quot;best&quot; logo" title='Shop&#39;s home'><p>Copy</p>`
+    );
+  });
+
+  it('inserts text as is when escaping is turned off', () => {
+    const document = segmentHtml('<p>Sale</p>');
+
+    expect(
+      assembleHtml(document, new Map([['s0', '<mark>Sale</mark>']]), {
+        escapeText: false,
+      })
+    ).toBe('<p><mark>Sale</mark></p>');
+  });
+});
+
+describe('assemblePlainText', () => {
+  it('rebuilds plain text line by line without escaping', () => {
+    const text = 'Hi {{name}},\r\n\r\nSave 20% & more <today>\n';
+    const document = segmentPlainText(text);
+
+    expect(assemblePlainText(document, new Map())).toBe(text);
+    expect(
+      assemblePlainText(
+        document,
+        new Map([
+          ['p0', 'Hallo {{name}},'],
+          ['p1', 'Spare 20 % & mehr <heute>'],
+        ])
+      )
+    ).toBe('Hallo {{name}},\r\n\r\nSpare 20 % & mehr <heute>\n');
+  });
+});
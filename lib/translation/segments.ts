@@ -0,0 +1,469 @@
+import { SAXParser } from 'parse5-sax-parser';
+
+export type HtmlPart =
+  | { type: 'markup'; value: string }
+  | { type: 'text'; value: string }
+  | { type: 'attribute'; value: string; quote: '"' | "'" };
+
+export interface TextSegment {
+  id: string;
+  text: string;
+}
+
+export interface SegmentedDocument {
+  parts: HtmlPart[];
+  segments: TextSegment[];
+  // Part index -> segment id, for text parts that carry translatable copy
+  segmentByPart: Map<number, string>;
+}
+
+// The subject line travels through the memory and the provider as one more segment
+export const SUBJECT_SEGMENT_ID = 'subject';
+
+// Elements whose content is never rendered as copy
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Attributes whose values are shown to recipients (image fallbacks, tooltips)
+const TRANSLATABLE_ATTRIBUTES = ['alt', 'title'];
+
+const HANDLEBARS_REGEX = /\{\{\{?[\s\S]*?\}?\}\}/g;
+
+// Character references already in the copy, which must not be escaped twice
+const BARE_AMPERSAND_REGEX =
+  /&(?![a-zA-Z][a-zA-Z0-9]*;|#[0-9]+;|#[xX][0-9a-fA-F]+;)/g;
+
+interface SourceRange {
+  startOffset: number;
+  endOffset: number;
+}
+
+// parse5 reports attribute offsets on start tags, though the SAX types omit them
+interface StartTagLocation extends SourceRange {
+  attrs?: Record<string, SourceRange>;
+}
+
+/**
+ * Returns the source range of a quoted attribute value, or null when the
+ * value is unquoted and so stays part of the markup.
+ */
+function quotedValueRange(
+  html: string,
+  { startOffset, endOffset }: SourceRange
+): { start: number; end: number; quote: '"' | "'" } | null {
+  const quote = html[endOffset - 1];
+  if (quote !== '"' && quote !== "'") {
+    return null;
+  }
+
+  const open = html.indexOf(quote, html.indexOf('=', startOffset));
+  if (open === -1 || open >= endOffset - 1) {
+    return null;
+  }
+
+  return { start: open + 1, end: endOffset - 1, quote };
+}
+
+/**
+ * Runs the document through parse5's tokenizer and slices the input at each
+ * token's source offsets, so joining the part values always yields the input
+ * unchanged. Each tag, comment or raw-text element is one markup part; with
+ * `attributes` set, `alt` and `title` values are broken out of opening tags
+ * so they are segmented like text nodes.
+ */
+function scanHtml(
+  html: string,
+  { attributes }: { attributes: boolean }
+): HtmlPart[] {
+  const parts: HtmlPart[] = [];
+  let cursor = 0;
+  // Start of an open <script> or <style>, whose content stays markup
+  let rawTextStart: number | null = null;
+
+  const pushMarkup = (end: number) => {
+    if (end > cursor) {
+      parts.push({ type: 'markup', value: html.slice(cursor, end) });
+    }
+    cursor = Math.max(cursor, end);
+  };
+
+  const parser = new SAXParser({ sourceCodeLocationInfo: true });
+
+  parser.on('startTag', (token) => {
+    const location = token.sourceCodeLocation as StartTagLocation;
+    // Input the tokenizer dropped, such as a tag left open, stays markup
+    pushMarkup(location.startOffset);
+
+    if (RAW_TEXT_ELEMENTS.has(token.tagName)) {
+      rawTextStart = location.startOffset;
+      return;
+    }
+
+    if (attributes) {
+      TRANSLATABLE_ATTRIBUTES.map((name) => location.attrs?.[name])
+        .filter((attribute) => attribute !== undefined)
+        .sort((a, b) => a.startOffset - b.startOffset)
+        .forEach((attribute) => {
+          const range = quotedValueRange(html, attribute);
+          if (!range) {
+            return;
+          }
+
+          pushMarkup(range.start);
+          parts.push({
+            type: 'attribute',
+            value: html.slice(range.start, range.end),
+            quote: range.quote,
+          });
+          cursor = range.end;
+        });
+    }
+
+    pushMarkup(location.endOffset);
+  });
+
+  parser.on('endTag', (token) => {
+    const location = token.sourceCodeLocation!;
+    if (rawTextStart !== null) {
+      cursor = rawTextStart;
+      rawTextStart = null;
+    }
+    pushMarkup(location.endOffset);
+  });
+
+  parser.on('text', (token) => {
+    if (rawTextStart !== null) {
+      return;
+    }
+
+    const location = token.sourceCodeLocation!;
+    pushMarkup(location.startOffset);
+    parts.push({
+      type: 'text',
+      value: html.slice(location.startOffset, location.endOffset),
+    });
+    cursor = location.endOffset;
+  });
+
+  const onMarkup = (token: { sourceCodeLocation?: SourceRange | null }) => {
+    if (rawTextStart === null) {
+      pushMarkup(token.sourceCodeLocation!.startOffset);
+      pushMarkup(token.sourceCodeLocation!.endOffset);
+    }
+  };
+  parser.on('comment', onMarkup);
+  parser.on('doctype', onMarkup);
+
+  parser.end(html);
+
+  if (rawTextStart !== null) {
+    cursor = rawTextStart;
+  }
+  pushMarkup(html.length);
+
+  return parts;
+}
+
+/**
+ * Splits HTML into markup (tags, comments, raw-text elements) and the text
+ * between them. Joining the part values always yields the input unchanged.
+ */
+export function tokenizeHtml(html: string): HtmlPart[] {
+  return scanHtml(html, { attributes: false });
+}
+
+function splitHtml(html: string): HtmlPart[] {
+  return scanHtml(html, { attributes: true });
+}
+
+/**
+ * Escapes copy for a text node, leaving Handlebars expressions and existing
+ * character references as they are. Provider output is plain text, and a
+ * stray `<` or `&` would otherwise change the surrounding markup.
+ */
+function escapeText(text: string) {
+  return text
+    .split(new RegExp(`(${HANDLEBARS_REGEX.source})`))
+    .map((piece, index) =>
+      index % 2 === 1
+        ? piece
+        : piece
+            .replace(BARE_AMPERSAND_REGEX, '&amp;')
+            .replaceAll('<', '&lt;')
+            .replaceAll('>', '&gt;')
+    )
+    .join('');
+}
+
+/**
+ * A text node is worth translating when something other than Handlebars
+ * expressions, entities, digits and punctuation remains.
+ */
+export function isTranslatableText(text: string) {
+  const stripped = text
+    .replace(HANDLEBARS_REGEX, '')
+    .replace(/&[a-zA-Z0-9#]+;/g, '');
+  return /\p{L}/u.test(stripped);
+}
+
+export function normalizeSegmentText(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function splitWhitespace(value: string) {
+  const leading = value.match(/^\s*/)?.[0] ?? '';
+  const trailing = value.slice(leading.length).match(/\s*$/)?.[0] ?? '';
+  const core = value.slice(leading.length, value.length - trailing.length);
+  return { leading, core, trailing };
+}
+
+export function segmentHtml(html: string): SegmentedDocument {
+  const parts = splitHtml(html);
+  const segments: TextSegment[] = [];
+  const segmentByPart = new Map<number, string>();
+  let textCount = 0;
+  let attributeCount = 0;
+
+  parts.forEach((part, index) => {
+    if (part.type === 'markup' || !isTranslatableText(part.value)) {
+      return;
+    }
+
+    const id =
+      part.type === 'attribute' ? `a${attributeCount++}` : `s${textCount++}`;
+    segments.push({ id, text: splitWhitespace(part.value).core });
+    segmentByPart.set(index, id);
+  });
+
+  return { parts, segments, segmentByPart };
+}
+
+/**
+ * The copy of a document, one segment per line, with Handlebars expressions
+ * blanked out. Checks that search it never match inside tags, attribute
+ * names, URLs or placeholders.
+ */
+export function extractCopy(document: SegmentedDocument): string {
+  return document.segments
+    .map((segment) => segment.text.replace(HANDLEBARS_REGEX, ' '))
+    .join('\n');
+}
+
+/**
+ * Splits a plain-text body into one segment per line. Line breaks are kept as
+ * markup parts so `assemblePlainText` rebuilds the text with its layout intact.
+ */
+function tokenizePlainText(text: string): HtmlPart[] {
+  return text
+    .split(/(\r?\n)/)
+    .filter((value) => value.length > 0)
+    .map((value) =>
+      /^\r?\n$/.test(value)
+        ? { type: 'markup', value }
+        : { type: 'text', value }
+    );
+}
+
+export function segmentPlainText(
+  text: string,
+  idPrefix = 'p'
+): SegmentedDocument {
+  const parts = tokenizePlainText(text);
+  const segments: TextSegment[] = [];
+  const segmentByPart = new Map<number, string>();
+
+  parts.forEach((part, index) => {
+    if (part.type !== 'text' || !isTranslatableText(part.value)) {
+      return;
+    }
+
+    const id = `${idPrefix}${segments.length}`;
+    segments.push({ id, text: splitWhitespace(part.value).core });
+    segmentByPart.set(index, id);
+  });
+
+  return { parts, segments, segmentByPart };
+}
+
+function assembleParts(
+  document: SegmentedDocument,
+  translations: Map<string, string>,
+  encodeText: (text: string) => string
+): string {
+  return document.parts
+    .map((part, index) => {
+      const segmentId = document.segmentByPart.get(index);
+      if (!segmentId) {
+        return part.value;
+      }
+
+      const translated = translations.get(segmentId);
+      if (translated === undefined) {
+        return part.value;
+      }
+
+      const { leading, trailing } = splitWhitespace(part.value);
+
+      // A stray quote would end the attribute early
+      if (part.type === 'attribute') {
+        return `${leading}${translated.trim()}${trailing}`.replaceAll(
+          part.quote,
+          part.quote === '"' ? '&quot;' : '&#39;'
+        );
+      }
+
+      return `${leading}${encodeText(translated.trim())}${trailing}`;
+    })
+    .join('');
+}
+
+/**
+ * Rebuilds the document with translated copy, leaving markup and the
+ * whitespace surrounding each text node untouched. Segments without a
+ * translation keep their source text. Translated text is escaped unless
+ * `escapeText` is false, for callers that deliberately insert markup.
+ */
+export function assembleHtml(
+  document: SegmentedDocument,
+  translations: Map<string, string>,
+  { escapeText: escape = true }: { escapeText?: boolean } = {}
+): string {
+  return assembleParts(document, translations, (text) =>
+    escape ? escapeText(text) : text
+  );
+}
+
+// Plain-text bodies are not markup, so their copy is inserted as is
+export function assemblePlainText(
+  document: SegmentedDocument,
+  translations: Map<string, string>
+): string {
+  return assembleParts(document, translations, (text) => text);
+}
+
+/**
+ * Pairs up source and translated text nodes from two documents that share the
+ * same markup skeleton. Returns an empty list when the structure diverged,
+ * since positional alignment would then pair unrelated copy.
+ */
+export function alignSegments(
+  originalHtml: string,
+  translatedHtml: string
+): Array<{ source: string; target: string }> {
+  return alignParts(splitHtml(originalHtml), splitHtml(translatedHtml));
+}
+
+export function alignPlainText(
+  originalText: string,
+  translatedText: string
+): Array<{ source: string; target: string }> {
+  return alignParts(
+    tokenizePlainText(originalText),
+    tokenizePlainText(translatedText)
+  );
+}
+
+/**
+ * Maps the segment ids of a source document onto its translation, so an edit
+ * to one segment can be written back into the translated markup with
+ * `assembleHtml`. Returns null when the two no longer share a skeleton.
+ */
+function projectSegments(
+  source: SegmentedDocument,
+  targetParts: HtmlPart[]
+): SegmentedDocument | null {
+  if (
+    source.parts.length !== targetParts.length ||
+    source.parts.some((part, index) => part.type !== targetParts[index].type)
+  ) {
+    return null;
+  }
+
+  const segments: TextSegment[] = [];
+  source.segmentByPart.forEach((id, index) => {
+    segments.push({ id, text: splitWhitespace(targetParts[index].value).core });
+  });
+
+  return {
+    parts: targetParts,
+    segments,
+    segmentByPart: source.segmentByPart,
+  };
+}
+
+export function projectHtmlTranslation(
+  source: SegmentedDocument,
+  translatedHtml: string
+) {
+  return projectSegments(source, splitHtml(translatedHtml));
+}
+
+export function projectPlainTextTranslation(
+  source: SegmentedDocument,
+  translatedText: string
+) {
+  return projectSegments(source, tokenizePlainText(translatedText));
+}
+
+function alignParts(
+  source: HtmlPart[],
+  target: HtmlPart[]
+): Array<{ source: string; target: string }> {
+  if (source.length !== target.length) {
+    return [];
+  }
+
+  const pairs: Array<{ source: string; target: string }> = [];
+
+  for (let index = 0; index < source.length; index += 1) {
+    const sourcePart = source[index];
+    const targetPart = target[index];
+
+    if (sourcePart.type !== targetPart.type) {
+      return [];
+    }
+
+    if (sourcePart.type !== 'markup' && isTranslatableText(sourcePart.value)) {
+      pairs.push({
+        source: splitWhitespace(sourcePart.value).core,
+        target: splitWhitespace(targetPart.value).core,
+      });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Groups segments into provider requests small enough to avoid truncated
+ * responses. Document order is kept so neighbouring fragments usually land
+ * in the same batch.
+ */
+export function batchSegments(
+  segments: TextSegment[],
+  { maxSegments, maxCharacters }: { maxSegments: number; maxCharacters: number }
+): TextSegment[][] {
+  const batches: TextSegment[][] = [];
+  let current: TextSegment[] = [];
+  let characters = 0;
+
+  segments.forEach((segment) => {
+    if (
+      current.length > 0 &&
+      (current.length >= maxSegments ||
+        characters + segment.text.length > maxCharacters)
+    ) {
+      batches.push(current);
+      current = [];
+      characters = 0;
+    }
+
+    current.push(segment);
+    characters += segment.text.length;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+
+/**
+ * Fingerprints the copy a translation was made from. The hand-written text
+ * part only counts when the version opts out of SendGrid generating it, which
+ * is also the only case where translations store it.
+ */
+export function hashTranslationSource({
+  html,
+  subject,
+  plainContent,
+}: {
+  html: string;
+  subject?: string | null;
+  plainContent?: string | null;
+}) {
+  // Record separator keeps the fields apart; mirrored by migration 0014's backfill
+  return createHash('sha256')
+    .update([subject ?? '', html, plainContent ?? ''].join('\x1e'))
+    .digest('hex');
+}
+
+export function hashSendGridVersion(version: {
+  html_content?: string | null;
+  subject?: string | null;
+  plain_content?: string | null;
+  generate_plain_content?: boolean;
+}) {
+  return hashTranslationSource({
+    html: version.html_content ?? '',
+    subject: version.subject,
+    plainContent:
+      version.generate_plain_content === false && version.plain_content?.trim()
+        ? version.plain_content
+        : null,
+  });
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import type { StyleGuide } from '@/lib/db/schema';
+import type { AppliedStyleGuide } from '@/lib/types/translation';
+
+export const styleGuideInputSchema = z.object({
+  languageCode: z.string().trim().min(1),
+  templateId: z.string().trim().min(1).nullish(),
+  templateName: z.string().trim().max(200).nullish(),
+  tone: z.string().trim().max(200).nullish(),
+  instructions: z.string().trim().min(1).max(5000),
+});
+
+/**
+ * Orders the language-wide guide before the template guide so template
+ * specifics read as refinements of the general rules.
+ */
+export function toAppliedStyleGuides(
+  guides: StyleGuide[]
+): AppliedStyleGuide[] {
+  return guides
+    .map((guide) => ({
+      id: guide.id,
+      scope: guide.templateId ? ('template' as const) : ('language' as const),
+      tone: guide.tone,
+      instructions: guide.instructions,
+      updatedAt: new Date(guide.updatedAt).toISOString(),
+    }))
+    .sort((a, b) =>
+      a.scope === b.scope ? 0 : a.scope === 'language' ? -1 : 1
+    );
+}
+
+// A template guide's tone overrides the language-wide one
+export function resolveStyleGuideTone(guides: AppliedStyleGuide[]) {
+  return guides.reduce<string | null>(
+    (tone, guide) => guide.tone || tone,
+    null
+  );
+}
+
+export function buildStyleGuidePrompt(guides: AppliedStyleGuide[]): string {
+  const sections = guides.map((guide) =>
+    guide.scope === 'template'
+      ? `For this template specifically:\n${guide.instructions}`
+      : guide.instructions
+  );
+
+  if (sections.length === 0) {
+    return '';
+  }
+
+  return `\n\nSTYLE GUIDE (follow unless it conflicts with the critical rules):\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { DEFAULT_SOURCE_LANGUAGE } from '@/lib/constants/languages';
+
+export const templateSettingsInputSchema = z
+  .object({
+    templateName: z.string().trim().max(200).nullish(),
+    sourceLanguage: z.string().trim().min(1).default(DEFAULT_SOURCE_LANGUAGE),
+    targetLanguages: z.array(z.string().trim().min(1)).default([]),
+    reviewers: z
+      .record(z.string(), z.array(z.string().trim().toLowerCase().email()))
+      .default({}),
+    autoTranslate: z.boolean().default(false),
+    autoPublish: z.boolean().default(false),
+  })
+  .refine((data) => !data.targetLanguages.includes(data.sourceLanguage), {
+    message: 'Target languages must not include the source language',
+    path: ['targetLanguages'],
+  })
+  .refine((data) => !data.autoTranslate || data.targetLanguages.length > 0, {
+    message: 'Choose at least one target language to translate automatically',
+    path: ['targetLanguages'],
+  })
+  // Reviewers only apply to languages the template is translated into
+  .transform((data) => ({
+    ...data,
+    reviewers: Object.fromEntries(
+      data.targetLanguages.flatMap((code): Array<[string, string[]]> => {
+        const emails = Array.from(new Set(data.reviewers[code] ?? []));
+        return emails.length > 0 ? [[code, emails]] : [];
+      })
+    ),
+  }));
+
+export type TemplateSettingsInput = z.infer<typeof templateSettingsInputSchema>;
@@ -0,0 +1,122 @@
+import type { TestDataValue } from '@/lib/types/translation';
+import {
+  isTranslatableText,
+  type TextSegment,
+} from '@/lib/translation/segments';
+
+export type TestData = Record<string, TestDataValue>;
+
+export interface TestDataDocument {
+  data: TestData;
+  segments: TextSegment[];
+  // Segment id -> path of keys and indexes to the string it came from
+  paths: Map<string, Array<string | number>>;
+}
+
+const URL_LIKE_REGEX = /^(?:[a-z][a-z0-9+.-]*:|www\.|\/)/i;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_DATE_REGEX =
+  /^\d{4}-\d{2}-\d{2}(?:[T\s][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const CODE_REGEX = /^[A-Z0-9]{2,6}$/;
+
+/**
+ * Sample values worth localizing are sentences and names. Identifiers, links,
+ * emails, dates, currency or country codes and single tokens mixing digits
+ * or punctuation (order numbers, SKUs, domains) are left untouched.
+ */
+export function isHumanReadableValue(value: string) {
+  const trimmed = value.trim();
+
+  if (!trimmed || !isTranslatableText(trimmed)) {
+    return false;
+  }
+
+  if (
+    URL_LIKE_REGEX.test(trimmed) ||
+    EMAIL_REGEX.test(trimmed) ||
+    ISO_DATE_REGEX.test(trimmed) ||
+    CODE_REGEX.test(trimmed)
+  ) {
+    return false;
+  }
+
+  if (!/\s/.test(trimmed) && /[\d_./\\#-]/.test(trimmed)) {
+    return false;
+  }
+
+  return true;
+}
+
+export function parseTestData(raw: string | null | undefined) {
+  if (!raw?.trim()) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as TestData)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function segmentTestData(
+  data: TestData,
+  idPrefix = 't'
+): TestDataDocument {
+  const segments: TextSegment[] = [];
+  const paths = new Map<string, Array<string | number>>();
+
+  const visit = (value: TestDataValue, path: Array<string | number>) => {
+    if (typeof value === 'string') {
+      if (isHumanReadableValue(value)) {
+        const id = `${idPrefix}${segments.length}`;
+        segments.push({ id, text: value.trim() });
+        paths.set(id, path);
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+      return;
+    }
+
+    if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) =>
+        visit(item, [...path, key])
+      );
+    }
+  };
+
+  visit(data, []);
+  return { data, segments, paths };
+}
+
+/**
+ * Returns a copy of the fixture with translated strings swapped in. Keys,
+ * structure and every untranslated value are preserved.
+ */
+export function assembleTestData(
+  document: TestDataDocument,
+  translations: Map<string, string>
+): TestData {
+  const result = structuredClone(document.data);
+
+  document.paths.forEach((path, segmentId) => {
+    const translated = translations.get(segmentId);
+    if (translated === undefined || path.length === 0) {
+      return;
+    }
+
+    let parent = result as Record<string | number, TestDataValue>;
+    for (const key of path.slice(0, -1)) {
+      parent = parent[key] as Record<string | number, TestDataValue>;
+    }
+    parent[path[path.length - 1]] = translated.trim();
+  });
+
+  return result;
+}
@@ -0,0 +1,86 @@
+import { dbService } from '@/lib/services/db-service';
+import type { BudgetStatus } from '@/lib/types/translation';
+
+export interface TranslationUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Source characters sent to engines that bill per character
+  characters: number;
+}
+
+// USD list prices per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+};
+
+// Unlisted OpenAI models (snapshots, overrides, engine defaults) are costed at
+// the highest known rate, so they can never slip past the monthly budget
+const FALLBACK_OPENAI_PRICING = {
+  input: Math.max(...Object.values(MODEL_PRICING).map((price) => price.input)),
+  output: Math.max(
+    ...Object.values(MODEL_PRICING).map((price) => price.output)
+  ),
+};
+
+// DeepL API Pro bills per source character
+const DEEPL_PRICE_PER_MILLION_CHARACTERS = 25;
+
+export function emptyUsage(): TranslationUsage {
+  return { inputTokens: 0, outputTokens: 0, characters: 0 };
+}
+
+export function estimateTranslationCost(
+  provider: string,
+  model: string,
+  usage: TranslationUsage
+): number {
+  if (provider === 'deepl') {
+    return (usage.characters / 1_000_000) * DEEPL_PRICE_PER_MILLION_CHARACTERS;
+  }
+
+  if (provider !== 'openai') {
+    return 0;
+  }
+
+  const pricing = MODEL_PRICING[model] ?? FALLBACK_OPENAI_PRICING;
+
+  return (
+    (usage.inputTokens / 1_000_000) * pricing.input +
+    (usage.outputTokens / 1_000_000) * pricing.output
+  );
+}
+
+/** Start of the given month and of the month after it, in UTC. */
+export function getMonthRange(month: Date = new Date()) {
+  const from = new Date(
+    Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1)
+  );
+  const to = new Date(
+    Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1)
+  );
+  return { from, to };
+}
+
+export async function getBudgetStatus(
+  workspaceId: string
+): Promise<BudgetStatus> {
+  const { from, to } = getMonthRange();
+  const [budget, spentThisMonth] = await Promise.all([
+    dbService.translationBudget.get(workspaceId),
+    dbService.usage.totalCost(workspaceId, from, to),
+  ]);
+  const monthlyLimit = budget?.monthlyLimit ?? null;
+
+  return {
+    monthlyLimit,
+    spentThisMonth,
+    exceeded: monthlyLimit !== null && spentThisMonth >= monthlyLimit,
+  };
+}
+
+export function formatBudgetExceeded(status: BudgetStatus) {
+  return `The monthly translation budget of $${status.monthlyLimit?.toFixed(
+    2
+  )} has been reached ($${status.spentThisMonth.toFixed(2)} spent)`;
+}
@@ -0,0 +1,17 @@
+import type { SecretKind } from '@/lib/constants/secrets';
+
+// What the browser sees of a stored key; the value itself stays on the server
+export interface SecretStatus {
+  kind: SecretKind;
+  // Stored for the workspace, read from the environment, or missing
+  source: 'workspace' | 'environment' | null;
+  hint: string | null;
+  version: number | null;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+export interface SecretTestResult {
+  ok: boolean;
+  message: string;
+}
@@ -10,6 +10,8 @@ export interface SendGridTemplateVersion {
   updated_at: string;
   editor: string;
   test_data: string;
+  // Added by /api/sendgrid/templates; see hashTranslationSource
+  content_hash?: string;
 }
 
 export interface SendGridTemplate {
@@ -0,0 +1,121 @@
+import type { AuditAction } from '@/lib/constants/audit';
+
+export type PlaceholderCategory =
+  'variable' | 'block' | 'partial' | 'url' | 'syntax';
+
+export interface PlaceholderIssue {
+  category: PlaceholderCategory;
+  field: 'html' | 'subject' | 'plain';
+  token: string;
+  sourceCount: number;
+  translatedCount: number;
+}
+
+export interface PlaceholderValidationResult {
+  valid: boolean;
+  issues: PlaceholderIssue[];
+}
+
+export interface GlossaryIssue {
+  termId: string;
+  sourceTerm: string;
+  expected: string;
+  field: 'html' | 'subject' | 'plain';
+}
+
+export interface MemoryStats {
+  totalSegments: number;
+  exactMatches: number;
+  fuzzyMatches: number;
+  modelSegments: number;
+  // Kept verbatim from the version an update was based on
+  unchangedSegments?: number;
+}
+
+export interface AppliedStyleGuide {
+  id: string;
+  scope: 'language' | 'template';
+  tone: string | null;
+  instructions: string;
+  updatedAt: string;
+}
+
+// JSON value as found in a SendGrid version's test_data
+export type TestDataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | TestDataValue[]
+  | { [key: string]: TestDataValue };
+
+// One source/target pair in the side-by-side review view
+export interface ReviewSegment {
+  id: string;
+  field: 'html' | 'subject' | 'plain';
+  source: string;
+  target: string;
+}
+
+export interface DiffChange {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface SegmentDiff {
+  id: string;
+  field: ReviewSegment['field'];
+  source: string;
+  changes: DiffChange[];
+}
+
+export interface TranslationDiff {
+  base: { id: string; version: number };
+  compare: { id: string; version: number };
+  // Null when either version no longer lines up with the source segments
+  segments: SegmentDiff[] | null;
+  unchangedSegments: number;
+  // Line diff of the raw HTML, used when segments cannot be compared
+  lines: DiffChange[] | null;
+  // Translated HTML with changed text wrapped in <mark> for rendering
+  highlightedHtml: { base: string; compare: string };
+}
+
+// Summed provider usage for one row of the usage dashboard
+export interface UsageTotals {
+  translations: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface UsageReport {
+  // First day of the month the template and language breakdowns cover
+  month: string;
+  byTemplate: Array<UsageTotals & { templateId: string; templateName: string }>;
+  byLanguage: Array<UsageTotals & { languageCode: string }>;
+  // Most recent month first
+  byMonth: Array<UsageTotals & { month: string }>;
+  budget: BudgetStatus;
+}
+
+export interface BudgetStatus {
+  // USD per calendar month; null means no limit
+  monthlyLimit: number | null;
+  spentThisMonth: number;
+  exceeded: boolean;
+}
+
+export interface AuditEventFilters {
+  templateId?: string;
+  taskId?: string;
+  translationId?: string;
+  actorId?: string;
+  languageCode?: string;
+  actions?: AuditAction[];
+  from?: Date;
+  to?: Date;
+  // Id of the last event already shown, for paging back through the timeline
+  before?: string;
+  limit: number;
+}
@@ -0,0 +1,9 @@
+// What the browser sees of a workspace; its keys stay on the server
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  slug: string;
+  // True when a SendGrid key is stored for the workspace, or when the default
+  // workspace falls back to SENDGRID_API_KEY
+  hasSendGridApiKey: boolean;
+}
@@ -6,6 +6,8 @@ import type { SendGridTemplate } from '@/lib/types/sendgrid';
 export interface TemplateManagerContextValue {
   selectedTemplate: SendGridTemplate | null;
   setSelectedTemplate: (template: SendGridTemplate | null) => void;
+  // Refetches the template list, e.g. after switching to another workspace
+  reloadTemplates: () => Promise<void>;
 }
 
 const TemplateManagerContext = createContext<